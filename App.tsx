@@ -1,42 +1,65 @@
 
-import React, { useState } from 'react';
-import { GitHubIcon, VideoIcon, ImageIcon, StoryIcon, IdeaIcon } from './components/icons';
+import React, { useEffect, useState } from 'react';
+import { GitHubIcon, VideoIcon, ImageIcon, StoryIcon, IdeaIcon, LibraryIcon, FilmIcon, KeyIcon, ChartIcon } from './components/icons';
 import { VideoCreator } from './components/VideoCreator';
 import { StoryCreator } from './components/StoryCreator';
+import { StoryboardCreator } from './components/StoryboardCreator';
 import { ImageGenerator } from './components/ImageGenerator';
 import { IdeaGenerator } from './components/IdeaGenerator';
+import { AssetLibrary } from './components/AssetLibrary';
+import { JobQueue } from './components/JobQueue';
+import { ApiKeySettings } from './components/ApiKeySettings';
+import { UsageDashboard } from './components/UsageDashboard';
+import { TabUsage } from './components/TabUsage';
 import { useLanguage } from './contexts/LanguageContext';
+import { useApiKey } from './contexts/ApiKeyContext';
+import { useUsage } from './contexts/UsageContext';
 import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { Handoff, HandoffPayload, HandoffTarget } from './services/handoff';
+import { setUsageSource } from './services/usageLedger';
 
 
-type Tab = 'story' | 'idea' | 'image' | 'video';
+type Tab = 'story' | 'storyboard' | 'idea' | 'image' | 'video' | 'library';
 
 const App: React.FC = () => {
     const [activeTab, setActiveTab] = useState<Tab>('story');
-    const [videoPrompt, setVideoPrompt] = useState('');
-    const [imagePrompt, setImagePrompt] = useState('');
+    // The hand-off is delivered to its target tab and dropped once the user moves on.
+    const [handoff, setHandoff] = useState<Handoff | null>(null);
     const { t } = useLanguage();
+    const { status: keyStatus, openSettings } = useApiKey();
+    const { openUsage } = useUsage();
 
-    const sendPromptToVideoCreator = (prompt: string) => {
-        setVideoPrompt(prompt);
-        setActiveTab('video');
+    useEffect(() => {
+        // Service calls are attributed to the open tab in the usage ledger.
+        setUsageSource(activeTab === 'library' ? undefined : activeTab);
+    }, [activeTab]);
+
+    const sendTo = (target: HandoffTarget, payload: HandoffPayload) => {
+        setHandoff({ id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, target, payload });
+        setActiveTab(target);
     };
-    
-    const sendPromptToImageGenerator = (prompt: string) => {
-        setImagePrompt(prompt);
-        setActiveTab('image');
+
+    const selectTab = (tab: Tab) => {
+        setHandoff(null);
+        setActiveTab(tab);
     };
 
+    const handoffFor = (target: HandoffTarget) => (handoff?.target === target ? handoff : null);
+
     const renderContent = () => {
         switch (activeTab) {
             case 'story':
-                return <StoryCreator sendPromptToVideoCreator={sendPromptToVideoCreator} />;
+                return <StoryCreator sendTo={sendTo} />;
+            case 'storyboard':
+                return <StoryboardCreator handoff={handoffFor('storyboard')} />;
             case 'idea':
-                return <IdeaGenerator sendPromptToImageGenerator={sendPromptToImageGenerator} sendPromptToVideoCreator={sendPromptToVideoCreator} />;
+                return <IdeaGenerator sendTo={sendTo} />;
             case 'image':
-                return <ImageGenerator initialPrompt={imagePrompt} sendPromptToVideoCreator={sendPromptToVideoCreator} />;
+                return <ImageGenerator handoff={handoffFor('image')} sendTo={sendTo} />;
             case 'video':
-                return <VideoCreator initialPrompt={videoPrompt} />;
+                return <VideoCreator handoff={handoffFor('video')} />;
+            case 'library':
+                return <AssetLibrary />;
             default:
                 return null;
         }
@@ -44,24 +67,30 @@ const App: React.FC = () => {
 
     const tabs: { id: Tab; labelKey: string; icon: React.FC<React.SVGProps<SVGSVGElement>>; color: string }[] = [
         { id: 'story', labelKey: 'tab.story', icon: StoryIcon, color: 'purple' },
+        { id: 'storyboard', labelKey: 'tab.storyboard', icon: FilmIcon, color: 'indigo' },
         { id: 'idea', labelKey: 'tab.idea', icon: IdeaIcon, color: 'pink' },
         { id: 'image', labelKey: 'tab.image', icon: ImageIcon, color: 'amber' },
         { id: 'video', labelKey: 'tab.video', icon: VideoIcon, color: 'cyan' },
+        { id: 'library', labelKey: 'tab.library', icon: LibraryIcon, color: 'emerald' },
     ];
 
     const getTabClasses = (tabId: Tab, color: string) => {
         const isActive = activeTab === tabId;
         const colorClasses: { [key: string]: string } = {
             purple: 'border-purple-500 text-purple-400',
+            indigo: 'border-indigo-500 text-indigo-400',
             pink: 'border-pink-500 text-pink-400',
             amber: 'border-amber-500 text-amber-400',
-            cyan: 'border-cyan-500 text-cyan-400'
+            cyan: 'border-cyan-500 text-cyan-400',
+            emerald: 'border-emerald-500 text-emerald-400'
         };
         const hoverColorClasses: { [key: string]: string } = {
              purple: 'hover:bg-purple-900/50 hover:text-purple-300',
+             indigo: 'hover:bg-indigo-900/50 hover:text-indigo-300',
              pink: 'hover:bg-pink-900/50 hover:text-pink-300',
              amber: 'hover:bg-amber-900/50 hover:text-amber-300',
-             cyan: 'hover:bg-cyan-900/50 hover:text-cyan-300'
+             cyan: 'hover:bg-cyan-900/50 hover:text-cyan-300',
+             emerald: 'hover:bg-emerald-900/50 hover:text-emerald-300'
         }
 
         return `w-full sm:w-auto flex-1 sm:flex-none flex items-center justify-center gap-2 px-4 py-3 font-semibold text-gray-300 border-b-2 transition-all duration-300
@@ -72,7 +101,23 @@ const App: React.FC = () => {
         <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center p-4 sm:p-6 lg:p-8 font-sans">
             <main className="w-full max-w-5xl mx-auto flex flex-col gap-6">
                  <header className="w-full">
-                    <div className="w-full flex justify-end mb-2">
+                    <div className="w-full flex justify-end gap-2 mb-2">
+                        <button
+                            onClick={() => openUsage()}
+                            className="px-3 py-2 rounded-lg transition-colors bg-gray-700 hover:bg-gray-600 border border-gray-600 text-gray-200 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                            aria-label={t('usage.title')}
+                            title={t('usage.title')}
+                        >
+                            <ChartIcon className="w-5 h-5" />
+                        </button>
+                        <button
+                            onClick={openSettings}
+                            className={`px-3 py-2 rounded-lg transition-colors bg-gray-700 hover:bg-gray-600 border focus:outline-none focus:ring-2 focus:ring-indigo-500 ${keyStatus === 'missing' ? 'border-yellow-500 text-yellow-300' : 'border-gray-600 text-gray-200'}`}
+                            aria-label={t('apiKey.settings.title')}
+                            title={t('apiKey.settings.title')}
+                        >
+                            <KeyIcon className="w-5 h-5" />
+                        </button>
                         <LanguageSwitcher />
                     </div>
                     <div className="text-center">
@@ -90,18 +135,22 @@ const App: React.FC = () => {
 
                 <nav className="w-full bg-gray-800/50 rounded-xl p-1 border border-gray-700 backdrop-blur-sm flex justify-around">
                     {tabs.map(({ id, labelKey, icon: Icon, color }) => (
-                         <button key={id} onClick={() => setActiveTab(id)} className={getTabClasses(id, color)}>
+                         <button key={id} onClick={() => selectTab(id)} className={getTabClasses(id, color)}>
                             <Icon className="w-5 h-5" />
                             <span className="hidden sm:inline">{t(labelKey)}</span>
                          </button>
                     ))}
                 </nav>
                 
-                <div className="mt-2">
+                <div className="mt-2 flex flex-col gap-3">
+                    {activeTab !== 'library' && <TabUsage source={activeTab} />}
                     {renderContent()}
                 </div>
 
             </main>
+            <JobQueue onOpenLibrary={() => selectTab('library')} />
+            <ApiKeySettings />
+            <UsageDashboard />
         </div>
     );
 };
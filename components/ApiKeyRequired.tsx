@@ -0,0 +1,55 @@
+import React from 'react';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { Loader } from './Loader';
+import { ErrorMessage } from './ErrorMessage';
+import { InfoIcon } from './icons';
+
+interface ApiKeyRequiredProps {
+    /** The tab asking for a key, which picks the title and description. */
+    area: 'story' | 'storyboard' | 'idea' | 'image' | 'video';
+    /** Linked after the description when set. */
+    docsUrl?: string;
+}
+
+/** Shown by a tab instead of its content while the key is being checked or is missing. */
+export const ApiKeyRequired: React.FC<ApiKeyRequiredProps> = ({ area, docsUrl }) => {
+    const { t } = useLanguage();
+    const { status, isAiStudioAvailable, keyError, selectAiStudioKey, chooseKey, openSettings } = useApiKey();
+
+    if (status === 'checking') {
+        return (
+            <div className="flex justify-center items-center p-8 bg-gray-800/50 rounded-2xl">
+                <Loader />
+                <p className="ml-4 text-gray-400">{t('apiKey.checking')}</p>
+            </div>
+        );
+    }
+
+    const primaryClasses = "bg-yellow-500 text-yellow-950 font-bold py-2 px-5 rounded-lg hover:bg-yellow-400 transition-colors";
+    const secondaryClasses = "bg-gray-700 text-gray-200 font-semibold py-2 px-5 rounded-lg hover:bg-gray-600 border border-gray-600 transition-colors";
+
+    return (
+        <div className="bg-yellow-900/30 border border-yellow-700 text-yellow-200 px-6 py-5 rounded-2xl relative text-center">
+            <InfoIcon className="w-8 h-8 mx-auto mb-3 text-yellow-400" />
+            <h3 className="font-bold text-xl mb-2 text-white">{t(`${area}.apiKey.required.title`)}</h3>
+            <p className="text-yellow-300/80 mb-4">
+                {t(`${area}.apiKey.required.description`)}
+                {docsUrl && (
+                    <> <a href={docsUrl} target="_blank" rel="noopener noreferrer" className="text-yellow-300 font-semibold hover:underline">{t(`${area}.apiKey.required.docsLink`)}</a>.</>
+                )}
+            </p>
+            <div className="flex flex-wrap justify-center gap-3">
+                {isAiStudioAvailable && (
+                    <button onClick={selectAiStudioKey} className={primaryClasses}>
+                        {t('apiKey.button.selectAiStudio')}
+                    </button>
+                )}
+                <button onClick={openSettings} className={isAiStudioAvailable ? secondaryClasses : primaryClasses}>
+                    {t('apiKey.button.enterKey')}
+                </button>
+            </div>
+            {keyError && <div className="mt-4 text-left"><ErrorMessage message={keyError} onSelectKey={chooseKey} /></div>}
+        </div>
+    );
+};
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { maskApiKey } from '../services/apiKeys';
+import { AppError, toAppError } from '../services/errors';
+import { ErrorMessage } from './ErrorMessage';
+import { KeyIcon } from './icons';
+
+/** A dialog for choosing where the API key comes from and entering one. */
+export const ApiKeySettings: React.FC = () => {
+    const { t } = useLanguage();
+    const {
+        status,
+        source,
+        storedKey,
+        isAiStudioAvailable,
+        hasEnvKey,
+        selectAiStudioKey,
+        saveApiKey,
+        removeStoredApiKey,
+        isSettingsOpen,
+        closeSettings,
+    } = useApiKey();
+    const [draftKey, setDraftKey] = useState('');
+    const [showKey, setShowKey] = useState(false);
+    const [isValidating, setIsValidating] = useState(false);
+    const [error, setError] = useState<string | AppError>('');
+
+    useEffect(() => {
+        if (!isSettingsOpen) return;
+        setDraftKey('');
+        setShowKey(false);
+        setError('');
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') closeSettings();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isSettingsOpen, closeSettings]);
+
+    if (!isSettingsOpen) return null;
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draftKey.trim()) return;
+        setIsValidating(true);
+        setError('');
+        try {
+            await saveApiKey(draftKey);
+            closeSettings();
+        } catch (err) {
+            setError(toAppError(err));
+        } finally {
+            setIsValidating(false);
+        }
+    };
+
+    const handleSelectAiStudio = async () => {
+        await selectAiStudioKey();
+        closeSettings();
+    };
+
+    const sourceLabel = status === 'checking'
+        ? t('apiKey.checking')
+        : source ? t(`apiKey.source.${source}`) : t(status === 'ready' ? 'apiKey.source.notNeeded' : 'apiKey.source.none');
+    const buttonClasses = "text-sm font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" onClick={closeSettings}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="api-key-settings-title"
+                className="w-full max-w-lg bg-gray-800 rounded-2xl p-6 shadow-2xl border border-gray-700 flex flex-col gap-4"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex items-center gap-3">
+                    <KeyIcon className="w-6 h-6 text-indigo-400" />
+                    <h2 id="api-key-settings-title" className="text-xl font-bold text-white">{t('apiKey.settings.title')}</h2>
+                </div>
+
+                <div className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 text-sm text-gray-300">
+                    <span className="text-gray-400">{t('apiKey.settings.current')} </span>
+                    <span className="font-semibold text-white">{sourceLabel}</span>
+                    {source === 'stored' && storedKey && <span className="ml-2 font-mono text-gray-400">{maskApiKey(storedKey)}</span>}
+                </div>
+
+                {isAiStudioAvailable && (
+                    <button onClick={handleSelectAiStudio} className={`${buttonClasses} bg-indigo-600 text-white hover:bg-indigo-500`}>
+                        {t('apiKey.button.selectAiStudio')}
+                    </button>
+                )}
+
+                <form onSubmit={handleSave} className="flex flex-col gap-2">
+                    <label htmlFor="api-key-input" className="text-sm font-medium text-gray-300">{t('apiKey.settings.enterLabel')}</label>
+                    <div className="flex gap-2">
+                        <input
+                            id="api-key-input"
+                            type={showKey ? 'text' : 'password'}
+                            value={draftKey}
+                            onChange={e => setDraftKey(e.target.value)}
+                            placeholder={t('apiKey.settings.placeholder')}
+                            autoComplete="off"
+                            spellCheck={false}
+                            className="flex-grow p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none transition font-mono"
+                            disabled={isValidating}
+                        />
+                        <button type="button" onClick={() => setShowKey(!showKey)} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+                            {showKey ? t('apiKey.settings.hide') : t('apiKey.settings.show')}
+                        </button>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                        {t('apiKey.settings.storageNote')}{' '}
+                        <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="text-indigo-300 hover:underline">{t('apiKey.settings.getKey')}</a>
+                    </p>
+                    <button type="submit" disabled={isValidating || !draftKey.trim()} className={`${buttonClasses} bg-indigo-600 text-white hover:bg-indigo-500`}>
+                        {isValidating ? t('apiKey.settings.validating') : t('apiKey.settings.save')}
+                    </button>
+                </form>
+
+                {error && <ErrorMessage message={error} />}
+
+                {hasEnvKey && <p className="text-xs text-gray-400">{t('apiKey.settings.envNote')}</p>}
+
+                <div className="flex justify-between gap-2">
+                    {storedKey ? (
+                        <button onClick={removeStoredApiKey} className={`${buttonClasses} bg-red-900/60 text-red-200 hover:bg-red-800/60`}>
+                            {t('apiKey.settings.remove')}
+                        </button>
+                    ) : <span />}
+                    <button onClick={closeSettings} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+                        {t('apiKey.settings.close')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { listAssets, deleteAsset, Asset, AssetKind, AssetSource } from '../services/assetStore';
+import { decodeAudioData } from '../utils/audioUtils';
+import { Loader } from './Loader';
+import { ErrorMessage } from './ErrorMessage';
+import { SpeakerIcon, StopIcon, TrashIcon } from './icons';
+import { useLanguage } from '../contexts/LanguageContext';
+
+const KIND_FILTERS: (AssetKind | 'all')[] = ['all', 'image', 'video', 'story', 'audio', 'ideas'];
+const SOURCE_FILTERS: (AssetSource | 'all')[] = ['all', 'story', 'storyboard', 'idea', 'image', 'video'];
+
+export const AssetLibrary: React.FC = () => {
+    const { t, language } = useLanguage();
+    const [assets, setAssets] = useState<Asset[]>([]);
+    const [objectUrls, setObjectUrls] = useState<Record<string, string>>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [search, setSearch] = useState('');
+    const [kindFilter, setKindFilter] = useState<AssetKind | 'all'>('all');
+    const [sourceFilter, setSourceFilter] = useState<AssetSource | 'all'>('all');
+
+    const audioContextRef = useRef<AudioContext | null>(null);
+    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    const [playingId, setPlayingId] = useState<string | null>(null);
+
+    const loadAssets = useCallback(async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const result = await listAssets({
+                kind: kindFilter === 'all' ? undefined : kindFilter,
+                source: sourceFilter === 'all' ? undefined : sourceFilter,
+                search,
+            });
+            setAssets(result);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`${t('library.error.loadFail')} ${errorMessage}`);
+            console.error(err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [kindFilter, sourceFilter, search, t]);
+
+    useEffect(() => {
+        const timeout = window.setTimeout(loadAssets, 200);
+        return () => window.clearTimeout(timeout);
+    }, [loadAssets]);
+
+    useEffect(() => {
+        const urls: Record<string, string> = {};
+        assets.forEach(asset => {
+            if (asset.kind === 'image' || asset.kind === 'video') {
+                urls[asset.id] = URL.createObjectURL(asset.blob);
+            }
+        });
+        setObjectUrls(urls);
+        return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+    }, [assets]);
+
+    useEffect(() => {
+        return () => {
+            audioSourceRef.current?.stop();
+            audioContextRef.current?.close();
+        };
+    }, []);
+
+    const handleDelete = async (id: string) => {
+        if (!window.confirm(t('library.confirmDelete'))) return;
+        try {
+            await deleteAsset(id);
+            setAssets(prev => prev.filter(asset => asset.id !== id));
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`${t('library.error.deleteFail')} ${errorMessage}`);
+        }
+    };
+
+    const handlePlayAudio = async (asset: Asset) => {
+        if (asset.kind !== 'audio') return;
+        audioSourceRef.current?.stop();
+        if (playingId === asset.id) {
+            setPlayingId(null);
+            return;
+        }
+
+        try {
+            if (!audioContextRef.current) {
+                const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+                audioContextRef.current = new AudioContext({ sampleRate: asset.sampleRate });
+            }
+            const context = audioContextRef.current;
+            const data = new Uint8Array(await asset.blob.arrayBuffer());
+            const audioBuffer = await decodeAudioData(data, context, asset.sampleRate, 1);
+            const source = context.createBufferSource();
+            source.buffer = audioBuffer;
+            source.connect(context.destination);
+            source.onended = () => setPlayingId(current => (current === asset.id ? null : current));
+            source.start();
+            audioSourceRef.current = source;
+            setPlayingId(asset.id);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`${t('story.error.audioFail')} ${errorMessage}`);
+        }
+    };
+
+    const renderPreview = (asset: Asset) => {
+        switch (asset.kind) {
+            case 'image':
+                return <img src={objectUrls[asset.id]} alt={asset.prompt ?? ''} className="w-full h-full object-cover" />;
+            case 'video':
+                return <video src={objectUrls[asset.id]} controls muted loop className="w-full h-full object-contain" />;
+            case 'story':
+                return <p className="text-sm text-gray-300 p-3 overflow-hidden line-clamp-6">{asset.text}</p>;
+            case 'ideas':
+                return (
+                    <ul className="text-xs text-gray-300 p-3 list-disc list-inside space-y-1 overflow-hidden">
+                        {asset.ideas.map((idea, index) => <li key={index} className="truncate">{idea}</li>)}
+                    </ul>
+                );
+            case 'audio':
+                return (
+                    <div className="flex flex-col items-center justify-center gap-2 h-full p-3">
+                        <button
+                            onClick={() => handlePlayAudio(asset)}
+                            className="flex items-center justify-center w-12 h-12 rounded-full bg-indigo-600 text-white hover:bg-indigo-500 transition-colors"
+                            aria-label={playingId === asset.id ? t('story.aria.stop') : t('story.aria.read')}
+                        >
+                            {playingId === asset.id ? <StopIcon className="w-5 h-5" /> : <SpeakerIcon className="w-5 h-5" />}
+                        </button>
+                        {asset.text && <p className="text-xs text-gray-400 line-clamp-2 text-center">{asset.text}</p>}
+                    </div>
+                );
+        }
+    };
+
+    const filterButtonClasses = (isActive: boolean) =>
+        `py-1 px-3 text-sm rounded-lg border-2 transition-colors ${isActive ? 'bg-emerald-500 border-emerald-500 text-white font-semibold' : 'bg-gray-700 border-gray-600 hover:border-gray-500'}`;
+
+    return (
+        <div className="bg-gray-800/50 rounded-2xl p-6 shadow-2xl border border-gray-700 backdrop-blur-sm flex flex-col gap-6">
+            <div className="text-center">
+                <h2 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-emerald-400 to-teal-500">
+                    {t('library.title')}
+                </h2>
+                <p className="mt-2 text-gray-400">{t('library.description')}</p>
+            </div>
+
+            <div className="flex flex-col gap-3">
+                <input
+                    type="search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder={t('library.placeholder.search')}
+                    className="w-full p-3 bg-gray-900/70 border border-gray-600 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-gray-400 w-20">{t('library.label.kind')}</span>
+                    {KIND_FILTERS.map(kind => (
+                        <button key={kind} onClick={() => setKindFilter(kind)} className={filterButtonClasses(kindFilter === kind)}>
+                            {t(`library.kind.${kind}`)}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-gray-400 w-20">{t('library.label.source')}</span>
+                    {SOURCE_FILTERS.map(source => (
+                        <button key={source} onClick={() => setSourceFilter(source)} className={filterButtonClasses(sourceFilter === source)}>
+                            {source === 'all' ? t('library.kind.all') : t(`tab.${source}`)}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {error && <ErrorMessage message={error} />}
+
+            {isLoading ? (
+                <div className="flex justify-center py-10"><Loader /></div>
+            ) : assets.length === 0 ? (
+                <div className="text-center text-gray-500 py-10">
+                    <p>{t('library.empty')}</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {assets.map(asset => (
+                        <div key={asset.id} className="bg-gray-900/70 rounded-lg border border-gray-700 flex flex-col overflow-hidden">
+                            <div className="aspect-video bg-gray-950 flex items-center justify-center overflow-hidden">
+                                {renderPreview(asset)}
+                            </div>
+                            <div className="p-3 flex flex-col gap-1 text-xs text-gray-400">
+                                <div className="flex justify-between items-center">
+                                    <span className="font-semibold text-emerald-400 uppercase tracking-wide">{t(`library.kind.${asset.kind}`)}</span>
+                                    <button
+                                        onClick={() => handleDelete(asset.id)}
+                                        className="text-gray-500 hover:text-red-400 transition-colors"
+                                        title={t('library.button.delete')}
+                                        aria-label={t('library.button.delete')}
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                                {asset.prompt && <p className="text-gray-300 line-clamp-2" title={asset.prompt}>{asset.prompt}</p>}
+                                <p>{t(`tab.${asset.source}`)} · {new Date(asset.createdAt).toLocaleString(language)}</p>
+                                {(asset.model || asset.aspectRatio) && (
+                                    <p className="text-gray-500">{[asset.model, asset.aspectRatio].filter(Boolean).join(' · ')}</p>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
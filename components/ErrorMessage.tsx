@@ -1,26 +1,98 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { AppError, SafetyError } from '../services/errors';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useUsage } from '../contexts/UsageContext';
 
 interface ErrorMessageProps {
-  message: string;
-  allowHtml?: boolean;
+  /** A plain message, or a classified error shown with its localized explanation and suggested actions. */
+  message: string | AppError;
+  /** Shown as a button when the error suggests trying again. */
+  onRetry?: () => void;
+  /** Shown as a button when the error suggests choosing another API key. */
+  onSelectKey?: () => void;
+  /** Shown as a button when a safety filter blocked the prompt; resolves once the prompt is rewritten. */
+  onRephrase?: () => Promise<void>;
 }
 
-export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, allowHtml = false }) => {
+const BILLING_URL = 'https://ai.google.dev/gemini-api/docs/billing';
+const RATE_LIMITS_URL = 'https://ai.google.dev/gemini-api/docs/rate-limits';
+
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry, onSelectKey, onRephrase }) => {
   const { t } = useLanguage();
+  const { openUsage } = useUsage();
+  const [isRephrasing, setIsRephrasing] = useState(false);
   if (!message) return null;
 
+  const handleRephrase = async () => {
+    if (!onRephrase) return;
+    setIsRephrasing(true);
+    try {
+      await onRephrase();
+    } finally {
+      setIsRephrasing(false);
+    }
+  };
+
+  if (message instanceof AppError) {
+    const { kind } = message;
+    const actionClasses = "text-xs font-semibold py-1 px-3 rounded-lg bg-red-800/60 text-red-100 hover:bg-red-700/60 transition-colors";
+    const actions = message.actions.map(action => {
+      switch (action) {
+        case 'retry':
+          return onRetry && <button key={action} onClick={onRetry} className={actionClasses}>{t('errors.action.retry')}</button>;
+        case 'selectKey':
+          return onSelectKey && <button key={action} onClick={onSelectKey} className={actionClasses}>{t('errors.action.selectKey')}</button>;
+        case 'openBilling':
+          return <a key={action} href={BILLING_URL} target="_blank" rel="noopener noreferrer" className={actionClasses}>{t('errors.action.openBilling')}</a>;
+        case 'openRateLimits':
+          return <a key={action} href={RATE_LIMITS_URL} target="_blank" rel="noopener noreferrer" className={actionClasses}>{t('errors.action.openRateLimits')}</a>;
+        case 'rephrase':
+          return onRephrase && (
+            <button key={action} onClick={handleRephrase} disabled={isRephrasing} className={`${actionClasses} disabled:opacity-50 disabled:cursor-not-allowed`}>
+              {isRephrasing ? t('errors.action.rephrasing') : t('errors.action.rephrase')}
+            </button>
+          );
+        case 'openUsage':
+          return <button key={action} onClick={() => openUsage()} className={actionClasses}>{t('errors.action.openUsage')}</button>;
+      }
+    }).filter(Boolean);
+    const categories = message instanceof SafetyError ? message.categories : [];
+
+    return (
+      <div
+        className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg relative flex flex-col gap-2"
+        role="alert"
+      >
+        <p>
+          <strong className="font-bold">{t(`errors.${kind}.title`)} </strong>
+          <span>{kind === 'unknown' ? message.message : t(`errors.${kind}.message`)}</span>
+        </p>
+        {categories.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 text-xs">
+            <span>{t('errors.safety.categories')}</span>
+            {categories.map(category => (
+              <span key={category} className="bg-red-800/60 text-red-100 px-2 py-0.5 rounded-full">{t(`safety.category.${category}`)}</span>
+            ))}
+          </div>
+        )}
+        {actions.length > 0 && <div className="flex flex-wrap gap-2">{actions}</div>}
+        {kind !== 'unknown' && message.message && (
+          <details className="text-xs text-red-300/70">
+            <summary className="cursor-pointer">{t('errors.details')}</summary>
+            <p className="mt-1 break-words">{message.message}</p>
+          </details>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div
       className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg relative"
       role="alert"
     >
       <strong className="font-bold">{t('error.prefix')} </strong>
-      {allowHtml ? (
-        <span className="block sm:inline" dangerouslySetInnerHTML={{ __html: message }} />
-      ) : (
-        <span className="block sm:inline">{message}</span>
-      )}
+      <span className="block sm:inline">{message}</span>
     </div>
   );
 };
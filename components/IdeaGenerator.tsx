@@ -1,190 +1,201 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { generateIdeas, generateImageFromPrompt, generateVideo } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { generateIdeas, generateImageFromPrompt, generateVideo, getModelName, Idea, IdeaMedium, IdeaMood } from '../services/geminiService';
+import { IDEA_MEDIUMS, IDEA_MOODS, DEFAULT_IDEA_COUNT, MAX_IDEA_COUNT } from '../services/ideaSettings';
+import { saveAsset } from '../services/assetStore';
+import { BatchItemStatus, BatchRunner, BatchSnapshot, createBatchRunner } from '../services/batchRunner';
+import { AppError, toAppError } from '../services/errors';
 import { Loader } from './Loader';
 import { ErrorMessage } from './ErrorMessage';
-import { MagicIcon, ImageIcon, VideoIcon, InfoIcon } from './icons';
+import { ApiKeyRequired } from './ApiKeyRequired';
+import { PromptTemplatePanel } from './PromptTemplatePanel';
+import { MagicIcon, ImageIcon, VideoIcon } from './icons';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { useUsage } from '../contexts/UsageContext';
+import { SendHandoff } from '../services/handoff';
+
+type BatchType = 'images' | 'videos';
+
+const MAX_BATCH_CONCURRENCY = 4;
+const VIDEO_DURATION_SECONDS = 8;
+
+const BATCH_STATUS_CLASSES: Record<BatchItemStatus, string> = {
+    queued: 'bg-gray-800 text-gray-400',
+    running: 'bg-blue-900/50 text-blue-300',
+    failed: 'bg-red-900/50 text-red-300',
+    done: 'bg-green-900/50 text-green-300',
+};
 
 interface IdeaGeneratorProps {
-    sendPromptToImageGenerator: (prompt: string) => void;
-    sendPromptToVideoCreator: (prompt: string) => void;
+    sendTo: SendHandoff;
 }
 
-export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ sendPromptToImageGenerator, sendPromptToVideoCreator }) => {
+export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ sendTo }) => {
     const { t } = useLanguage();
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState('');
-    const [ideas, setIdeas] = useState<string[]>([]);
+    const [error, setError] = useState<string | AppError>('');
+    const [ideas, setIdeas] = useState<Idea[]>([]);
+    const [theme, setTheme] = useState('');
+    const [count, setCount] = useState(DEFAULT_IDEA_COUNT);
+    const [medium, setMedium] = useState<IdeaMedium>('image');
+    const [mood, setMood] = useState<IdeaMood | ''>('');
+    /** The idea the current list riffs on, after "more like this". */
+    const [similarTo, setSimilarTo] = useState<Idea | null>(null);
 
-    const [isKeyReady, setIsKeyReady] = useState(false);
-    const [isCheckingKey, setIsCheckingKey] = useState(true);
+    const { status: keyStatus, chooseKey, reportKeyError } = useApiKey();
+    const { confirmVideoBudget } = useUsage();
 
     const [generatedContent, setGeneratedContent] = useState<Record<string, { image?: string; video?: string }>>({});
     const [generatingState, setGeneratingState] = useState<Record<string, { image?: boolean; video?: boolean }>>({});
-    const [batchJob, setBatchJob] = useState<{ type: 'images' | 'videos', progress: number, total: number } | null>(null);
-
-    const checkKey = useCallback(async () => {
-        if (window.aistudio) {
-            setIsCheckingKey(true);
-            try {
-                const keyExists = await window.aistudio.hasSelectedApiKey();
-                setIsKeyReady(keyExists);
-            } catch (e) {
-                console.error("Error checking for API key:", e);
-                setIsKeyReady(false);
-            } finally {
-                setIsCheckingKey(false);
-            }
-        } else {
-            setTimeout(checkKey, 100);
+    const [batchJob, setBatchJob] = useState<{ type: BatchType, snapshot: BatchSnapshot } | null>(null);
+    const [concurrency, setConcurrency] = useState(2);
+    const batchRunnerRef = useRef<BatchRunner | null>(null);
+    const isBatchRunning = batchJob?.snapshot.isRunning ?? false;
+
+    useEffect(() => () => batchRunnerRef.current?.cancel(), []);
+
+    const showError = (err: unknown) => {
+        const appError = toAppError(err);
+        setError(appError);
+        reportKeyError(appError);
+    };
+
+    const inputClasses = "w-full p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-pink-500 focus:outline-none transition disabled:opacity-50";
+    const labelClasses = "block text-xs font-medium text-gray-400 mb-1";
+
+    const saveGeneratedMedia = async (kind: 'image' | 'video', idea: Idea, url: string) => {
+        try {
+            const blob = await (await fetch(url)).blob();
+            const aspectRatio = kind === 'image' ? idea.aspectRatio : '16:9';
+            await saveAsset({ kind, source: 'idea', blob, prompt: idea.prompt, aspectRatio, model: getModelName(kind) });
+        } catch (e) {
+            console.error(`Failed to save ${kind} to the asset library`, e);
         }
-    }, []);
-
-    useEffect(() => {
-        checkKey();
-    }, [checkKey]);
-    
-    const handleSelectKey = async () => {
-        await window.aistudio.openSelectKey();
-        setIsKeyReady(true);
-        setError('');
     };
 
-    const handleGenerate = async () => {
+    const handleGenerate = async (seedIdea: Idea | null = null) => {
         setIsLoading(true);
+        setSimilarTo(seedIdea);
         setError('');
         setIdeas([]);
         setGeneratedContent({});
         setGeneratingState({});
+        batchRunnerRef.current = null;
         setBatchJob(null);
         try {
-            const generatedIdeas = await generateIdeas();
+            const generatedIdeas = await generateIdeas({
+                theme: theme.trim() || undefined,
+                count,
+                medium,
+                mood: mood || undefined,
+                similarTo: seedIdea ?? undefined,
+            });
             setIdeas(generatedIdeas);
+            saveAsset({ kind: 'ideas', source: 'idea', ideas: generatedIdeas.map(idea => idea.prompt), details: generatedIdeas, prompt: theme.trim() || undefined, model: getModelName('text') })
+                .catch(e => console.error("Failed to save ideas to the asset library", e));
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            setError(`${t('idea.error.apiFail')} ${errorMessage}`);
+            showError(err);
         } finally {
             setIsLoading(false);
         }
     };
 
-    const handleGenerateSingleImage = async (idea: string) => {
-        if (!isKeyReady) {
-            setError(t('idea.error.apiKey'));
-            return;
-        }
-        setError('');
-        setGeneratingState(prev => ({ ...prev, [idea]: { ...prev[idea], image: true } }));
+    const handleAddTemplateIdea = (prompt: string) => {
+        const idea: Idea = { title: '', prompt, aspectRatio: '16:9', tags: [] };
+        setIdeas(prev => [idea, ...prev.filter(existing => existing.prompt !== prompt)]);
+    };
 
+    /** Generates and saves one idea's image; shared by the single and batch actions. */
+    const runImageTask = async (idea: Idea) => {
+        const key = idea.prompt;
+        setGeneratingState(prev => ({ ...prev, [key]: { ...prev[key], image: true } }));
         try {
-            const imageUrl = await generateImageFromPrompt(idea, '16:9');
-            setGeneratedContent(prev => ({ ...prev, [idea]: { ...prev[idea], image: imageUrl } }));
+            const [{ dataUrl: imageUrl }] = await generateImageFromPrompt(idea.prompt, idea.aspectRatio);
+            setGeneratedContent(prev => ({ ...prev, [key]: { ...prev[key], image: imageUrl } }));
+            await saveGeneratedMedia('image', idea, imageUrl);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            console.error(`Failed to generate image for prompt: "${idea}"`, err);
-            setError(`${t('image.error.apiFail')} ${errorMessage}`);
+            console.error(`Failed to generate image for prompt: "${key}"`, err);
+            throw err;
         } finally {
-            setGeneratingState(prev => ({ ...prev, [idea]: { ...prev[idea], image: false } }));
+            setGeneratingState(prev => ({ ...prev, [key]: { ...prev[key], image: false } }));
         }
     };
 
-    const handleGenerateSingleVideo = async (idea: string) => {
-         if (!isKeyReady) {
-            setError(t('idea.error.apiKey'));
-            return;
+    /** Generates and saves one idea's video; shared by the single and batch actions. */
+    const runVideoTask = async (idea: Idea) => {
+        const key = idea.prompt;
+        setGeneratingState(prev => ({ ...prev, [key]: { ...prev[key], video: true } }));
+        try {
+            const videoUrl = await generateVideo(idea.prompt, '16:9', VIDEO_DURATION_SECONDS, true);
+            setGeneratedContent(prev => ({ ...prev, [key]: { ...prev[key], video: videoUrl } }));
+            await saveGeneratedMedia('video', idea, videoUrl);
+        } catch (err) {
+            console.error(`Failed to generate video for prompt: "${key}"`, err);
+            throw err;
+        } finally {
+            setGeneratingState(prev => ({ ...prev, [key]: { ...prev[key], video: false } }));
         }
-        setError('');
-        setGeneratingState(prev => ({ ...prev, [idea]: { ...prev[idea], video: true } }));
+    };
 
+    const handleGenerateSingleImage = async (idea: Idea) => {
+        setError('');
         try {
-            const videoUrl = await generateVideo(idea, '16:9', 8, true);
-            setGeneratedContent(prev => ({ ...prev, [idea]: { ...prev[idea], video: videoUrl } }));
+            await runImageTask(idea);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            console.error(`Failed to generate video for prompt: "${idea}"`, err);
-            setError(`${t('video.error.apiFail')} ${errorMessage}`);
-        } finally {
-            setGeneratingState(prev => ({ ...prev, [idea]: { ...prev[idea], video: false } }));
+            showError(err);
         }
     };
 
+    const handleGenerateSingleVideo = async (idea: Idea) => {
+        if (!confirmVideoBudget(VIDEO_DURATION_SECONDS)) return;
+        setError('');
+        try {
+            await runVideoTask(idea);
+        } catch (err) {
+            showError(err);
+        }
+    };
 
-    const handleGenerateAllImages = async () => {
-        if (!isKeyReady) {
-            setError(t('idea.error.apiKey'));
-            return;
+    /** Waits for a batch run and clears the progress UI unless some items failed. */
+    const finishBatch = async (runner: BatchRunner, run: Promise<BatchSnapshot>) => {
+        const snapshot = await run;
+        if (batchRunnerRef.current !== runner) return;
+        if (snapshot.isCancelled || snapshot.items.every(item => item.status === 'done')) {
+            batchRunnerRef.current = null;
+            setBatchJob(null);
         }
+    };
+
+    const startBatch = (type: BatchType) => {
+        const ideasByKey = new Map<string, Idea>(ideas.map(idea => [idea.prompt, idea]));
+        if (type === 'videos' && !confirmVideoBudget(VIDEO_DURATION_SECONDS * ideasByKey.size)) return;
         setError('');
-        setBatchJob({ type: 'images', progress: 0, total: ideas.length });
-        
-        setGeneratingState(ideas.reduce((acc, idea) => ({ ...acc, [idea]: { ...generatingState[idea], image: true } }), {}));
-
-        const imagePromises = ideas.map(idea => 
-            generateImageFromPrompt(idea, '16:9').then(imageUrl => {
-                setGeneratedContent(prev => ({ ...prev, [idea]: { ...prev[idea], image: imageUrl } }));
-            }).catch(err => {
-                console.error(`Failed to generate image for prompt: "${idea}"`, err);
-            }).finally(() => {
-                setBatchJob(prev => prev ? { ...prev, progress: prev.progress + 1 } : null);
-                setGeneratingState(prev => ({ ...prev, [idea]: { ...prev[idea], image: false } }));
-            })
+        batchRunnerRef.current?.cancel();
+
+        const task = type === 'images' ? runImageTask : runVideoTask;
+        const runner = createBatchRunner(
+            Array.from(ideasByKey.keys()),
+            key => task(ideasByKey.get(key)!),
+            { concurrency, onChange: snapshot => setBatchJob({ type, snapshot }) },
         );
-        
-        await Promise.all(imagePromises);
-        
-        setBatchJob(null);
+        batchRunnerRef.current = runner;
+        finishBatch(runner, runner.run());
     };
 
-    const handleGenerateAllVideos = async () => {
-        if (!isKeyReady) {
-            setError(t('idea.error.apiKey'));
-            return;
-        }
+    const handleRetryFailed = () => {
+        const runner = batchRunnerRef.current;
+        if (!runner) return;
         setError('');
-        setBatchJob({ type: 'videos', progress: 0, total: ideas.length });
-        
-        let currentProgress = 0;
-
-        for (const idea of ideas) {
-            setGeneratingState(prev => ({ ...prev, [idea]: { ...prev[idea], video: true } }));
-            try {
-                const videoUrl = await generateVideo(idea, '16:9', 8, true);
-                setGeneratedContent(prev => ({ ...prev, [idea]: { ...prev[idea], video: videoUrl } }));
-            } catch (err) {
-                 const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-                console.error(`Failed to generate video for prompt: "${idea}"`, err);
-                setError(`${t('video.error.apiFail')} ${errorMessage}`);
-                break; 
-            } finally {
-                currentProgress++;
-                setBatchJob(prev => prev ? { ...prev, progress: currentProgress } : null);
-                setGeneratingState(prev => ({ ...prev, [idea]: { ...prev[idea], video: false } }));
-            }
-        }
-        
+        finishBatch(runner, runner.retryFailed());
+    };
+
+    const handleDismissBatch = () => {
+        batchRunnerRef.current = null;
         setBatchJob(null);
     };
-    
-    if (isCheckingKey) {
-        return (
-            <div className="flex justify-center items-center p-8 bg-gray-800/50 rounded-2xl">
-                <Loader />
-                <p className="ml-4 text-gray-400">{t('idea.apiKey.checking')}</p>
-            </div>
-        )
-    }
 
-    if (!isKeyReady) {
-        return (
-             <div className="bg-yellow-900/30 border border-yellow-700 text-yellow-200 px-6 py-5 rounded-2xl relative text-center">
-                <InfoIcon className="w-8 h-8 mx-auto mb-3 text-yellow-400" />
-                <h3 className="font-bold text-xl mb-2 text-white">{t('idea.apiKey.required.title')}</h3>
-                <p className="text-yellow-300/80 mb-4">{t('idea.apiKey.required.description')}</p>
-                <button onClick={handleSelectKey} className="bg-yellow-500 text-yellow-950 font-bold py-2 px-5 rounded-lg hover:bg-yellow-400 transition-colors">
-                    {t('idea.apiKey.required.button')}
-                </button>
-            </div>
-        );
+    if (keyStatus !== 'ready') {
+        return <ApiKeyRequired area="idea" />;
     }
 
 
@@ -197,60 +208,182 @@ export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ sendPromptToImageG
                 <p className="mt-2 text-gray-400">{t('idea.description')}</p>
             </div>
             
+            <div className="w-full max-w-xl mx-auto bg-gray-900/70 p-4 rounded-lg border border-gray-700 grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div className="col-span-2 sm:col-span-4">
+                    <label htmlFor="idea-theme" className={labelClasses}>{t('idea.label.theme')}</label>
+                    <input
+                        id="idea-theme"
+                        type="text"
+                        value={theme}
+                        disabled={isLoading}
+                        onChange={(e) => setTheme(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && !isLoading && !isBatchRunning && handleGenerate()}
+                        placeholder={t('idea.placeholder.theme')}
+                        className={inputClasses}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="idea-medium" className={labelClasses}>{t('idea.label.medium')}</label>
+                    <select id="idea-medium" value={medium} disabled={isLoading} onChange={(e) => setMedium(e.target.value as IdeaMedium)} className={inputClasses}>
+                        {IDEA_MEDIUMS.map(option => <option key={option} value={option}>{t(`idea.medium.${option}`)}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="idea-mood" className={labelClasses}>{t('idea.label.mood')}</label>
+                    <select id="idea-mood" value={mood} disabled={isLoading} onChange={(e) => setMood(e.target.value as IdeaMood | '')} className={inputClasses}>
+                        <option value="">{t('idea.mood.any')}</option>
+                        {IDEA_MOODS.map(option => <option key={option} value={option}>{t(`idea.mood.${option}`)}</option>)}
+                    </select>
+                </div>
+                <div className="col-span-2">
+                    <label htmlFor="idea-count" className={labelClasses}>{t('idea.label.count')}: {count}</label>
+                    <input
+                        id="idea-count"
+                        type="range"
+                        min={1}
+                        max={MAX_IDEA_COUNT}
+                        value={count}
+                        disabled={isLoading}
+                        onChange={(e) => setCount(Number(e.target.value))}
+                        className="w-full accent-pink-500"
+                    />
+                </div>
+            </div>
+
             <button
-                onClick={handleGenerate}
-                disabled={isLoading || !!batchJob}
+                onClick={() => handleGenerate()}
+                disabled={isLoading || isBatchRunning}
                 className="w-full max-w-sm mx-auto bg-pink-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-pink-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-300 ease-in-out flex items-center justify-center gap-2 shadow-lg"
             >
                 {isLoading ? <Loader /> : <MagicIcon className="w-5 h-5" />}
                 {isLoading ? t('idea.button.generating') : t('idea.button.generate')}
             </button>
 
-            {error && <ErrorMessage message={error} />}
+            <div className="w-full max-w-xl mx-auto">
+                <PromptTemplatePanel onApply={handleAddTemplateIdea} accent="pink" disabled={isLoading || isBatchRunning} />
+            </div>
+
+            {similarTo && (
+                <p className="text-center text-sm text-gray-400">
+                    {t('idea.similarTo')} <span className="text-pink-300">{similarTo.title || similarTo.prompt}</span>
+                </p>
+            )}
+
+            {error && <ErrorMessage message={error} onSelectKey={chooseKey} />}
 
             <div className="mt-4">
                 {ideas.length > 0 && (
                     <div className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 flex flex-col sm:flex-row justify-center items-center gap-4 mb-6">
-                        <button onClick={handleGenerateAllImages} disabled={!!batchJob} className="bg-amber-600 hover:bg-amber-500 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 transition-colors text-sm disabled:bg-gray-500 disabled:cursor-not-allowed">
+                        <button onClick={() => startBatch('images')} disabled={isBatchRunning} className="bg-amber-600 hover:bg-amber-500 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 transition-colors text-sm disabled:bg-gray-500 disabled:cursor-not-allowed">
                             <ImageIcon className="w-4 h-4" />
                             <span>{t('idea.button.generateAllImages')}</span>
                         </button>
-                        <button onClick={handleGenerateAllVideos} disabled={!!batchJob} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 transition-colors text-sm disabled:bg-gray-500 disabled:cursor-not-allowed">
+                        <button onClick={() => startBatch('videos')} disabled={isBatchRunning} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 transition-colors text-sm disabled:bg-gray-500 disabled:cursor-not-allowed">
                             <VideoIcon className="w-4 h-4" />
                             <span>{t('idea.button.generateAllVideos')}</span>
                         </button>
+                        <label className="flex items-center gap-2 text-sm text-gray-400">
+                            {t('idea.label.concurrency')}
+                            <select
+                                value={concurrency}
+                                disabled={isBatchRunning}
+                                onChange={(e) => setConcurrency(Number(e.target.value))}
+                                className="p-1 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-pink-500 focus:outline-none transition disabled:opacity-50"
+                            >
+                                {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(value => (
+                                    <option key={value} value={value}>{value}</option>
+                                ))}
+                            </select>
+                        </label>
                     </div>
                 )}
 
-                 {batchJob && (
-                    <div className="mb-6 px-4">
-                        <p className="text-center text-gray-300 mb-2">
-                           {batchJob.type === 'images' ? t('idea.generatingAllImages') : t('idea.generatingAllVideos')} 
-                           ({batchJob.progress} / {batchJob.total})
-                        </p>
-                        <div className="w-full bg-gray-700 rounded-full h-2.5">
-                            <div className="bg-pink-600 h-2.5 rounded-full transition-all duration-500" style={{ width: `${(batchJob.progress / batchJob.total) * 100}%` }}></div>
+                 {batchJob && (() => {
+                    const { items, isRunning, isPaused } = batchJob.snapshot;
+                    const progress = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+                    const failed = items.filter(item => item.status === 'failed').length;
+                    const controlClasses = "text-sm py-1.5 px-3 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors";
+                    return (
+                        <div className="mb-6 px-4">
+                            <p className="text-center text-gray-300 mb-2">
+                               {batchJob.type === 'images' ? t('idea.generatingAllImages') : t('idea.generatingAllVideos')}{' '}
+                               ({progress} / {items.length})
+                               {isPaused && <span className="ml-2 text-yellow-300">{t('idea.batch.paused')}</span>}
+                               {failed > 0 && <span className="ml-2 text-red-400">{failed} {t('idea.batch.failedCount')}</span>}
+                            </p>
+                            <div className="w-full bg-gray-700 rounded-full h-2.5">
+                                <div className="bg-pink-600 h-2.5 rounded-full transition-all duration-500" style={{ width: `${(progress / items.length) * 100}%` }}></div>
+                            </div>
+                            <div className="flex justify-center gap-2 mt-3">
+                                {isRunning ? (
+                                    <>
+                                        <button onClick={() => isPaused ? batchRunnerRef.current?.resume() : batchRunnerRef.current?.pause()} className={controlClasses}>
+                                            {isPaused ? t('idea.batch.resume') : t('idea.batch.pause')}
+                                        </button>
+                                        <button onClick={() => batchRunnerRef.current?.cancel()} className={controlClasses}>
+                                            {t('idea.batch.cancel')}
+                                        </button>
+                                    </>
+                                ) : (
+                                    <>
+                                        {failed > 0 && (
+                                            <button onClick={handleRetryFailed} className="text-sm py-1.5 px-3 rounded-lg bg-pink-600 text-white hover:bg-pink-500 transition-colors">
+                                                {t('idea.batch.retryFailed')}
+                                            </button>
+                                        )}
+                                        <button onClick={handleDismissBatch} className={controlClasses}>
+                                            {t('idea.batch.dismiss')}
+                                        </button>
+                                    </>
+                                )}
+                            </div>
                         </div>
-                    </div>
-                )}
+                    );
+                })()}
 
 
                 {ideas.length > 0 ? (
                     <ul className="space-y-4">
                         {ideas.map((idea, index) => {
-                             const isImageLoading = generatingState[idea]?.image || (batchJob?.type === 'images' && !generatedContent[idea]?.image);
-                             const isVideoLoading = generatingState[idea]?.video || (batchJob?.type === 'videos' && !generatedContent[idea]?.video);
+                             const key = idea.prompt;
+                             const isImageLoading = generatingState[key]?.image;
+                             const isVideoLoading = generatingState[key]?.video;
+                             const batchItem = batchJob?.snapshot.items.find(item => item.id === key);
 
                             return (
-                                <li key={index} className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 flex flex-col gap-4 animate-fade-in">
+                                <li key={key} className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 flex flex-col gap-4 animate-fade-in">
                                    <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
-                                        <p className="text-gray-300 flex-grow">{idea}</p>
+                                        <div className="flex-grow flex flex-col gap-2">
+                                            {idea.title && <h3 className="font-semibold text-white">{idea.title}</h3>}
+                                            <p className="text-gray-300">{idea.prompt}</p>
+                                            <div className="flex flex-wrap items-center gap-2 text-xs">
+                                                <span className="px-2 py-0.5 rounded bg-gray-800 border border-gray-700 text-gray-400" title={t('idea.label.aspectRatio')}>{idea.aspectRatio}</span>
+                                                {idea.tags.map(tag => (
+                                                    <span key={tag} className="px-2 py-0.5 rounded-full bg-pink-900/40 text-pink-300">#{tag}</span>
+                                                ))}
+                                                <button
+                                                    onClick={() => handleGenerate(idea)}
+                                                    disabled={isLoading || isBatchRunning}
+                                                    className="text-pink-300 hover:text-pink-200 underline disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                                >
+                                                    {t('idea.button.moreLikeThis')}
+                                                </button>
+                                                {batchItem && (
+                                                    <span className={`px-2 py-0.5 rounded ${BATCH_STATUS_CLASSES[batchItem.status]}`}>
+                                                        {t(`idea.batch.status.${batchItem.status}`)}
+                                                    </span>
+                                                )}
+                                            </div>
+                                            {batchItem?.status === 'failed' && batchItem.error && (
+                                                <p className="text-xs text-red-400">{batchItem.error}</p>
+                                            )}
+                                        </div>
                                         <div className="flex gap-2 flex-shrink-0">
-                                            <button onClick={() => sendPromptToImageGenerator(idea)} className="bg-amber-600 hover:bg-amber-500 text-white font-bold py-2 px-3 rounded-lg flex items-center gap-2 transition-colors text-sm" title={t('idea.button.sendToImage')}>
+                                            <button onClick={() => sendTo('image', { kind: 'prompt', prompt: idea.prompt })} className="bg-amber-600 hover:bg-amber-500 text-white font-bold py-2 px-3 rounded-lg flex items-center gap-2 transition-colors text-sm" title={t('idea.button.sendToImage')}>
                                                 <ImageIcon className="w-4 h-4" />
                                                 <span className="hidden md:inline">{t('idea.button.sendToImage')}</span>
                                             </button>
-                                            <button onClick={() => sendPromptToVideoCreator(idea)} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-3 rounded-lg flex items-center gap-2 transition-colors text-sm" title={t('idea.button.sendToVideo')}>
+                                            <button onClick={() => sendTo('video', { kind: 'prompt', prompt: idea.prompt })} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-3 rounded-lg flex items-center gap-2 transition-colors text-sm" title={t('idea.button.sendToVideo')}>
                                                 <VideoIcon className="w-4 h-4" />
                                                 <span className="hidden md:inline">{t('idea.button.sendToVideo')}</span>
                                             </button>
@@ -259,12 +392,12 @@ export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ sendPromptToImageG
                                    <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
                                         <div className="aspect-video bg-gray-950 rounded-lg flex items-center justify-center relative border border-gray-800">
                                             {isImageLoading ? <Loader /> :
-                                             generatedContent[idea]?.image ? (
-                                                <img src={generatedContent[idea]!.image} alt={`Generated image for: ${idea}`} className="w-full h-full object-contain rounded-lg" />
+                                             generatedContent[key]?.image ? (
+                                                <img src={generatedContent[key]!.image} alt={`Generated image for: ${idea.title || idea.prompt}`} className="w-full h-full object-contain rounded-lg" />
                                              ) : (
                                                 <button 
                                                     onClick={() => handleGenerateSingleImage(idea)}
-                                                    disabled={!!batchJob}
+                                                    disabled={isBatchRunning}
                                                     className="z-10 bg-amber-600 hover:bg-amber-500 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 transition-colors text-sm disabled:bg-gray-500 disabled:cursor-not-allowed"
                                                 >
                                                     <ImageIcon className="w-4 h-4" />
@@ -274,12 +407,12 @@ export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ sendPromptToImageG
                                         </div>
                                         <div className="aspect-video bg-gray-950 rounded-lg flex items-center justify-center relative border border-gray-800">
                                             {isVideoLoading ? <Loader /> :
-                                             generatedContent[idea]?.video ? (
-                                                <video src={generatedContent[idea]!.video} controls muted loop className="w-full h-full object-contain rounded-lg" />
+                                             generatedContent[key]?.video ? (
+                                                <video src={generatedContent[key]!.video} controls muted loop className="w-full h-full object-contain rounded-lg" />
                                              ) : (
                                                  <button 
                                                     onClick={() => handleGenerateSingleVideo(idea)}
-                                                    disabled={!!batchJob}
+                                                    disabled={isBatchRunning}
                                                     className="z-10 bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 transition-colors text-sm disabled:bg-gray-500 disabled:cursor-not-allowed"
                                                 >
                                                     <VideoIcon className="w-4 h-4" />
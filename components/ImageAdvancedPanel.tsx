@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+    IMAGE_MODEL_TIERS,
+    IMAGE_PERSON_GENERATION,
+    IMAGE_OUTPUT_MIME_TYPES,
+    ImageAdvancedSettings,
+} from '../services/imageSettings';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface ImageAdvancedPanelProps {
+    value: ImageAdvancedSettings;
+    onChange: (value: ImageAdvancedSettings) => void;
+    /** Whether the active provider honors seeds; otherwise the seed field is disabled. */
+    seedSupported: boolean;
+    /** Whether the active provider honors negative prompts; otherwise that field is disabled. */
+    negativePromptSupported: boolean;
+    disabled?: boolean;
+}
+
+const MAX_SEED = 2 ** 31 - 1;
+
+export const ImageAdvancedPanel: React.FC<ImageAdvancedPanelProps> = ({ value, onChange, seedSupported, negativePromptSupported, disabled }) => {
+    const { t } = useLanguage();
+    const [isOpen, setIsOpen] = useState(false);
+
+    const inputClasses = "w-full p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:outline-none transition disabled:opacity-50";
+    const labelClasses = "block text-xs font-medium text-gray-400 mb-1";
+
+    const handleSeedChange = (raw: string) => {
+        const seed = raw.trim() === '' ? null : Math.min(MAX_SEED, Math.max(0, Math.floor(Number(raw))));
+        onChange({ ...value, seed: seed === null || Number.isNaN(seed) ? null : seed });
+    };
+
+    return (
+        <div className="bg-gray-900/70 rounded-lg border border-gray-700">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="w-full flex items-center justify-between p-3 text-sm font-semibold text-gray-300 hover:text-white transition-colors"
+                aria-expanded={isOpen}
+            >
+                <span>{t('image.advanced.title')}</span>
+                <span className="text-gray-500">{isOpen ? '−' : '+'}</span>
+            </button>
+            {isOpen && (
+                <div className="px-4 pb-4 flex flex-col gap-3">
+                    <div>
+                        <label htmlFor="image-negative-prompt" className={labelClasses}>{t('image.advanced.negativePrompt')}</label>
+                        <input
+                            id="image-negative-prompt"
+                            type="text"
+                            value={value.negativePrompt}
+                            disabled={disabled || !negativePromptSupported}
+                            onChange={(e) => onChange({ ...value, negativePrompt: e.target.value })}
+                            placeholder={t('image.advanced.placeholder.negativePrompt')}
+                            className={inputClasses}
+                        />
+                        {!negativePromptSupported && <p className="text-xs text-gray-500 mt-1">{t('image.advanced.negativePromptUnsupported')}</p>}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label htmlFor="image-model-tier" className={labelClasses}>{t('image.advanced.model')}</label>
+                            <select
+                                id="image-model-tier"
+                                value={value.modelTier}
+                                disabled={disabled}
+                                onChange={(e) => onChange({ ...value, modelTier: e.target.value as ImageAdvancedSettings['modelTier'] })}
+                                className={inputClasses}
+                            >
+                                {IMAGE_MODEL_TIERS.map(tier => (
+                                    <option key={tier} value={tier}>{t(`image.advanced.model.${tier}`)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="image-output-mime" className={labelClasses}>{t('image.advanced.outputMimeType')}</label>
+                            <select
+                                id="image-output-mime"
+                                value={value.outputMimeType}
+                                disabled={disabled}
+                                onChange={(e) => onChange({ ...value, outputMimeType: e.target.value as ImageAdvancedSettings['outputMimeType'] })}
+                                className={inputClasses}
+                            >
+                                {IMAGE_OUTPUT_MIME_TYPES.map(mimeType => (
+                                    <option key={mimeType} value={mimeType}>{mimeType === 'image/png' ? 'PNG' : 'JPEG'}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="image-person-generation" className={labelClasses}>{t('image.advanced.personGeneration')}</label>
+                            <select
+                                id="image-person-generation"
+                                value={value.personGeneration}
+                                disabled={disabled}
+                                onChange={(e) => onChange({ ...value, personGeneration: e.target.value as ImageAdvancedSettings['personGeneration'] })}
+                                className={inputClasses}
+                            >
+                                {IMAGE_PERSON_GENERATION.map(option => (
+                                    <option key={option} value={option}>{t(`image.advanced.personGeneration.${option}`)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="image-seed" className={labelClasses}>{t('image.advanced.seed')}</label>
+                            <input
+                                id="image-seed"
+                                type="number"
+                                min={0}
+                                max={MAX_SEED}
+                                value={value.seed ?? ''}
+                                disabled={disabled || !seedSupported}
+                                onChange={(e) => handleSeedChange(e.target.value)}
+                                placeholder={t('image.advanced.placeholder.seed')}
+                                className={inputClasses}
+                            />
+                        </div>
+                    </div>
+                    {!seedSupported && <p className="text-xs text-gray-500">{t('image.advanced.seedUnsupported')}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
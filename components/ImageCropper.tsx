@@ -0,0 +1,137 @@
+import React, { useRef } from 'react';
+import { CropRect } from '../utils/imageIngest';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface ImageCropperProps {
+  imageUrl: string;
+  /** Natural size of the image after EXIF orientation. */
+  imageWidth: number;
+  imageHeight: number;
+  /** Width divided by height; the crop box keeps this ratio while resizing. */
+  aspectRatio: number;
+  crop: CropRect;
+  onChange: (crop: CropRect) => void;
+  disabled?: boolean;
+}
+
+type DragMode = 'move' | 'resize';
+
+const MIN_CROP_FRACTION = 0.1;
+const KEYBOARD_STEP_FRACTION = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const ImageCropper: React.FC<ImageCropperProps> = ({ imageUrl, imageWidth, imageHeight, aspectRatio, crop, onChange, disabled }) => {
+  const { t } = useLanguage();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; startX: number; startY: number; startCrop: CropRect } | null>(null);
+
+  const moveTo = (x: number, y: number) => {
+    onChange({
+      ...crop,
+      x: clamp(x, 0, imageWidth - crop.width),
+      y: clamp(y, 0, imageHeight - crop.height),
+    });
+  };
+
+  const resizeTo = (start: CropRect, width: number) => {
+    const maxWidth = Math.min(imageWidth - start.x, (imageHeight - start.y) * aspectRatio);
+    const minWidth = Math.min(maxWidth, Math.min(imageWidth, imageHeight * aspectRatio) * MIN_CROP_FRACTION);
+    const clampedWidth = clamp(width, minWidth, maxWidth);
+    onChange({ ...start, width: clampedWidth, height: clampedWidth / aspectRatio });
+  };
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    e.preventDefault();
+    e.stopPropagation();
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: crop };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const container = containerRef.current;
+    if (!drag || !container) return;
+    // Pointer deltas are in screen pixels; the crop is in image pixels.
+    const scale = imageWidth / container.getBoundingClientRect().width;
+    const dx = (e.clientX - drag.startX) * scale;
+    const dy = (e.clientY - drag.startY) * scale;
+    if (drag.mode === 'move') {
+      moveTo(drag.startCrop.x + dx, drag.startCrop.y + dy);
+    } else {
+      resizeTo(drag.startCrop, drag.startCrop.width + Math.max(dx, dy * aspectRatio));
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = imageWidth * KEYBOARD_STEP_FRACTION;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    if (e.key === '+' || e.key === '=') {
+      e.preventDefault();
+      resizeTo(crop, crop.width + step);
+    } else if (e.key === '-') {
+      e.preventDefault();
+      resizeTo(crop, crop.width - step);
+    } else if (moves[e.key]) {
+      e.preventDefault();
+      moveTo(crop.x + moves[e.key][0], crop.y + moves[e.key][1]);
+    }
+  };
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="w-full">
+      <div
+        ref={containerRef}
+        className="relative w-full overflow-hidden rounded-xl border border-gray-600 select-none touch-none"
+        style={{ aspectRatio: `${imageWidth} / ${imageHeight}` }}
+      >
+        <img src={imageUrl} alt={t('cropper.imageAlt')} className="absolute inset-0 h-full w-full" draggable={false} />
+        <div
+          tabIndex={disabled ? -1 : 0}
+          role="group"
+          aria-label={t('cropper.aria.crop')}
+          onPointerDown={startDrag('move')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+          onKeyDown={handleKeyDown}
+          className={`absolute border-2 border-cyan-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.6)] focus:outline-none focus:ring-2 focus:ring-cyan-300 ${disabled ? '' : 'cursor-move'}`}
+          style={{
+            left: percent(crop.x, imageWidth),
+            top: percent(crop.y, imageHeight),
+            width: percent(crop.width, imageWidth),
+            height: percent(crop.height, imageHeight),
+          }}
+        >
+          <div className="absolute inset-x-0 top-1/3 border-t border-cyan-400/40 pointer-events-none" />
+          <div className="absolute inset-x-0 top-2/3 border-t border-cyan-400/40 pointer-events-none" />
+          <div className="absolute inset-y-0 left-1/3 border-l border-cyan-400/40 pointer-events-none" />
+          <div className="absolute inset-y-0 left-2/3 border-l border-cyan-400/40 pointer-events-none" />
+          {!disabled && (
+            <div
+              onPointerDown={startDrag('resize')}
+              onPointerMove={handlePointerMove}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+              className="absolute -right-2 -bottom-2 w-4 h-4 rounded-full bg-cyan-400 border-2 border-gray-900 cursor-nwse-resize"
+              aria-hidden="true"
+            />
+          )}
+        </div>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">{t('cropper.hint')}</p>
+    </div>
+  );
+};
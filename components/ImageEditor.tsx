@@ -0,0 +1,343 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { editImage, getModelName, ImageEditMode, ImageEditRequest } from '../services/geminiService';
+import { saveAsset } from '../services/assetStore';
+import { AppError, toAppError } from '../services/errors';
+import { blobToBase64 } from '../utils/imageIngest';
+import { OutpaintPadding, extendImage, parseDataUrl, renderMask } from '../utils/imageEditing';
+import { Loader } from './Loader';
+import { ErrorMessage } from './ErrorMessage';
+import { MagicIcon, TrashIcon } from './icons';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface ImageEditorProps {
+    imageUrl: string;
+    /** The prompt the image was generated from, recorded with saved versions. */
+    prompt: string;
+    /** The image's aspect ratio, recorded with saved versions that keep its shape. */
+    aspectRatio?: string;
+    onClose: () => void;
+    /** Called after a version has been saved to the asset library. */
+    onSaved: () => void;
+}
+
+interface EditorVersion {
+    url: string;
+    /** Carried over from the version it was edited from; outpainting changes the shape, so it clears it. */
+    aspectRatio?: string;
+}
+
+const EDIT_MODES: ImageEditMode[] = ['instruct', 'inpaint', 'outpaint'];
+const OUTPAINT_SIDES: (keyof OutpaintPadding)[] = ['top', 'right', 'bottom', 'left'];
+const OUTPAINT_AMOUNTS = [0.25, 0.5, 1];
+
+/** Describes image dimensions as a reduced ratio, e.g. 1536x1024 as "3:2". */
+const toAspectRatio = ({ width, height }: { width: number; height: number }) => {
+    const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+    const divisor = gcd(width, height) || 1;
+    return `${width / divisor}:${height / divisor}`;
+};
+
+/** Reads an image URL, data or object, as base64. */
+const readImage = async (url: string) => {
+    const blob = await (await fetch(url)).blob();
+    return { base64: await blobToBase64(blob), mimeType: blob.type || 'image/png' };
+};
+
+export const ImageEditor: React.FC<ImageEditorProps> = ({ imageUrl, prompt, aspectRatio, onClose, onSaved }) => {
+    const { t } = useLanguage();
+    // Every applied edit is a new version; undo and redo move through them.
+    const [versions, setVersions] = useState<EditorVersion[]>([{ url: imageUrl, aspectRatio }]);
+    const [versionIndex, setVersionIndex] = useState(0);
+    const [mode, setMode] = useState<ImageEditMode>('instruct');
+    const [instruction, setInstruction] = useState('');
+    const [brushSize, setBrushSize] = useState(32);
+    const [hasMask, setHasMask] = useState(false);
+    const [outpaintSides, setOutpaintSides] = useState<Record<keyof OutpaintPadding, boolean>>({ top: false, right: true, bottom: false, left: true });
+    const [outpaintAmount, setOutpaintAmount] = useState(0.25);
+    const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+    const [isApplying, setIsApplying] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [savedIndexes, setSavedIndexes] = useState<number[]>([]);
+    const [error, setError] = useState<string | AppError>('');
+
+    const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+    const currentVersion = versions[versionIndex];
+    const currentUrl = currentVersion.url;
+
+    const clearMask = () => {
+        const canvas = maskCanvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+    };
+
+    // A mask only fits the version it was painted on.
+    useEffect(() => {
+        setHasMask(false);
+    }, [currentUrl]);
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        const scale = canvas.width / rect.width;
+        return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+    };
+
+    const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = e.currentTarget.getContext('2d');
+        const last = lastPointRef.current;
+        if (!ctx || !last) return;
+        const { x, y, scale } = toCanvasPoint(e);
+        ctx.strokeStyle = '#ef4444';
+        ctx.lineWidth = brushSize * scale;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.moveTo(last.x, last.y);
+        ctx.lineTo(x, y);
+        ctx.stroke();
+        lastPointRef.current = { x, y };
+        setHasMask(true);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (mode !== 'inpaint' || isApplying) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const { x, y } = toCanvasPoint(e);
+        lastPointRef.current = { x, y };
+        drawTo(e);
+    };
+
+    const handlePointerUp = () => {
+        lastPointRef.current = null;
+    };
+
+    const canApply = !isApplying && (
+        mode === 'instruct' ? Boolean(instruction.trim())
+        : mode === 'inpaint' ? Boolean(instruction.trim()) && hasMask
+        : OUTPAINT_SIDES.some(side => outpaintSides[side])
+    );
+
+    const handleApply = async () => {
+        if (!canApply) return;
+        setIsApplying(true);
+        setError('');
+        try {
+            let request: ImageEditRequest;
+            if (mode === 'outpaint') {
+                const padding: OutpaintPadding = {
+                    top: outpaintSides.top ? outpaintAmount : 0,
+                    right: outpaintSides.right ? outpaintAmount : 0,
+                    bottom: outpaintSides.bottom ? outpaintAmount : 0,
+                    left: outpaintSides.left ? outpaintAmount : 0,
+                };
+                const extended = await extendImage(currentUrl, padding);
+                const image = parseDataUrl(extended.image);
+                request = { mode, base64Image: image.base64, mimeType: image.mimeType, instruction, base64Mask: parseDataUrl(extended.mask).base64 };
+            } else {
+                const image = await readImage(currentUrl);
+                const maskCanvas = maskCanvasRef.current;
+                const base64Mask = mode === 'inpaint' && maskCanvas ? parseDataUrl(renderMask(maskCanvas)).base64 : undefined;
+                request = { mode, base64Image: image.base64, mimeType: image.mimeType, instruction, base64Mask };
+            }
+
+            const edited = await editImage(request);
+            const editedVersion = { url: edited.dataUrl, aspectRatio: mode === 'outpaint' ? undefined : currentVersion.aspectRatio };
+            setVersions(prev => [...prev.slice(0, versionIndex + 1), editedVersion]);
+            setSavedIndexes(prev => prev.filter(index => index <= versionIndex));
+            setVersionIndex(versionIndex + 1);
+            clearMask();
+        } catch (err) {
+            setError(toAppError(err));
+            console.error(err);
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setError('');
+        try {
+            const blob = await (await fetch(currentUrl)).blob();
+            await saveAsset({ kind: 'image', source: 'image', blob, prompt, aspectRatio: currentVersion.aspectRatio ?? (imageSize ? toAspectRatio(imageSize) : undefined), model: getModelName('imageEdit') });
+            setSavedIndexes(prev => [...prev, versionIndex]);
+            onSaved();
+        } catch (e) {
+            console.error("Failed to save edited image to the asset library", e);
+            setError(t('image.error.saveFail'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const modeButtonClasses = (active: boolean) =>
+        `flex-1 py-2 px-2 text-sm rounded-lg border-2 transition-colors ${active ? 'bg-amber-500 border-amber-500 text-white font-semibold' : 'bg-gray-700 border-gray-600 hover:border-gray-500'}`;
+    const secondaryButtonClasses = "flex-1 bg-gray-700 text-gray-200 text-sm font-semibold py-2 px-3 rounded-lg hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2";
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+            <div className="flex flex-col gap-3">
+                <div className="relative w-full bg-gray-900/70 rounded-xl border border-gray-700 overflow-hidden">
+                    <img
+                        src={currentUrl}
+                        alt={prompt}
+                        className="w-full h-auto block"
+                        onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                    />
+                    {imageSize && (
+                        <canvas
+                            key={currentUrl}
+                            ref={maskCanvasRef}
+                            width={imageSize.width}
+                            height={imageSize.height}
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={(e) => lastPointRef.current && drawTo(e)}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                            className={`absolute inset-0 w-full h-full opacity-50 touch-none ${mode === 'inpaint' ? 'cursor-crosshair' : 'pointer-events-none'}`}
+                            aria-label={t('image.editor.aria.mask')}
+                        />
+                    )}
+                    {isApplying && (
+                        <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                            <Loader />
+                        </div>
+                    )}
+                </div>
+                {versions.length > 1 && (
+                    <div className="flex gap-2 overflow-x-auto pb-1">
+                        {versions.map((version, index) => (
+                            <button
+                                key={index}
+                                onClick={() => setVersionIndex(index)}
+                                disabled={isApplying}
+                                className={`relative flex-shrink-0 w-16 h-16 rounded-md overflow-hidden border-2 transition-colors ${index === versionIndex ? 'border-amber-500' : 'border-transparent hover:border-gray-500'}`}
+                                aria-label={`${t('image.editor.version')} ${index + 1}`}
+                                aria-pressed={index === versionIndex}
+                            >
+                                <img src={version.url} alt="" className="w-full h-full object-cover" />
+                                <span className="absolute bottom-0 left-0 bg-black/60 text-[10px] text-gray-200 px-1">{index + 1}</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-col gap-4">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-gray-200">{t('image.editor.title')}</h3>
+                    <button onClick={onClose} className="text-sm text-gray-400 hover:text-white transition-colors">
+                        {t('image.editor.button.close')}
+                    </button>
+                </div>
+
+                <div className="flex gap-2">
+                    {EDIT_MODES.map(editMode => (
+                        <button key={editMode} onClick={() => setMode(editMode)} disabled={isApplying} className={modeButtonClasses(mode === editMode)}>
+                            {t(`image.editor.mode.${editMode}`)}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-400">{t(`image.editor.hint.${mode}`)}</p>
+
+                <textarea
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    placeholder={t(mode === 'outpaint' ? 'image.editor.placeholder.outpaint' : 'image.editor.placeholder.instruction')}
+                    disabled={isApplying}
+                    className="w-full h-24 p-3 bg-gray-900/70 border border-gray-600 rounded-lg focus:ring-2 focus:ring-amber-500 focus:outline-none transition"
+                />
+
+                {mode === 'inpaint' && (
+                    <div className="flex items-center gap-3 bg-gray-900/70 p-3 rounded-lg border border-gray-700">
+                        <label htmlFor="brush-size" className="text-xs font-medium text-gray-400 flex-shrink-0">
+                            {t('image.editor.label.brushSize')} <span className="font-bold text-amber-400">{brushSize}</span>
+                        </label>
+                        <input
+                            id="brush-size"
+                            type="range"
+                            min="8"
+                            max="96"
+                            step="4"
+                            value={brushSize}
+                            onChange={(e) => setBrushSize(Number(e.target.value))}
+                            className="flex-grow h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                        />
+                        <button
+                            onClick={clearMask}
+                            disabled={!hasMask || isApplying}
+                            className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            <TrashIcon className="w-3.5 h-3.5" />
+                            {t('image.editor.button.clearMask')}
+                        </button>
+                    </div>
+                )}
+
+                {mode === 'outpaint' && (
+                    <div className="flex flex-col gap-3 bg-gray-900/70 p-3 rounded-lg border border-gray-700">
+                        <div className="flex flex-wrap gap-3">
+                            {OUTPAINT_SIDES.map(side => (
+                                <label key={side} className="flex items-center gap-1.5 text-sm text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={outpaintSides[side]}
+                                        onChange={(e) => setOutpaintSides(prev => ({ ...prev, [side]: e.target.checked }))}
+                                        disabled={isApplying}
+                                        className="accent-amber-500"
+                                    />
+                                    {t(`image.editor.side.${side}`)}
+                                </label>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <label htmlFor="outpaint-amount" className="text-xs font-medium text-gray-400">{t('image.editor.label.extendBy')}</label>
+                            <select
+                                id="outpaint-amount"
+                                value={outpaintAmount}
+                                onChange={(e) => setOutpaintAmount(Number(e.target.value))}
+                                disabled={isApplying}
+                                className="p-1.5 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-amber-500 focus:outline-none transition"
+                            >
+                                {OUTPAINT_AMOUNTS.map(amount => (
+                                    <option key={amount} value={amount}>{Math.round(amount * 100)}%</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                )}
+
+                <button
+                    onClick={handleApply}
+                    disabled={!canApply}
+                    className="w-full bg-amber-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-amber-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-300 ease-in-out flex items-center justify-center gap-2 shadow-lg"
+                >
+                    {isApplying ? <Loader /> : <MagicIcon className="w-5 h-5" />}
+                    {isApplying ? t('image.editor.button.applying') : t('image.editor.button.apply')}
+                </button>
+
+                <div className="flex gap-2">
+                    <button onClick={() => setVersionIndex(versionIndex - 1)} disabled={versionIndex === 0 || isApplying} className={secondaryButtonClasses}>
+                        {t('image.editor.button.undo')}
+                    </button>
+                    <button onClick={() => setVersionIndex(versionIndex + 1)} disabled={versionIndex === versions.length - 1 || isApplying} className={secondaryButtonClasses}>
+                        {t('image.editor.button.redo')}
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={versionIndex === 0 || savedIndexes.includes(versionIndex) || isSaving || isApplying}
+                        className={secondaryButtonClasses}
+                    >
+                        {isSaving ? <Loader size="small" /> : null}
+                        {savedIndexes.includes(versionIndex) ? t('image.editor.button.saved') : t('image.editor.button.save')}
+                    </button>
+                </div>
+                <p className="text-xs text-gray-500 text-center">{t('image.editor.version')} {versionIndex + 1} / {versions.length}</p>
+
+                {error && <ErrorMessage message={error} />}
+            </div>
+        </div>
+    );
+};
@@ -1,23 +1,53 @@
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { generateImageFromPrompt } from '../services/geminiService';
+import { generateImageFromPrompt, isImageSeedSupported, isNegativePromptSupported, rephrasePromptSafely, ImageAspectRatio, ImageGenerationOptions } from '../services/geminiService';
+import { IMAGE_ASPECT_RATIOS, DEFAULT_IMAGE_ADVANCED_SETTINGS, ImageAdvancedSettings, toImageGenerationOptions, fromImageGenerationOptions } from '../services/imageSettings';
+import { listAssets, migrateLegacyImageHistory, saveAsset, ImageAsset } from '../services/assetStore';
+import { AppError, SafetyError, toAppError } from '../services/errors';
 import { Loader } from './Loader';
 import { ErrorMessage } from './ErrorMessage';
-import { ImageIcon, VideoIcon, MagicIcon, InfoIcon, ShareIcon } from './icons';
+import { ApiKeyRequired } from './ApiKeyRequired';
+import { ImageEditor } from './ImageEditor';
+import { ImageAdvancedPanel } from './ImageAdvancedPanel';
+import { PromptEnhancer } from './PromptEnhancer';
+import { PromptTemplatePanel } from './PromptTemplatePanel';
+import { ImageIcon, VideoIcon, MagicIcon, ShareIcon, StarIcon, EditIcon } from './icons';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { Handoff, SendHandoff } from '../services/handoff';
 
 interface ImageGeneratorProps {
-    initialPrompt?: string;
-    sendPromptToVideoCreator: (prompt: string) => void;
+    /** A prompt sent from another tab. */
+    handoff?: Handoff | null;
+    sendTo: SendHandoff;
 }
 
 interface ImageHistoryItem {
+  id: string;
   imageUrl: string;
   prompt: string;
-  aspectRatio: '1:1' | '16:9' | '9:16';
+  aspectRatio: ImageAspectRatio;
+  settings: ImageAdvancedSettings;
+  model?: string;
+}
+
+interface ImageCandidateItem {
+  id: string;
+  dataUrl: string;
+  /** Prompt, aspect ratio and options the candidate was generated with, for upscaling and saving. */
+  prompt: string;
+  aspectRatio: ImageAspectRatio;
+  options: ImageGenerationOptions;
+  seed?: number;
+  /** The model that produced the current image, which changes when it is upscaled. */
+  model: string;
+  isFavorite: boolean;
+  isUpscaled: boolean;
+  isSaved: boolean;
 }
 
 const MAX_HISTORY_ITEMS = 6;
+const MAX_CANDIDATES = 4;
 
 const randomPrompts = [
     'A majestic cat astronaut exploring a neon-lit alien jungle',
@@ -32,7 +62,7 @@ const randomPrompts = [
     'A whimsical candy land with chocolate rivers and lollipop trees'
 ];
 
-export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, sendPromptToVideoCreator }) => {
+export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ handoff, sendTo }) => {
     const { t } = useLanguage();
     
     const LOADING_MESSAGES = useMemo(() => [
@@ -42,35 +72,25 @@ export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, s
         t('image.loading.4'),
     ], [t]);
 
-    const [isKeyReady, setIsKeyReady] = useState(false);
-    const [isCheckingKey, setIsCheckingKey] = useState(true);
+    const { status: keyStatus, chooseKey, reportKeyError } = useApiKey();
     const [canShare, setCanShare] = useState(false);
 
     const [prompt, setPrompt] = useState('');
-    const [aspectRatio, setAspectRatio] = useState<'1:1' | '16:9' | '9:16'>('1:1');
+    const [aspectRatio, setAspectRatio] = useState<ImageAspectRatio>('1:1');
+    const [advancedSettings, setAdvancedSettings] = useState<ImageAdvancedSettings>(DEFAULT_IMAGE_ADVANCED_SETTINGS);
     const [isLoading, setIsLoading] = useState(false);
     const [loadingMessage, setLoadingMessage] = useState(LOADING_MESSAGES[0]);
-    const [error, setError] = useState('');
-    const [imageUrl, setImageUrl] = useState<string | null>(null);
+    const [error, setError] = useState<string | AppError>('');
+    const [candidateCount, setCandidateCount] = useState(2);
+    const [candidates, setCandidates] = useState<ImageCandidateItem[]>([]);
+    const [activeCandidateId, setActiveCandidateId] = useState<string | null>(null);
+    const [historyImageId, setHistoryImageId] = useState<string | null>(null);
+    const [upscalingId, setUpscalingId] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    // The prompt is captured with the image, since the prompt box may have changed since it was generated.
+    const [editingImage, setEditingImage] = useState<{ imageUrl: string; prompt: string; aspectRatio?: string } | null>(null);
     const [history, setHistory] = useState<ImageHistoryItem[]>([]);
 
-     const checkKey = useCallback(async () => {
-        if (window.aistudio) {
-            setIsCheckingKey(true);
-            try {
-                const keyExists = await window.aistudio.hasSelectedApiKey();
-                setIsKeyReady(keyExists);
-            } catch (e) {
-                console.error("Error checking for API key:", e);
-                setIsKeyReady(false);
-            } finally {
-                setIsCheckingKey(false);
-            }
-        } else {
-            setTimeout(checkKey, 100);
-        }
-    }, []);
-    
     useEffect(() => {
         if (typeof navigator.share === 'function') {
             setCanShare(true);
@@ -78,27 +98,47 @@ export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, s
     }, []);
 
     useEffect(() => {
-        if (initialPrompt) {
-            setPrompt(initialPrompt);
+        if (handoff?.payload.kind === 'prompt') {
+            setPrompt(handoff.payload.prompt);
         }
-    }, [initialPrompt]);
+    }, [handoff]);
 
-    useEffect(() => {
-        checkKey();
-    }, [checkKey]);
-    
-    useEffect(() => {
+    const loadHistory = useCallback(async () => {
         try {
-            const storedHistory = localStorage.getItem('imageGenHistory');
-            if (storedHistory) {
-                setHistory(JSON.parse(storedHistory));
-            }
+            await migrateLegacyImageHistory();
+            const assets = await listAssets({ kind: 'image', source: 'image', limit: MAX_HISTORY_ITEMS }) as ImageAsset[];
+            setHistory(assets.map(asset => {
+                return {
+                    id: asset.id,
+                    imageUrl: URL.createObjectURL(asset.blob),
+                    prompt: asset.prompt ?? '',
+                    // Edited and outpainted images have no preset aspect ratio.
+                    aspectRatio: IMAGE_ASPECT_RATIOS.find(ratio => ratio === asset.aspectRatio) ?? '1:1',
+                    settings: fromImageGenerationOptions(asset.generation),
+                    model: asset.model,
+                };
+            }));
         } catch (e) {
-            console.error("Failed to load image history from localStorage", e);
-            localStorage.removeItem('imageGenHistory');
+            console.error("Failed to load image history from the asset library", e);
         }
     }, []);
 
+    useEffect(() => {
+        loadHistory();
+    }, [loadHistory]);
+
+    // Each reload creates new object URLs, so the previous list's are released once it is replaced.
+    useEffect(() => {
+        return () => history.forEach(item => URL.revokeObjectURL(item.imageUrl));
+    }, [history]);
+
+    // The editor works on its own copy, which outlives history reloads and is released when the editor closes.
+    useEffect(() => {
+        return () => {
+            if (editingImage) URL.revokeObjectURL(editingImage.imageUrl);
+        };
+    }, [editingImage]);
+
     useEffect(() => {
         let interval: number;
         if (isLoading) {
@@ -112,12 +152,20 @@ export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, s
         return () => window.clearInterval(interval);
     }, [isLoading, LOADING_MESSAGES]);
     
-    const handleSelectKey = async () => {
-        await window.aistudio.openSelectKey();
-        setIsKeyReady(true);
-        setError(''); // Clear previous errors
-    };
 
+    const activeCandidate = candidates.find(candidate => candidate.id === activeCandidateId) ?? null;
+    const historyImage = history.find(item => item.id === historyImageId);
+    const imageUrl = activeCandidate?.dataUrl ?? historyImage?.imageUrl ?? null;
+    const imagePrompt = activeCandidate?.prompt ?? historyImage?.prompt ?? '';
+    const imageAspectRatio = activeCandidate?.aspectRatio ?? historyImage?.aspectRatio;
+    const favoriteCount = candidates.filter(candidate => candidate.isFavorite && !candidate.isSaved).length;
+
+    const showGenerationError = (err: unknown) => {
+        const appError = toAppError(err);
+        setError(appError);
+        reportKeyError(appError);
+        console.error(err);
+    };
 
     const generate = async (currentPrompt: string) => {
         if (!currentPrompt) {
@@ -126,35 +174,81 @@ export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, s
         }
         setIsLoading(true);
         setError('');
-        setImageUrl(null);
+        setCandidates([]);
+        setActiveCandidateId(null);
+        setHistoryImageId(null);
         
         try {
-            const serviceAspectRatio = aspectRatio as '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
-            const url = await generateImageFromPrompt(currentPrompt, serviceAspectRatio);
-            setImageUrl(url);
-
-            const newHistoryItem: ImageHistoryItem = { imageUrl: url, prompt: currentPrompt, aspectRatio };
-            setHistory(prevHistory => {
-                const updatedHistory = [newHistoryItem, ...prevHistory.filter(item => item.imageUrl !== url)].slice(0, MAX_HISTORY_ITEMS);
-                try {
-                    localStorage.setItem('imageGenHistory', JSON.stringify(updatedHistory));
-                } catch (e) {
-                    console.error("Failed to save image history to localStorage", e);
-                }
-                return updatedHistory;
-            });
+            const options = toImageGenerationOptions(advancedSettings);
+            const results = await generateImageFromPrompt(currentPrompt, aspectRatio, { ...options, numberOfImages: candidateCount });
+            const generated = results.map((result, index) => ({
+                id: `${Date.now().toString(36)}-${index}`,
+                dataUrl: result.dataUrl,
+                prompt: currentPrompt,
+                aspectRatio,
+                options,
+                seed: result.seed,
+                model: result.model,
+                // A single result needs no picking, so it starts out selected.
+                isFavorite: results.length === 1,
+                isUpscaled: false,
+                isSaved: false,
+            }));
+            setCandidates(generated);
+            setActiveCandidateId(generated[0].id);
+        } catch (err) {
+            showGenerationError(err);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const updateCandidate = (id: string, changes: Partial<ImageCandidateItem>) => {
+        setCandidates(prev => prev.map(candidate => (candidate.id === id ? { ...candidate, ...changes } : candidate)));
+    };
+
+    const handleToggleFavorite = (id: string) => {
+        setCandidates(prev => prev.map(candidate => (candidate.id === id ? { ...candidate, isFavorite: !candidate.isFavorite } : candidate)));
+    };
 
+    /** Regenerates the candidate at 2K from its prompt and, where supported, its seed. */
+    const handleUpscale = async (candidate: ImageCandidateItem) => {
+        setUpscalingId(candidate.id);
+        setError('');
+        try {
+            const [upscaled] = await generateImageFromPrompt(candidate.prompt, candidate.aspectRatio, { ...candidate.options, numberOfImages: 1, seed: candidate.seed, imageSize: '2K' });
+            updateCandidate(candidate.id, { dataUrl: upscaled.dataUrl, seed: upscaled.seed ?? candidate.seed, model: upscaled.model, isUpscaled: true, isSaved: false });
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-             if (errorMessage.includes('billed users') || errorMessage.includes('Requested entity was not found')) {
-                setError(t('image.error.billingRequired'));
-                setIsKeyReady(false);
-            } else {
-                 setError(`${t('image.error.apiFail')} ${errorMessage}`);
+            showGenerationError(err);
+        } finally {
+            setUpscalingId(null);
+        }
+    };
+
+    const handleSaveSelected = async () => {
+        const selected = candidates.filter(candidate => candidate.isFavorite && !candidate.isSaved);
+        if (selected.length === 0) return;
+        setIsSaving(true);
+        try {
+            for (const candidate of selected) {
+                const blob = await (await fetch(candidate.dataUrl)).blob();
+                await saveAsset({
+                    kind: 'image',
+                    source: 'image',
+                    blob,
+                    prompt: candidate.prompt,
+                    aspectRatio: candidate.aspectRatio,
+                    model: candidate.model,
+                    generation: { ...candidate.options, seed: candidate.seed, imageSize: candidate.isUpscaled ? '2K' : undefined },
+                });
+                updateCandidate(candidate.id, { isSaved: true });
             }
-            console.error(err);
+            await loadHistory();
+        } catch (e) {
+            console.error("Failed to save image to the asset library", e);
+            setError(t('image.error.saveFail'));
         } finally {
-            setIsLoading(false);
+            setIsSaving(false);
         }
     };
     
@@ -169,16 +263,46 @@ export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, s
         generate(randomPrompt);
     };
 
-    const handleSendToVideo = () => {
-        if (prompt) {
-            sendPromptToVideoCreator(prompt);
+    const handleRephrase = async () => {
+        if (!(error instanceof SafetyError)) return;
+        try {
+            setPrompt(await rephrasePromptSafely(prompt, 'image', error.categories));
+            setError('');
+        } catch (err) {
+            showGenerationError(err);
+        }
+    };
+
+    /** Sends the shown image to the video tab as its starting frame, or just the prompt when there is none. */
+    const handleSendToVideo = async () => {
+        if (!imageUrl) {
+            if (prompt) sendTo('video', { kind: 'prompt', prompt });
+            return;
+        }
+        try {
+            const image = await (await fetch(imageUrl)).blob();
+            sendTo('video', { kind: 'image', image, prompt: activeCandidate?.prompt ?? prompt });
+        } catch (e) {
+            console.error("Failed to read the image for the video tab", e);
+            sendTo('video', { kind: 'prompt', prompt });
         }
     };
     
+    const handleOpenEditor = async (url: string) => {
+        try {
+            const blob = await (await fetch(url)).blob();
+            setEditingImage({ imageUrl: URL.createObjectURL(blob), prompt: imagePrompt, aspectRatio: imageAspectRatio });
+        } catch (e) {
+            console.error("Failed to open the image in the editor", e);
+        }
+    };
+
     const handleHistoryClick = (item: ImageHistoryItem) => {
         setPrompt(item.prompt);
         setAspectRatio(item.aspectRatio);
-        setImageUrl(item.imageUrl);
+        setAdvancedSettings(item.settings);
+        setActiveCandidateId(null);
+        setHistoryImageId(item.id);
         setError('');
     };
 
@@ -187,7 +311,7 @@ export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, s
         try {
             const response = await fetch(imageUrl);
             const blob = await response.blob();
-            const file = new File([blob], 'ai-creative-suite-image.jpg', { type: blob.type });
+            const file = new File([blob], `ai-creative-suite-image.${blob.type === 'image/png' ? 'png' : 'jpg'}`, { type: blob.type });
 
             if (navigator.canShare && navigator.canShare({ files: [file] })) {
                  await navigator.share({
@@ -204,27 +328,20 @@ export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, s
         }
     };
 
-    if (isCheckingKey) {
-        return (
-            <div className="flex justify-center items-center p-8 bg-gray-800/50 rounded-2xl">
-                <Loader />
-                <p className="ml-4 text-gray-400">{t('image.apiKey.checking')}</p>
-            </div>
-        )
+    if (keyStatus !== 'ready') {
+        return <ApiKeyRequired area="image" docsUrl="https://ai.google.dev/gemini-api/docs/billing" />;
     }
 
-    if (!isKeyReady) {
+    if (editingImage) {
         return (
-             <div className="bg-yellow-900/30 border border-yellow-700 text-yellow-200 px-6 py-5 rounded-2xl relative text-center">
-                <InfoIcon className="w-8 h-8 mx-auto mb-3 text-yellow-400" />
-                <h3 className="font-bold text-xl mb-2 text-white">{t('image.apiKey.required.title')}</h3>
-                <p className="text-yellow-300/80 mb-4">
-                    {t('image.apiKey.required.description')} <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-yellow-300 font-semibold hover:underline">{t('image.apiKey.required.docsLink')}</a>.
-                </p>
-                <button onClick={handleSelectKey} className="bg-yellow-500 text-yellow-950 font-bold py-2 px-5 rounded-lg hover:bg-yellow-400 transition-colors">
-                    {t('image.apiKey.required.button')}
-                </button>
-                 {error && <div className="mt-4"><ErrorMessage message={error} /></div>}
+            <div className="bg-gray-800/50 rounded-2xl p-6 shadow-2xl border border-gray-700 backdrop-blur-sm flex flex-col gap-6">
+                <ImageEditor
+                    imageUrl={editingImage.imageUrl}
+                    prompt={editingImage.prompt}
+                    aspectRatio={editingImage.aspectRatio}
+                    onClose={() => setEditingImage(null)}
+                    onSaved={loadHistory}
+                />
             </div>
         );
     }
@@ -241,16 +358,41 @@ export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, s
                         className="w-full h-40 p-3 bg-gray-900/70 border border-gray-600 rounded-lg focus:ring-2 focus:ring-amber-500 focus:outline-none transition"
                         rows={5}
                     />
+                    <PromptEnhancer prompt={prompt} onChange={setPrompt} target="image" accent="amber" disabled={isLoading} />
+                    <PromptTemplatePanel onApply={setPrompt} accent="amber" disabled={isLoading} />
                      <div>
                         <label className="block text-sm font-medium text-gray-300 mb-2">{t('image.label.aspectRatio')}</label>
-                        <div className="flex gap-4">
-                            {(['1:1', '16:9', '9:16'] as const).map((ratio) => (
+                        <div className="flex gap-2">
+                            {IMAGE_ASPECT_RATIOS.map((ratio) => (
                                 <button key={ratio} onClick={() => setAspectRatio(ratio)}
-                                    className={`flex-1 py-2 px-4 rounded-lg border-2 transition-colors ${aspectRatio === ratio ? 'bg-amber-500 border-amber-500 text-white font-semibold' : 'bg-gray-700 border-gray-600 hover:border-gray-500'}`}>
+                                    className={`flex-1 py-2 px-2 text-sm rounded-lg border-2 transition-colors ${aspectRatio === ratio ? 'bg-amber-500 border-amber-500 text-white font-semibold' : 'bg-gray-700 border-gray-600 hover:border-gray-500'}`}>
                                     {ratio}
                                 </button>
                             ))}
                         </div>
+                    </div>
+                    <ImageAdvancedPanel
+                        value={advancedSettings}
+                        onChange={setAdvancedSettings}
+                        seedSupported={isImageSeedSupported()}
+                        negativePromptSupported={isNegativePromptSupported()}
+                        disabled={isLoading}
+                    />
+                    <div>
+                        <label htmlFor="candidate-count" className="block text-sm font-medium text-gray-300 mb-2">
+                            {t('image.label.candidates')} <span className="font-bold text-amber-400">{candidateCount}</span>
+                        </label>
+                        <input
+                            id="candidate-count"
+                            type="range"
+                            min="1"
+                            max={MAX_CANDIDATES}
+                            step="1"
+                            value={candidateCount}
+                            onChange={(e) => setCandidateCount(Number(e.target.value))}
+                            disabled={isLoading}
+                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                        />
                     </div>
                      <div className="flex flex-col sm:flex-row gap-2">
                         <button
@@ -272,7 +414,7 @@ export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, s
                         </button>
                         <button
                             onClick={handleSendToVideo}
-                            disabled={!prompt || isLoading}
+                            disabled={(!prompt && !imageUrl) || isLoading}
                             className="flex-grow bg-cyan-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-300 ease-in-out flex items-center justify-center gap-2 shadow-lg"
                             title={t('image.button.sendToVideoTitle')}
                         >
@@ -291,6 +433,13 @@ export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, s
                         ) : imageUrl ? (
                             <>
                                 <img src={imageUrl} alt={prompt} className="w-full h-full object-contain rounded-xl" />
+                                <button
+                                    onClick={() => handleOpenEditor(imageUrl)}
+                                    className="absolute top-2 left-2 bg-black/50 text-white p-2 rounded-full hover:bg-black/80 transition-colors z-10"
+                                    title={t('image.editor.button.open')}
+                                >
+                                    <EditIcon className="w-5 h-5" />
+                                </button>
                                 {canShare && (
                                      <button
                                         onClick={handleShareImage}
@@ -305,20 +454,82 @@ export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialPrompt, s
                             <p className="text-gray-500">{t('image.placeholder.result')}</p>
                         )}
                     </div>
+                    {candidates.length > 1 && (
+                        <div className="w-full grid grid-cols-4 gap-2">
+                            {candidates.map((candidate, index) => (
+                                <div key={candidate.id} className="relative">
+                                    <button
+                                        onClick={() => setActiveCandidateId(candidate.id)}
+                                        className={`block w-full aspect-square rounded-lg overflow-hidden border-2 transition-colors ${candidate.id === activeCandidateId ? 'border-amber-500' : 'border-transparent hover:border-gray-500'}`}
+                                        aria-label={`${t('image.candidates.view')} ${index + 1}`}
+                                        aria-pressed={candidate.id === activeCandidateId}
+                                    >
+                                        <img src={candidate.dataUrl} alt={`${t('image.candidates.view')} ${index + 1}`} className="w-full h-full object-cover" />
+                                    </button>
+                                    <button
+                                        onClick={() => handleToggleFavorite(candidate.id)}
+                                        className={`absolute top-1 right-1 p-1 rounded-full bg-black/60 transition-colors ${candidate.isFavorite ? 'text-amber-400' : 'text-gray-300 hover:text-white'}`}
+                                        aria-label={t('image.candidates.favorite')}
+                                        aria-pressed={candidate.isFavorite}
+                                    >
+                                        <StarIcon className="w-4 h-4" filled={candidate.isFavorite} />
+                                    </button>
+                                    {candidate.isUpscaled && (
+                                        <span className="absolute bottom-1 left-1 bg-black/60 text-[10px] font-bold text-amber-300 rounded px-1">2K</span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {candidates.length > 0 && (
+                        <div className="w-full flex flex-col gap-2">
+                            <div className="flex gap-2">
+                                {activeCandidate && candidates.length === 1 && (
+                                    <button
+                                        onClick={() => handleToggleFavorite(activeCandidate.id)}
+                                        className={`flex items-center justify-center px-3 rounded-lg border transition-colors ${activeCandidate.isFavorite ? 'border-amber-500 text-amber-400' : 'border-gray-600 text-gray-300 hover:border-gray-500'}`}
+                                        aria-label={t('image.candidates.favorite')}
+                                        aria-pressed={activeCandidate.isFavorite}
+                                    >
+                                        <StarIcon className="w-4 h-4" filled={activeCandidate.isFavorite} />
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => activeCandidate && handleUpscale(activeCandidate)}
+                                    disabled={!activeCandidate || activeCandidate.isUpscaled || upscalingId !== null || isLoading}
+                                    className="flex-1 bg-gray-700 text-gray-200 text-sm font-semibold py-2 px-3 rounded-lg hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+                                >
+                                    {upscalingId ? <Loader size="small" /> : null}
+                                    {t('image.candidates.upscale')}
+                                </button>
+                                <button
+                                    onClick={handleSaveSelected}
+                                    disabled={favoriteCount === 0 || isSaving || isLoading}
+                                    className="flex-1 bg-amber-600 text-white text-sm font-semibold py-2 px-3 rounded-lg hover:bg-amber-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+                                >
+                                    {isSaving ? <Loader size="small" /> : null}
+                                    {t('image.candidates.save')} ({favoriteCount})
+                                </button>
+                            </div>
+                            {!isImageSeedSupported() && (
+                                <p className="text-xs text-gray-500">{t('image.candidates.upscaleNoSeed')}</p>
+                            )}
+                        </div>
+                    )}
                 </div>
             </div>
-            {error && <ErrorMessage message={error} />}
+            {error && <ErrorMessage message={error} onRetry={handleGenerate} onSelectKey={chooseKey} onRephrase={prompt.trim() ? handleRephrase : undefined} />}
 
             {history.length > 0 && (
                 <div className="mt-6 pt-6 border-t border-gray-700">
                     <h3 className="text-xl font-semibold text-gray-300 mb-4 text-center">{t('image.history.title')}</h3>
                     <div className="grid grid-cols-3 sm:grid-cols-6 gap-4">
-                        {history.map((item, index) => (
+                        {history.map((item) => (
                             <button
-                                key={index}
+                                key={item.id}
                                 onClick={() => handleHistoryClick(item)}
                                 className="relative aspect-square rounded-lg overflow-hidden group focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-amber-500"
-                                title={t('image.history.tooltip')}
+                                title={item.model ? `${t('image.history.tooltip')} (${item.model})` : t('image.history.tooltip')}
                             >
                                 <img src={item.imageUrl} alt={item.prompt.substring(0, 30)} className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110" />
                                 <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
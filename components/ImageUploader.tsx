@@ -2,6 +2,7 @@
 import React, { useCallback, useState } from 'react';
 import { UploadIcon } from './icons';
 import { useLanguage } from '../contexts/LanguageContext';
+import { ACCEPTED_IMAGE_TYPES, ImageIngestError, validateImageFile } from '../utils/imageIngest';
 
 interface ImageUploaderProps {
   onImageChange: (file: File | null) => void;
@@ -10,8 +11,20 @@ interface ImageUploaderProps {
 
 export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange, imageUrl }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [rejection, setRejection] = useState('');
   const { t } = useLanguage();
 
+  const selectFile = useCallback((file: File) => {
+    try {
+      validateImageFile(file);
+      setRejection('');
+      onImageChange(file);
+    } catch (e) {
+      const reason = e instanceof ImageIngestError ? e.reason : 'unsupportedType';
+      setRejection(`${file.name}: ${t(`uploader.error.${reason}`)}`);
+    }
+  }, [onImageChange, t]);
+
   const handleDragEnter = (e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -35,16 +48,13 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange, ima
     setIsDragging(false);
 
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (file.type.startsWith('image/')) {
-        onImageChange(file);
-      }
+      selectFile(e.dataTransfer.files[0]);
     }
-  }, [onImageChange]);
+  }, [selectFile]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      onImageChange(e.target.files[0]);
+      selectFile(e.target.files[0]);
     }
   };
 
@@ -74,10 +84,11 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange, ima
           type="file"
           id="image-upload"
           className="hidden"
-          accept="image/*"
+          accept={ACCEPTED_IMAGE_TYPES.join(',')}
           onChange={handleFileChange}
         />
       </label>
+      {rejection && <p className="mt-2 text-xs text-red-400">{rejection}</p>}
     </div>
   );
 };
\ No newline at end of file
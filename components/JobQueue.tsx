@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { useVideoJobs } from '../contexts/VideoJobContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { VideoIcon } from './icons';
+
+interface JobQueueProps {
+    onOpenLibrary: () => void;
+}
+
+export const JobQueue: React.FC<JobQueueProps> = ({ onOpenLibrary }) => {
+    const { t } = useLanguage();
+    const { jobs, notifications, cancel, dismiss, dismissNotification } = useVideoJobs();
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    const activeCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+
+    if (jobs.length === 0 && notifications.length === 0) {
+        return null;
+    }
+
+    const statusClasses: Record<string, string> = {
+        queued: 'text-gray-400',
+        running: 'text-cyan-400',
+        succeeded: 'text-emerald-400',
+        failed: 'text-red-400',
+        cancelled: 'text-gray-500',
+    };
+
+    return (
+        <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end gap-2 w-80 max-w-[calc(100vw-2rem)]">
+            {notifications.map(notification => (
+                <div
+                    key={notification.jobId}
+                    role="status"
+                    className={`w-full rounded-lg border px-4 py-3 shadow-lg text-sm ${notification.status === 'succeeded' ? 'bg-emerald-900/90 border-emerald-700 text-emerald-100' : 'bg-red-900/90 border-red-700 text-red-100'}`}
+                >
+                    <p className="font-semibold">{t(notification.status === 'succeeded' ? 'jobs.notify.succeeded' : 'jobs.notify.failed')}</p>
+                    <p className="truncate opacity-80">{notification.prompt}</p>
+                    <div className="flex justify-end gap-3 mt-2">
+                        {notification.status === 'succeeded' && (
+                            <button
+                                onClick={() => { dismissNotification(notification.jobId); onOpenLibrary(); }}
+                                className="font-semibold underline hover:text-white"
+                            >
+                                {t('jobs.button.view')}
+                            </button>
+                        )}
+                        <button onClick={() => dismissNotification(notification.jobId)} className="opacity-80 hover:opacity-100">
+                            {t('jobs.button.close')}
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            {jobs.length > 0 && (
+                <div className="w-full bg-gray-800/95 border border-gray-700 rounded-xl shadow-2xl backdrop-blur-sm">
+                    <button
+                        onClick={() => setIsExpanded(prev => !prev)}
+                        className="w-full flex items-center justify-between gap-2 px-4 py-3 text-sm font-semibold text-gray-200"
+                        aria-expanded={isExpanded}
+                    >
+                        <span className="flex items-center gap-2">
+                            <VideoIcon className="w-4 h-4 text-cyan-400" />
+                            {t('jobs.title')}
+                        </span>
+                        <span className="text-cyan-400">{activeCount > 0 ? `${activeCount} ${t('jobs.active')}` : jobs.length}</span>
+                    </button>
+                    {isExpanded && (
+                        <ul className="max-h-72 overflow-y-auto border-t border-gray-700 divide-y divide-gray-700">
+                            {jobs.map(job => {
+                                const isActive = job.status === 'queued' || job.status === 'running';
+                                return (
+                                    <li key={job.id} className="px-4 py-3 flex flex-col gap-2 text-xs">
+                                        <div className="flex justify-between gap-2">
+                                            <p className="text-gray-300 truncate" title={job.request.prompt}>{job.request.prompt || t('jobs.untitled')}</p>
+                                            <span className={`flex-shrink-0 font-semibold ${statusClasses[job.status]}`}>{t(`jobs.status.${job.status}`)}</span>
+                                        </div>
+                                        {isActive && (
+                                            <div className="w-full bg-gray-700 rounded-full h-1.5">
+                                                <div className="bg-cyan-500 h-1.5 rounded-full transition-all duration-500" style={{ width: `${Math.round(job.progress * 100)}%` }}></div>
+                                            </div>
+                                        )}
+                                        {job.error && <p className="text-red-400 line-clamp-2" title={job.error}>{job.error}</p>}
+                                        <div className="flex justify-end gap-3">
+                                            {job.status === 'succeeded' && (
+                                                <button onClick={onOpenLibrary} className="text-emerald-400 hover:text-emerald-300 font-semibold">{t('jobs.button.view')}</button>
+                                            )}
+                                            {isActive ? (
+                                                <button onClick={() => cancel(job.id)} className="text-gray-400 hover:text-red-400">{t('jobs.button.cancel')}</button>
+                                            ) : (
+                                                <button onClick={() => dismiss(job.id)} className="text-gray-400 hover:text-gray-200">{t('jobs.button.dismiss')}</button>
+                                            )}
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
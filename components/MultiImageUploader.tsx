@@ -0,0 +1,181 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { UploadIcon, TrashIcon } from './icons';
+import { useLanguage } from '../contexts/LanguageContext';
+import { ACCEPTED_IMAGE_TYPES, ImageIngestError, validateImageFile } from '../utils/imageIngest';
+
+export interface UploadedImage {
+  id: string;
+  file: File;
+  /** Object URL for the thumbnail; revoked when the image is removed. */
+  url: string;
+  caption: string;
+}
+
+interface MultiImageUploaderProps {
+  images: UploadedImage[];
+  onChange: (images: UploadedImage[]) => void;
+  maxImages: number;
+  disabled?: boolean;
+}
+
+const createUploadedImage = (file: File): UploadedImage => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  file,
+  url: URL.createObjectURL(file),
+  caption: '',
+});
+
+export const MultiImageUploader: React.FC<MultiImageUploaderProps> = ({ images, onChange, maxImages, disabled }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [rejection, setRejection] = useState('');
+  const { t } = useLanguage();
+
+  const addFiles = useCallback((files: File[]) => {
+    const room = maxImages - images.length;
+    if (disabled || room <= 0) return;
+    const accepted: File[] = [];
+    const rejected: string[] = [];
+    files.forEach(file => {
+      try {
+        validateImageFile(file);
+        accepted.push(file);
+      } catch (e) {
+        const reason = e instanceof ImageIngestError ? e.reason : 'unsupportedType';
+        rejected.push(`${file.name}: ${t(`uploader.error.${reason}`)}`);
+      }
+    });
+    setRejection(rejected.join(' '));
+    if (accepted.length === 0) return;
+    onChange([...images, ...accepted.slice(0, room).map(createUploadedImage)]);
+  }, [images, onChange, maxImages, disabled, t]);
+
+  // Pasting anywhere on the page adds clipboard images, e.g. a screenshot.
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (files.some(file => file.type.startsWith('image/'))) {
+        e.preventDefault();
+        addFiles(files);
+      }
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [addFiles]);
+
+  const handleDragEnter = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files ?? []));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    // Allow selecting the same file again after removing it.
+    e.target.value = '';
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= images.length) return;
+    const reordered = [...images];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const handleRemove = (id: string) => {
+    const removed = images.find(image => image.id === id);
+    if (removed) URL.revokeObjectURL(removed.url);
+    onChange(images.filter(image => image.id !== id));
+  };
+
+  const handleCaptionChange = (id: string, caption: string) => {
+    onChange(images.map(image => (image.id === id ? { ...image, caption } : image)));
+  };
+
+  const canAddMore = images.length < maxImages && !disabled;
+  const iconButtonClasses = "px-2 py-0.5 rounded-md text-gray-300 bg-gray-900/80 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-sm";
+
+  const dropZone = (
+    <label
+      onDragEnter={handleDragEnter}
+      onDragLeave={handleDragLeave}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+      className={`relative flex flex-col items-center justify-center w-full rounded-xl border-2 border-dashed transition-all duration-300 cursor-pointer
+        ${images.length === 0 ? 'aspect-video' : 'h-full min-h-[8rem]'}
+        ${isDragging ? 'border-indigo-500 bg-indigo-900/50' : 'border-gray-600 hover:border-indigo-500'}`}
+    >
+      <div className="flex flex-col items-center justify-center text-center p-4">
+        <UploadIcon className={`${images.length === 0 ? 'w-12 h-12' : 'w-8 h-8'} text-gray-500 mb-2`} />
+        <p className="font-semibold text-gray-300 text-sm">
+          <span className="text-indigo-400">{t('uploader.label')}</span> {t('uploader.prompt')}
+        </p>
+        <p className="text-xs text-gray-500">{t('uploader.multiHint')} ({images.length} / {maxImages})</p>
+      </div>
+      <input
+        type="file"
+        className="hidden"
+        accept={ACCEPTED_IMAGE_TYPES.join(',')}
+        multiple
+        disabled={!canAddMore}
+        onChange={handleFileChange}
+      />
+    </label>
+  );
+
+  const rejectionMessage = rejection && <p className="mt-2 text-xs text-red-400">{rejection}</p>;
+
+  if (images.length === 0) {
+    return <div className="w-full">{dropZone}{rejectionMessage}</div>;
+  }
+
+  return (
+    <div className="w-full">
+      <div className="grid grid-cols-2 gap-3">
+        {images.map((image, index) => (
+          <div key={image.id} className="flex flex-col gap-1">
+            <div className="relative aspect-video rounded-lg overflow-hidden border border-gray-700">
+              <img src={image.url} alt={image.caption || `${t('uploader.image')} ${index + 1}`} className="absolute h-full w-full object-cover" />
+              <span className="absolute top-1 left-1 bg-gray-900/80 text-xs font-bold text-indigo-300 rounded-md px-1.5 py-0.5">{index + 1}</span>
+              <div className="absolute top-1 right-1 flex gap-1">
+                <button onClick={() => handleMove(index, -1)} disabled={disabled || index === 0} className={iconButtonClasses} aria-label={t('uploader.moveEarlier')}>‹</button>
+                <button onClick={() => handleMove(index, 1)} disabled={disabled || index === images.length - 1} className={iconButtonClasses} aria-label={t('uploader.moveLater')}>›</button>
+                <button onClick={() => handleRemove(image.id)} disabled={disabled} className={`${iconButtonClasses} hover:text-red-400`} aria-label={t('uploader.remove')}>
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+            <input
+              type="text"
+              value={image.caption}
+              onChange={(e) => handleCaptionChange(image.id, e.target.value)}
+              disabled={disabled}
+              placeholder={t('uploader.placeholder.caption')}
+              className="w-full p-1.5 text-xs bg-gray-950 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+            />
+          </div>
+        ))}
+        {canAddMore && dropZone}
+      </div>
+      {rejectionMessage}
+    </div>
+  );
+};
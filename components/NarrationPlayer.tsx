@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { decodeAudioData, encodeWav, computeWaveform } from '../utils/audioUtils';
+import { PlayIcon, PauseIcon } from './icons';
+import { Loader } from './Loader';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface NarrationPlayerProps {
+  /** Raw mono Int16 PCM as returned by the speech model. */
+  audio: Uint8Array;
+  sampleRate: number;
+  autoPlay?: boolean;
+  /**
+   * Marks the audio as the opening of a narration that is still being generated.
+   * When the longer audio arrives, playback carries on from the same position.
+   */
+  isPartial?: boolean;
+  /** Called with the playback position in seconds, every animation frame while playing and after seeks. */
+  onTimeUpdate?: (seconds: number, duration: number) => void;
+}
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+const WAVEFORM_BARS = 120;
+const SEEK_STEP_SECONDS = 5;
+
+const formatTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+export const NarrationPlayer: React.FC<NarrationPlayerProps> = ({ audio, sampleRate, autoPlay = false, isPartial = false, onTimeUpdate }) => {
+  const { t } = useLanguage();
+  const [src, setSrc] = useState<string | null>(null);
+  const [waveform, setWaveform] = useState<number[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isScrubbingRef = useRef(false);
+  const wasPartialRef = useRef(false);
+  const reachedPartialEndRef = useRef(false);
+  const pendingResumeRef = useRef<{ time: number; play: boolean } | null>(null);
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
+
+  // The PCM is wrapped as WAV so the media element handles pausing, seeking and pitch-preserving rate changes.
+  useEffect(() => {
+    const element = audioRef.current;
+    if (element && wasPartialRef.current) {
+      pendingResumeRef.current = { time: element.currentTime, play: !element.paused || reachedPartialEndRef.current };
+    } else {
+      pendingResumeRef.current = { time: 0, play: autoPlay };
+      setCurrentTime(0);
+    }
+    wasPartialRef.current = isPartial;
+    reachedPartialEndRef.current = false;
+
+    const url = URL.createObjectURL(encodeWav(audio, sampleRate, 1));
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [audio, sampleRate]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+    const context: AudioContext = new AudioContext({ sampleRate });
+    decodeAudioData(audio, context, sampleRate, 1)
+      .then(buffer => {
+        if (isCancelled) return;
+        setWaveform(computeWaveform(buffer, WAVEFORM_BARS));
+        setDuration(buffer.duration);
+      })
+      .catch(e => console.error("Failed to compute the narration waveform", e))
+      .finally(() => context.close());
+    return () => {
+      isCancelled = true;
+    };
+  }, [audio, sampleRate]);
+
+  const reportTime = useCallback((seconds: number) => {
+    setCurrentTime(seconds);
+    onTimeUpdateRef.current?.(seconds, audioRef.current?.duration || duration);
+  }, [duration]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      if (audioRef.current) reportTime(audioRef.current.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, reportTime]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = playbackRate;
+  }, [playbackRate, src]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || waveform.length === 0) return;
+
+    const { width, height } = canvas;
+    const barWidth = width / waveform.length;
+    const playedRatio = duration > 0 ? currentTime / duration : 0;
+    ctx.clearRect(0, 0, width, height);
+    waveform.forEach((peak, index) => {
+      const barHeight = Math.max(2, peak * height);
+      ctx.fillStyle = index / waveform.length < playedRatio ? '#818cf8' : '#4b5563';
+      ctx.fillRect(index * barWidth, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [waveform, currentTime, duration]);
+
+  const handleLoadedMetadata = () => {
+    const element = audioRef.current;
+    const resume = pendingResumeRef.current;
+    if (!element || !resume) return;
+    pendingResumeRef.current = null;
+    element.currentTime = resume.time;
+    if (resume.play) {
+      element.play().catch(e => console.error("Failed to start narration playback", e));
+    }
+  };
+
+  const handleEnded = () => {
+    setIsPlaying(false);
+    if (isPartial) {
+      // Hold the position and continue once the rest of the narration arrives.
+      reachedPartialEndRef.current = true;
+      return;
+    }
+    reportTime(0);
+  };
+
+  const seekTo = (seconds: number) => {
+    const element = audioRef.current;
+    if (!element || !duration) return;
+    const clamped = Math.min(duration, Math.max(0, seconds));
+    element.currentTime = clamped;
+    reportTime(clamped);
+  };
+
+  const seekToPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seekTo(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  const handleTogglePlay = () => {
+    const element = audioRef.current;
+    if (!element) return;
+    if (element.paused) {
+      element.play().catch(e => console.error("Failed to start narration playback", e));
+    } else {
+      element.pause();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      seekTo(currentTime - SEEK_STEP_SECONDS);
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      seekTo(currentTime + SEEK_STEP_SECONDS);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 bg-gray-800/70 border border-gray-700 rounded-lg p-2">
+      {src && (
+        <audio
+          ref={audioRef}
+          src={src}
+          onLoadedMetadata={handleLoadedMetadata}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={handleEnded}
+          className="hidden"
+        />
+      )}
+      <button
+        onClick={handleTogglePlay}
+        className="flex items-center justify-center w-9 h-9 flex-shrink-0 rounded-full bg-indigo-600 text-white hover:bg-indigo-500 transition-colors"
+        aria-label={isPlaying ? t('story.player.pause') : t('story.player.play')}
+      >
+        {isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+      </button>
+      <canvas
+        ref={canvasRef}
+        width={WAVEFORM_BARS * 4}
+        height={40}
+        tabIndex={0}
+        role="slider"
+        aria-label={t('story.player.seek')}
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration)}
+        aria-valuenow={Math.round(currentTime)}
+        aria-valuetext={`${formatTime(currentTime)} / ${formatTime(duration)}`}
+        onPointerDown={(e) => {
+          isScrubbingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          seekToPointer(e);
+        }}
+        onPointerMove={(e) => isScrubbingRef.current && seekToPointer(e)}
+        onPointerUp={() => { isScrubbingRef.current = false; }}
+        onKeyDown={handleKeyDown}
+        className="flex-grow min-w-0 h-10 cursor-pointer rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      {isPartial && (
+        <span className="flex-shrink-0" title={t('story.player.generating')} aria-label={t('story.player.generating')}>
+          <Loader size="small" />
+        </span>
+      )}
+      <span className="text-xs text-gray-400 tabular-nums flex-shrink-0">
+        {formatTime(currentTime)} / {formatTime(duration)}
+      </span>
+      <select
+        value={playbackRate}
+        onChange={(e) => setPlaybackRate(Number(e.target.value))}
+        className="bg-gray-900 border border-gray-600 rounded-md text-xs text-gray-200 py-1 px-1 flex-shrink-0 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        aria-label={t('story.player.speed')}
+      >
+        {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { enhancePrompt, PromptTarget } from '../services/geminiService';
+import { diffWords } from '../utils/textUtils';
+import { Loader } from './Loader';
+import { MagicIcon } from './icons';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface PromptEnhancerProps {
+    prompt: string;
+    onChange: (prompt: string) => void;
+    target: PromptTarget;
+    /** Tab accent used for the focus ring and the accept button. */
+    accent: 'amber' | 'cyan';
+    disabled?: boolean;
+}
+
+interface Suggestion {
+    original: string;
+    enhanced: string;
+}
+
+const ACCENT_CLASSES = {
+    amber: { button: 'bg-amber-600 hover:bg-amber-500', ring: 'focus:ring-amber-500' },
+    cyan: { button: 'bg-cyan-600 hover:bg-cyan-500', ring: 'focus:ring-cyan-500' },
+};
+
+export const PromptEnhancer: React.FC<PromptEnhancerProps> = ({ prompt, onChange, target, accent, disabled }) => {
+    const { t } = useLanguage();
+    const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [isEnhancing, setIsEnhancing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // The last accepted suggestion, kept so it can be reverted until the prompt changes.
+    const [accepted, setAccepted] = useState<Suggestion | null>(null);
+
+    const diff = useMemo(
+        () => suggestion ? diffWords(suggestion.original, suggestion.enhanced) : [],
+        [suggestion]
+    );
+    const classes = ACCENT_CLASSES[accent];
+    const canRevert = !suggestion && accepted !== null && accepted.enhanced === prompt;
+
+    const handleEnhance = async () => {
+        const original = prompt.trim();
+        if (!original) return;
+        setIsEnhancing(true);
+        setError(null);
+        try {
+            const enhanced = await enhancePrompt(original, target);
+            setSuggestion({ original, enhanced });
+            setIsEditing(false);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`${t('enhancer.error.apiFail')} ${errorMessage}`);
+            console.error(err);
+        } finally {
+            setIsEnhancing(false);
+        }
+    };
+
+    const handleAccept = () => {
+        if (!suggestion) return;
+        const enhanced = suggestion.enhanced.trim();
+        if (!enhanced) return;
+        onChange(enhanced);
+        setAccepted({ original: prompt, enhanced });
+        setSuggestion(null);
+        setIsEditing(false);
+    };
+
+    const handleDiscard = () => {
+        setSuggestion(null);
+        setIsEditing(false);
+    };
+
+    const handleRevert = () => {
+        if (!accepted) return;
+        onChange(accepted.original);
+        setAccepted(null);
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-3">
+                <button
+                    onClick={handleEnhance}
+                    disabled={disabled || isEnhancing || !prompt.trim()}
+                    className="flex items-center gap-2 text-sm py-1.5 px-3 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    title={t(`enhancer.button.enhanceTitle.${target}`)}
+                >
+                    {isEnhancing ? <Loader size="small" /> : <MagicIcon className="w-4 h-4" />}
+                    {isEnhancing ? t('enhancer.button.enhancing') : t('enhancer.button.enhance')}
+                </button>
+                {canRevert && (
+                    <button onClick={handleRevert} className="text-sm text-gray-400 hover:text-white underline transition-colors">
+                        {t('enhancer.button.revert')}
+                    </button>
+                )}
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {suggestion && (
+                <div className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 flex flex-col gap-3">
+                    <p className="text-xs font-medium text-gray-400">{t('enhancer.title')}</p>
+                    {isEditing && (
+                        <textarea
+                            value={suggestion.enhanced}
+                            onChange={(e) => setSuggestion({ ...suggestion, enhanced: e.target.value })}
+                            className={`w-full h-28 p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 ${classes.ring} focus:outline-none transition`}
+                            aria-label={t('enhancer.aria.edit')}
+                        />
+                    )}
+                    <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-wrap" aria-label={t('enhancer.aria.diff')}>
+                        {diff.map((part, index) => {
+                            if (part.type === 'added') {
+                                return <ins key={index} className="no-underline bg-green-900/60 text-green-300 rounded">{part.text}</ins>;
+                            }
+                            if (part.type === 'removed') {
+                                return <del key={index} className="bg-red-900/50 text-red-300 rounded">{part.text}</del>;
+                            }
+                            return <span key={index}>{part.text}</span>;
+                        })}
+                    </p>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleAccept}
+                            disabled={!suggestion.enhanced.trim()}
+                            className={`flex-1 text-sm py-2 px-3 rounded-lg text-white font-semibold ${classes.button} disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors`}
+                        >
+                            {t('enhancer.button.accept')}
+                        </button>
+                        <button
+                            onClick={() => setIsEditing(editing => !editing)}
+                            className="flex-1 text-sm py-2 px-3 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors"
+                        >
+                            {isEditing ? t('enhancer.button.doneEditing') : t('enhancer.button.edit')}
+                        </button>
+                        <button
+                            onClick={handleDiscard}
+                            className="flex-1 text-sm py-2 px-3 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors"
+                        >
+                            {t('enhancer.button.discard')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,250 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+    BUILT_IN_TEMPLATES,
+    STYLE_PRESETS,
+    STYLE_VARIABLE,
+    PromptTemplate,
+    extractTemplateVariables,
+    fillTemplate,
+    loadPromptTemplates,
+    savePromptTemplate,
+    deletePromptTemplate,
+    exportPromptTemplates,
+    importPromptTemplates,
+} from '../services/promptTemplates';
+import { downloadBlob } from '../utils/fileUtils';
+import { TrashIcon, DownloadIcon, UploadIcon } from './icons';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface PromptTemplatePanelProps {
+    /** Receives the filled-in prompt. */
+    onApply: (prompt: string) => void;
+    /** Tab accent used for the focus ring and the apply button. */
+    accent: 'amber' | 'cyan' | 'pink';
+    disabled?: boolean;
+}
+
+const ACCENT_CLASSES = {
+    amber: { button: 'bg-amber-600 hover:bg-amber-500', ring: 'focus:ring-amber-500', chip: 'bg-amber-500 border-amber-500 text-white' },
+    cyan: { button: 'bg-cyan-600 hover:bg-cyan-500', ring: 'focus:ring-cyan-500', chip: 'bg-cyan-500 border-cyan-500 text-white' },
+    pink: { button: 'bg-pink-600 hover:bg-pink-500', ring: 'focus:ring-pink-500', chip: 'bg-pink-500 border-pink-500 text-white' },
+};
+
+export const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({ onApply, accent, disabled }) => {
+    const { t } = useLanguage();
+    const [isOpen, setIsOpen] = useState(false);
+    const [templates, setTemplates] = useState<PromptTemplate[]>(loadPromptTemplates);
+    const [selectedId, setSelectedId] = useState(BUILT_IN_TEMPLATES[0].id);
+    const [templateText, setTemplateText] = useState(BUILT_IN_TEMPLATES[0].template);
+    // Values are kept per variable name, so switching templates keeps what was typed.
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [templateName, setTemplateName] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const classes = ACCENT_CLASSES[accent];
+    const inputClasses = `w-full p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 ${classes.ring} focus:outline-none transition disabled:opacity-50`;
+    const labelClasses = "block text-xs font-medium text-gray-400 mb-1";
+
+    const variables = useMemo(() => extractTemplateVariables(templateText), [templateText]);
+    const preview = useMemo(() => fillTemplate(templateText, values), [templateText, values]);
+    const selectedUserTemplate = templates.find(template => template.id === selectedId);
+
+    const templateLabel = (template: PromptTemplate) =>
+        template.builtIn ? t(`templates.builtIn.${template.name}`) : template.name;
+
+    const handleSelectTemplate = (id: string) => {
+        const template = [...BUILT_IN_TEMPLATES, ...templates].find(candidate => candidate.id === id);
+        if (!template) return;
+        setSelectedId(id);
+        setTemplateText(template.template);
+    };
+
+    const handleApplyStyle = (text: string) => {
+        if (!variables.includes(STYLE_VARIABLE)) {
+            setTemplateText(prev => `${prev.trim()}, {${STYLE_VARIABLE}}`);
+        }
+        setValues(prev => ({ ...prev, [STYLE_VARIABLE]: text }));
+    };
+
+    const handleSaveTemplate = () => {
+        const name = templateName.trim();
+        if (!name || !templateText.trim()) return;
+        const updated = savePromptTemplate(name, templateText);
+        setTemplates(updated);
+        setSelectedId(updated[updated.length - 1].id);
+        setTemplateName('');
+    };
+
+    const handleDeleteTemplate = () => {
+        if (!selectedUserTemplate) return;
+        setTemplates(deletePromptTemplate(selectedUserTemplate.id));
+        handleSelectTemplate(BUILT_IN_TEMPLATES[0].id);
+    };
+
+    const handleExport = () => {
+        downloadBlob(new Blob([exportPromptTemplates()], { type: 'application/json' }), 'ai-creative-suite-templates.json');
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setTemplates(importPromptTemplates(await file.text()));
+            setImportError(null);
+        } catch (err) {
+            console.error("Failed to import prompt templates", err);
+            setImportError(t('templates.error.import'));
+        }
+    };
+
+    return (
+        <div className="bg-gray-900/70 rounded-lg border border-gray-700">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="w-full flex items-center justify-between p-3 text-sm font-semibold text-gray-300 hover:text-white transition-colors"
+                aria-expanded={isOpen}
+            >
+                <span>{t('templates.title')}</span>
+                <span className="text-gray-500">{isOpen ? '−' : '+'}</span>
+            </button>
+            {isOpen && (
+                <div className="px-4 pb-4 flex flex-col gap-3">
+                    <div className="flex gap-2 items-end">
+                        <div className="flex-grow">
+                            <label htmlFor={`template-select-${accent}`} className={labelClasses}>{t('templates.label.template')}</label>
+                            <select
+                                id={`template-select-${accent}`}
+                                value={selectedId}
+                                disabled={disabled}
+                                onChange={(e) => handleSelectTemplate(e.target.value)}
+                                className={inputClasses}
+                            >
+                                <optgroup label={t('templates.group.builtIn')}>
+                                    {BUILT_IN_TEMPLATES.map(template => (
+                                        <option key={template.id} value={template.id}>{templateLabel(template)}</option>
+                                    ))}
+                                </optgroup>
+                                {templates.length > 0 && (
+                                    <optgroup label={t('templates.group.mine')}>
+                                        {templates.map(template => (
+                                            <option key={template.id} value={template.id}>{templateLabel(template)}</option>
+                                        ))}
+                                    </optgroup>
+                                )}
+                            </select>
+                        </div>
+                        {selectedUserTemplate && (
+                            <button
+                                onClick={handleDeleteTemplate}
+                                disabled={disabled}
+                                className="p-2 text-gray-400 hover:text-red-400 disabled:opacity-50 transition-colors"
+                                aria-label={t('templates.button.delete')}
+                                title={t('templates.button.delete')}
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+
+                    <div>
+                        <label htmlFor={`template-text-${accent}`} className={labelClasses}>{t('templates.label.text')}</label>
+                        <input
+                            id={`template-text-${accent}`}
+                            type="text"
+                            value={templateText}
+                            disabled={disabled}
+                            onChange={(e) => setTemplateText(e.target.value)}
+                            placeholder={t('templates.placeholder.text')}
+                            className={inputClasses}
+                        />
+                    </div>
+
+                    {variables.length > 0 && (
+                        <div className="grid grid-cols-2 gap-3">
+                            {variables.map(variable => (
+                                <div key={variable}>
+                                    <label htmlFor={`template-var-${accent}-${variable}`} className={labelClasses}>{variable}</label>
+                                    <input
+                                        id={`template-var-${accent}-${variable}`}
+                                        type="text"
+                                        value={values[variable] ?? ''}
+                                        disabled={disabled}
+                                        onChange={(e) => setValues(prev => ({ ...prev, [variable]: e.target.value }))}
+                                        className={inputClasses}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div>
+                        <span className={labelClasses}>{t('templates.label.styles')}</span>
+                        <div className="flex flex-wrap gap-2">
+                            {STYLE_PRESETS.map(preset => (
+                                <button
+                                    key={preset.id}
+                                    onClick={() => handleApplyStyle(preset.text)}
+                                    disabled={disabled}
+                                    title={preset.text}
+                                    className={`text-xs py-1 px-3 rounded-full border transition-colors disabled:opacity-50 ${values[STYLE_VARIABLE] === preset.text ? classes.chip : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-500'}`}
+                                >
+                                    {t(`templates.style.${preset.id}`)}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {preview && <p className="text-sm text-gray-300 bg-gray-950 border border-gray-800 rounded-lg p-2">{preview}</p>}
+
+                    <button
+                        onClick={() => onApply(preview)}
+                        disabled={disabled || !preview}
+                        className={`w-full text-sm py-2 px-3 rounded-lg text-white font-semibold ${classes.button} disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors`}
+                    >
+                        {t('templates.button.apply')}
+                    </button>
+
+                    <div className="flex gap-2 pt-2 border-t border-gray-800">
+                        <input
+                            type="text"
+                            value={templateName}
+                            onChange={(e) => setTemplateName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleSaveTemplate()}
+                            placeholder={t('templates.placeholder.name')}
+                            className={`flex-grow ${inputClasses}`}
+                        />
+                        <button
+                            onClick={handleSaveTemplate}
+                            disabled={!templateName.trim() || !templateText.trim()}
+                            className="text-sm py-2 px-3 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {t('templates.button.save')}
+                        </button>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleExport}
+                            disabled={templates.length === 0}
+                            className="flex-1 flex items-center justify-center gap-2 text-xs py-2 px-3 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            <DownloadIcon className="w-4 h-4" />
+                            {t('templates.button.export')}
+                        </button>
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="flex-1 flex items-center justify-center gap-2 text-xs py-2 px-3 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+                        >
+                            <UploadIcon className="w-4 h-4" />
+                            {t('templates.button.import')}
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                    </div>
+                    {importError && <p className="text-xs text-red-400">{importError}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
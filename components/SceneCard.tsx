@@ -0,0 +1,115 @@
+import React from 'react';
+import { StoryboardScene } from '../services/geminiService';
+import { useVideoJobResult } from '../contexts/VideoJobContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { Loader } from './Loader';
+import { ArrowUpIcon, ArrowDownIcon, ImageIcon, VideoIcon, RefreshIcon, TrashIcon } from './icons';
+
+export interface Scene extends StoryboardScene {
+    id: string;
+    /** Data URL of the generated keyframe. */
+    keyframeUrl?: string;
+    isGeneratingKeyframe?: boolean;
+    clipJobId?: string;
+}
+
+interface SceneCardProps {
+    scene: Scene;
+    index: number;
+    total: number;
+    onVisualPromptChange: (visualPrompt: string) => void;
+    onMove: (direction: -1 | 1) => void;
+    onRemove: () => void;
+    onGenerateKeyframe: () => void;
+    onGenerateClip: () => void;
+}
+
+export const SceneCard: React.FC<SceneCardProps> = ({
+    scene,
+    index,
+    total,
+    onVisualPromptChange,
+    onMove,
+    onRemove,
+    onGenerateKeyframe,
+    onGenerateClip,
+}) => {
+    const { t } = useLanguage();
+    const { job: clipJob, videoUrl: clipUrl } = useVideoJobResult(scene.clipJobId);
+    const isClipRunning = clipJob?.status === 'queued' || clipJob?.status === 'running';
+
+    const iconButtonClasses = "p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors";
+    const actionButtonClasses = "flex-1 text-white font-semibold py-2 px-3 rounded-lg flex items-center justify-center gap-2 transition-colors text-sm disabled:bg-gray-500 disabled:cursor-not-allowed";
+
+    return (
+        <li className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+            <div className="flex justify-between items-start gap-2">
+                <div>
+                    <p className="text-xs font-semibold text-indigo-400 uppercase tracking-wide">{t('storyboard.scene')} {index + 1}</p>
+                    <h3 className="text-lg font-bold text-gray-200">{scene.title}</h3>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                    <button onClick={() => onMove(-1)} disabled={index === 0} className={iconButtonClasses} title={t('storyboard.button.moveUp')} aria-label={t('storyboard.button.moveUp')}>
+                        <ArrowUpIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onMove(1)} disabled={index === total - 1} className={iconButtonClasses} title={t('storyboard.button.moveDown')} aria-label={t('storyboard.button.moveDown')}>
+                        <ArrowDownIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={onRemove} className={`${iconButtonClasses} hover:text-red-400`} title={t('storyboard.button.remove')} aria-label={t('storyboard.button.remove')}>
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <p className="text-sm text-gray-400 italic">{scene.narration}</p>
+
+            <div>
+                <label htmlFor={`scene-prompt-${scene.id}`} className="block text-xs font-medium text-gray-400 mb-1">{t('storyboard.label.visualPrompt')}</label>
+                <textarea
+                    id={`scene-prompt-${scene.id}`}
+                    value={scene.visualPrompt}
+                    onChange={(e) => onVisualPromptChange(e.target.value)}
+                    className="w-full h-20 p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+                />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="flex flex-col gap-2">
+                    <div className="aspect-video bg-gray-950 rounded-lg flex items-center justify-center border border-gray-800 overflow-hidden">
+                        {scene.isGeneratingKeyframe ? <Loader /> : scene.keyframeUrl ? (
+                            <img src={scene.keyframeUrl} alt={scene.title} className="w-full h-full object-cover" />
+                        ) : (
+                            <p className="text-xs text-gray-600">{t('storyboard.placeholder.keyframe')}</p>
+                        )}
+                    </div>
+                    <button onClick={onGenerateKeyframe} disabled={scene.isGeneratingKeyframe || !scene.visualPrompt.trim()} className={`${actionButtonClasses} bg-amber-600 hover:bg-amber-500`}>
+                        {scene.keyframeUrl ? <RefreshIcon className="w-4 h-4" /> : <ImageIcon className="w-4 h-4" />}
+                        <span>{scene.keyframeUrl ? t('storyboard.button.regenerateKeyframe') : t('storyboard.button.generateKeyframe')}</span>
+                    </button>
+                </div>
+                <div className="flex flex-col gap-2">
+                    <div className="aspect-video bg-gray-950 rounded-lg flex items-center justify-center border border-gray-800 overflow-hidden">
+                        {isClipRunning ? (
+                            <div className="w-2/3 flex flex-col items-center gap-2">
+                                <Loader />
+                                <div className="w-full bg-gray-700 rounded-full h-1.5">
+                                    <div className="bg-cyan-500 h-1.5 rounded-full transition-all duration-500" style={{ width: `${Math.round((clipJob?.progress ?? 0) * 100)}%` }}></div>
+                                </div>
+                            </div>
+                        ) : clipUrl ? (
+                            <video src={clipUrl} controls muted loop className="w-full h-full object-contain" />
+                        ) : clipJob?.status === 'failed' ? (
+                            <p className="text-xs text-red-400 p-2 text-center line-clamp-3" title={clipJob.error}>{clipJob.error}</p>
+                        ) : (
+                            <p className="text-xs text-gray-600">{t('storyboard.placeholder.clip')}</p>
+                        )}
+                    </div>
+                    <button onClick={onGenerateClip} disabled={!scene.keyframeUrl || isClipRunning} className={`${actionButtonClasses} bg-cyan-600 hover:bg-cyan-500`} title={scene.keyframeUrl ? undefined : t('storyboard.hint.keyframeFirst')}>
+                        {clipUrl ? <RefreshIcon className="w-4 h-4" /> : <VideoIcon className="w-4 h-4" />}
+                        <span>{clipUrl ? t('storyboard.button.regenerateClip') : t('storyboard.button.generateClip')}</span>
+                    </button>
+                </div>
+            </div>
+        </li>
+    );
+};
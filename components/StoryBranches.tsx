@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { StoryNode, StoryTree, getStoryPath, getStorySiblings } from '../utils/storyTree';
+import { Loader } from './Loader';
+import { DownloadIcon } from './icons';
+import { useLanguage } from '../contexts/LanguageContext';
+
+export type StoryAction = 'continue' | 'rewrite' | 'branch';
+
+interface StoryBranchesProps {
+    tree: StoryTree;
+    currentNodeId: string;
+    onSelect: (nodeId: string) => void;
+    onContinue: (direction: string) => void;
+    onBranch: (direction: string) => void;
+    onRewrite: (tone: string) => void;
+    onExport: () => void;
+    /** The action currently waiting on the model, if any. */
+    pendingAction: StoryAction | null;
+}
+
+const REWRITE_TONES = ['darker', 'lighter', 'suspenseful', 'whimsical', 'poetic', 'humorous'];
+
+export const StoryBranches: React.FC<StoryBranchesProps> = ({
+    tree,
+    currentNodeId,
+    onSelect,
+    onContinue,
+    onBranch,
+    onRewrite,
+    onExport,
+    pendingAction,
+}) => {
+    const { t } = useLanguage();
+    const [direction, setDirection] = useState('');
+    const [tone, setTone] = useState(REWRITE_TONES[0]);
+    const [comparingId, setComparingId] = useState<string | null>(null);
+
+    const path = getStoryPath(tree, currentNodeId);
+    const current = path[path.length - 1];
+    const isBusy = pendingAction !== null;
+
+    const actionButtonClasses = "flex-1 text-white font-semibold py-2 px-3 rounded-lg flex items-center justify-center gap-2 transition-colors text-sm disabled:bg-gray-500 disabled:cursor-not-allowed";
+    const iconButtonClasses = "px-2 rounded-md text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors";
+
+    const describeNode = (node: StoryNode) => {
+        const note = node.kind === 'rewrite' && node.note ? t(`story.branches.tone.${node.note}`) : node.note;
+        return `${t(`story.branches.kind.${node.kind}`)}${note ? ` · ${note}` : ''}`;
+    };
+
+    const renderActionLabel = (action: StoryAction) => (
+        <>
+            {pendingAction === action && <Loader size="small" />}
+            <span>{t(`story.branches.button.${action}`)}</span>
+        </>
+    );
+
+    const renderChapter = (node: StoryNode, index: number) => {
+        const siblings = getStorySiblings(tree, node);
+        const position = siblings.findIndex(sibling => sibling.id === node.id);
+        const isComparing = comparingId === node.id;
+
+        return (
+            <li key={node.id} className="bg-gray-950/60 rounded-lg border border-gray-800 p-3 flex flex-col gap-2">
+                <div className="flex justify-between items-center gap-2">
+                    <button
+                        onClick={() => onSelect(node.id)}
+                        disabled={isBusy || node.id === currentNodeId}
+                        className="text-left text-xs font-semibold text-indigo-400 uppercase tracking-wide hover:text-indigo-300 disabled:cursor-default"
+                        title={node.id === currentNodeId ? undefined : t('story.branches.selectHint')}
+                    >
+                        {t('story.branches.chapter')} {index + 1}
+                        <span className="ml-2 normal-case font-normal text-gray-500">
+                            {describeNode(node)}
+                        </span>
+                    </button>
+                    {siblings.length > 1 && (
+                        <div className="flex items-center gap-1 text-xs text-gray-400 flex-shrink-0">
+                            <button
+                                onClick={() => onSelect(siblings[position - 1].id)}
+                                disabled={isBusy || position === 0}
+                                className={iconButtonClasses}
+                                aria-label={t('story.branches.previousVersion')}
+                            >
+                                ‹
+                            </button>
+                            <span className="tabular-nums">{position + 1} / {siblings.length}</span>
+                            <button
+                                onClick={() => onSelect(siblings[position + 1].id)}
+                                disabled={isBusy || position === siblings.length - 1}
+                                className={iconButtonClasses}
+                                aria-label={t('story.branches.nextVersion')}
+                            >
+                                ›
+                            </button>
+                            <button
+                                onClick={() => setComparingId(isComparing ? null : node.id)}
+                                className="ml-1 text-indigo-400 hover:text-indigo-300"
+                            >
+                                {isComparing ? t('story.branches.closeCompare') : t('story.branches.compare')}
+                            </button>
+                        </div>
+                    )}
+                </div>
+                {isComparing ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        {siblings.map((sibling, siblingIndex) => (
+                            <div
+                                key={sibling.id}
+                                className={`p-2 rounded-lg border text-sm text-gray-300 flex flex-col gap-2 ${sibling.id === node.id ? 'border-indigo-500' : 'border-gray-700'}`}
+                            >
+                                <p className="text-xs text-gray-500">
+                                    {siblingIndex + 1}. {describeNode(sibling)}
+                                </p>
+                                <p className="whitespace-pre-line">{sibling.text}</p>
+                                {sibling.id !== node.id && (
+                                    <button
+                                        onClick={() => {
+                                            onSelect(sibling.id);
+                                            setComparingId(null);
+                                        }}
+                                        disabled={isBusy}
+                                        className="self-start text-xs bg-indigo-600 hover:bg-indigo-500 text-white font-semibold py-1 px-2 rounded-md disabled:bg-gray-500"
+                                    >
+                                        {t('story.branches.pick')}
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-400 line-clamp-2">{node.text}</p>
+                )}
+            </li>
+        );
+    };
+
+    return (
+        <div className="bg-gray-900/70 rounded-xl p-4 border border-gray-700 flex flex-col gap-4">
+            <div className="flex justify-between items-center">
+                <h3 className="text-lg font-bold text-gray-200">{t('story.branches.title')}</h3>
+                <button
+                    onClick={onExport}
+                    className="flex items-center gap-1 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 py-1.5 px-3 rounded-full transition-colors"
+                    title={t('story.branches.exportTitle')}
+                >
+                    <DownloadIcon className="w-4 h-4" />
+                    <span>Markdown</span>
+                </button>
+            </div>
+
+            <ol className="flex flex-col gap-2">
+                {path.map(renderChapter)}
+            </ol>
+
+            <div className="flex flex-col gap-2">
+                <input
+                    type="text"
+                    value={direction}
+                    onChange={(e) => setDirection(e.target.value)}
+                    disabled={isBusy}
+                    placeholder={t('story.branches.placeholder.direction')}
+                    className="w-full p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+                />
+                <div className="flex gap-2">
+                    <button onClick={() => onContinue(direction.trim())} disabled={isBusy} className={`${actionButtonClasses} bg-indigo-600 hover:bg-indigo-500`}>
+                        {renderActionLabel('continue')}
+                    </button>
+                    <button
+                        onClick={() => onBranch(direction.trim())}
+                        disabled={isBusy || !current?.parentId}
+                        className={`${actionButtonClasses} bg-purple-600 hover:bg-purple-500`}
+                        title={t('story.branches.branchHint')}
+                    >
+                        {renderActionLabel('branch')}
+                    </button>
+                </div>
+                <div className="flex gap-2">
+                    <select
+                        value={tone}
+                        onChange={(e) => setTone(e.target.value)}
+                        disabled={isBusy}
+                        className="flex-1 p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        aria-label={t('story.branches.label.tone')}
+                    >
+                        {REWRITE_TONES.map(option => <option key={option} value={option}>{t(`story.branches.tone.${option}`)}</option>)}
+                    </select>
+                    <button onClick={() => onRewrite(tone)} disabled={isBusy} className={`${actionButtonClasses} bg-pink-600 hover:bg-pink-500`}>
+                        {renderActionLabel('rewrite')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,144 +1,320 @@
-
-import React, { useState, useRef, useCallback } from 'react';
-import { generateStoryFromImage, generateSpeechFromText } from '../services/geminiService';
-import { decode, decodeAudioData } from '../utils/audioUtils';
-import { ImageUploader } from './ImageUploader';
-import { StoryDisplay } from './StoryDisplay';
+import React, { useState, useRef, useCallback, useMemo, useEffect } from 'react';
+import { generateStoryFromImages, continueStory, rewriteChapter, getModelName, getSpeechVoices, getMaxSpeechSpeakers } from '../services/geminiService';
+import { saveAsset, getAsset, updateAsset } from '../services/assetStore';
+import { AppError, toAppError } from '../services/errors';
+import { synthesizeSpeech, SPEECH_SAMPLE_RATE } from '../services/speechSynthesis';
+import { encodeWav, encodeCompressedAudio, getSupportedCompressedAudioMimeType } from '../utils/audioUtils';
+import { downloadBlob } from '../utils/fileUtils';
+import { ingestImage } from '../utils/imageIngest';
+import { MultiImageUploader, UploadedImage } from './MultiImageUploader';
+import { StoryDisplay, AudioExportFormat } from './StoryDisplay';
+import { VoiceSettings, VoiceSettingsValue, toSpeechOptions } from './VoiceSettings';
+import { StoryBranches, StoryAction } from './StoryBranches';
+import { StorySettingsPanel } from './StorySettingsPanel';
+import { StorySettingsDraft, loadLastStorySettings, saveLastStorySettings, resolveStorySettings } from '../services/storySettings';
+import { StoryTree, StoryNode, addStoryNode, getStoryPath, getLatestDescendant, storyToMarkdown } from '../utils/storyTree';
+import { detectSpeakers } from '../utils/textUtils';
 import { Loader } from './Loader';
 import { ErrorMessage } from './ErrorMessage';
+import { ApiKeyRequired } from './ApiKeyRequired';
 import { useLanguage } from '../contexts/LanguageContext';
-import { VideoIcon } from './icons';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { SendHandoff } from '../services/handoff';
+import { VideoIcon, FilmIcon } from './icons';
 
 interface StoryCreatorProps {
-    sendPromptToVideoCreator: (prompt: string) => void;
+    sendTo: SendHandoff;
 }
 
-export const StoryCreator: React.FC<StoryCreatorProps> = ({ sendPromptToVideoCreator }) => {
-    const { t } = useLanguage();
-    const [imageFile, setImageFile] = useState<File | null>(null);
-    const [imageUrl, setImageUrl] = useState<string | null>(null);
-    const [story, setStory] = useState<string>('');
+const MAX_STORY_IMAGES = 6;
+
+const DEFAULT_VOICE_SETTINGS: VoiceSettingsValue = {
+    voiceName: '',
+    style: '',
+    isDialogue: false,
+    speakerVoices: {},
+};
+
+export const StoryCreator: React.FC<StoryCreatorProps> = ({ sendTo }) => {
+    const { t, language } = useLanguage();
+    const { status: keyStatus, chooseKey, reportKeyError } = useApiKey();
+    const [images, setImages] = useState<UploadedImage[]>([]);
+    const [storyTree, setStoryTree] = useState<StoryTree>({});
+    const [currentNodeId, setCurrentNodeId] = useState<string | null>(null);
+    const [pendingAction, setPendingAction] = useState<StoryAction | null>(null);
+    const [storySettings, setStorySettings] = useState<StorySettingsDraft>(loadLastStorySettings);
+    const [storyAssetId, setStoryAssetId] = useState<string | null>(null);
     const [isLoadingStory, setIsLoadingStory] = useState<boolean>(false);
     const [isLoadingAudio, setIsLoadingAudio] = useState<boolean>(false);
-    const [error, setError] = useState<string>('');
-
-    const audioContextRef = useRef<AudioContext | null>(null);
-    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
-    const [isPlaying, setIsPlaying] = useState<boolean>(false);
-
-    const handleImageChange = (file: File | null) => {
-        if (file) {
-            setImageFile(file);
-            setImageUrl(URL.createObjectURL(file));
-            setStory('');
-            setError('');
-        }
+    const [exportingFormat, setExportingFormat] = useState<AudioExportFormat | null>(null);
+    const [error, setError] = useState<string | AppError>('');
+
+    const showError = (err: unknown) => {
+        const appError = toAppError(err);
+        setError(appError);
+        reportKeyError(appError);
+    };
+
+    const storyPath = useMemo(() => getStoryPath(storyTree, currentNodeId), [storyTree, currentNodeId]);
+    const story = useMemo(() => storyPath.map(node => node.text.trim()).join('\n\n'), [storyPath]);
+
+    const [voiceSettings, setVoiceSettings] = useState<VoiceSettingsValue>(DEFAULT_VOICE_SETTINGS);
+
+    const voices = getSpeechVoices();
+    const maxSpeakers = getMaxSpeechSpeakers();
+    const speakers = useMemo(() => detectSpeakers(story), [story]);
+    const speechOptions = useMemo(() => toSpeechOptions(voiceSettings, speakers, voices, maxSpeakers), [voiceSettings, speakers, voices, maxSpeakers]);
+
+    // Narration PCM keyed by story text and voice settings, so replaying or exporting a story doesn't hit the TTS model again.
+    const audioCacheRef = useRef<Map<string, Uint8Array>>(new Map());
+    const [narrationAudio, setNarrationAudio] = useState<Uint8Array | null>(null);
+    const [isNarrationPartial, setIsNarrationPartial] = useState<boolean>(false);
+    // Bumped whenever the story or voice changes, so a narration still streaming in for the old one is ignored.
+    const narrationRequestRef = useRef(0);
+
+    const resetNarration = () => {
+        narrationRequestRef.current++;
+        setNarrationAudio(null);
+        setIsNarrationPartial(false);
     };
 
-    const fileToBase64 = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.readAsDataURL(file);
-            reader.onload = () => {
-                const result = reader.result as string;
-                resolve(result.split(',')[1]);
-            };
-            reader.onerror = (error) => reject(error);
-        });
+    const imagesRef = useRef(images);
+    imagesRef.current = images;
+    useEffect(() => {
+        return () => imagesRef.current.forEach(image => URL.revokeObjectURL(image.url));
+    }, []);
+
+    const handleImagesChange = (updated: UploadedImage[]) => {
+        setImages(updated);
+        setError('');
     };
 
     const handleGenerateStory = useCallback(async () => {
-        if (!imageFile) {
+        if (images.length === 0) {
             setError(t('story.error.noImage'));
             return;
         }
 
         setIsLoadingStory(true);
         setError('');
-        setStory('');
-        if (isPlaying) {
-            audioSourceRef.current?.stop();
-            setIsPlaying(false);
-        }
+        setStoryTree({});
+        setCurrentNodeId(null);
+        resetNarration();
 
         try {
-            const base64Image = await fileToBase64(imageFile);
-            const mimeType = imageFile.type;
-            const generatedStory = await generateStoryFromImage(base64Image, mimeType);
-            setStory(generatedStory);
+            const storyImages = await Promise.all(images.map(async image => {
+                const { base64, mimeType } = await ingestImage(image.file);
+                return { base64ImageData: base64, mimeType, caption: image.caption.trim() || undefined };
+            }));
+            const generatedStory = await generateStoryFromImages(storyImages, resolveStorySettings(storySettings, language));
+            const { tree, node } = addStoryNode({}, { parentId: null, kind: 'opening', text: generatedStory });
+            setStoryTree(tree);
+            setCurrentNodeId(node.id);
+            setStoryAssetId(null);
+
+            try {
+                const asset = await saveAsset({ kind: 'story', source: 'story', text: generatedStory, model: getModelName('text') });
+                setStoryAssetId(asset.id);
+            } catch (e) {
+                console.error("Failed to save story to the asset library", e);
+            }
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            setError(`${t('story.error.apiFail')} ${errorMessage}`);
+            showError(err);
             console.error(err);
         } finally {
             setIsLoadingStory(false);
         }
-    }, [imageFile, isPlaying, t]);
+    }, [images, storySettings, language, t]);
+
+    const handleStorySettingsChange = (settings: StorySettingsDraft) => {
+        setStorySettings(settings);
+        saveLastStorySettings(settings);
+    };
+
+    const getNarrationAudio = useCallback(async (onPartialAudio?: (pcm: Uint8Array) => void): Promise<Uint8Array> => {
+        const cacheKey = `${JSON.stringify(speechOptions)}\n${story}`;
+        const cached = audioCacheRef.current.get(cacheKey);
+        if (cached) {
+            return cached;
+        }
+
+        const decodedData = await synthesizeSpeech(story, speechOptions, { onPartialAudio });
+        audioCacheRef.current.set(cacheKey, decodedData);
+        saveAsset({
+            kind: 'audio',
+            source: 'story',
+            blob: new Blob([decodedData], { type: 'audio/pcm' }),
+            sampleRate: SPEECH_SAMPLE_RATE,
+            storyId: storyAssetId ?? undefined,
+            text: story,
+            model: getModelName('speech'),
+        }).catch(e => console.error("Failed to save narration to the asset library", e));
+        return decodedData;
+    }, [story, storyAssetId, speechOptions]);
+
+    const handleVoiceSettingsChange = (settings: VoiceSettingsValue) => {
+        setVoiceSettings(settings);
+        // The loaded narration no longer matches the settings; the read-aloud button regenerates or reuses a cached take.
+        resetNarration();
+    };
 
     const handleReadAloud = useCallback(async () => {
         if (!story) {
             return;
         }
 
-        if (isPlaying) {
-            audioSourceRef.current?.stop();
-            setIsPlaying(false);
+        setIsLoadingAudio(true);
+        setError('');
+
+        const requestId = ++narrationRequestRef.current;
+        const isCurrent = () => requestId === narrationRequestRef.current;
+
+        try {
+            const decodedData = await getNarrationAudio(partial => {
+                if (!isCurrent()) return;
+                setNarrationAudio(partial);
+                setIsNarrationPartial(true);
+            });
+            if (isCurrent()) {
+                setNarrationAudio(decodedData);
+                setIsNarrationPartial(false);
+            }
+        } catch (err) {
+            if (!isCurrent()) return;
+            showError(err);
+            setNarrationAudio(null);
+            setIsNarrationPartial(false);
+            console.error(err);
+        } finally {
+            setIsLoadingAudio(false);
+        }
+    }, [story, getNarrationAudio, t]);
+
+    const handleDownloadAudio = useCallback(async (format: AudioExportFormat) => {
+        if (!story) {
             return;
         }
 
-        setIsLoadingAudio(true);
+        setExportingFormat(format);
         setError('');
 
         try {
-            const base64Audio = await generateSpeechFromText(story);
+            const decodedData = await getNarrationAudio();
+            const blob = format === 'wav'
+                ? encodeWav(decodedData, SPEECH_SAMPLE_RATE, 1)
+                : await encodeCompressedAudio(decodedData, SPEECH_SAMPLE_RATE, 1);
+            const extension = format === 'wav' ? 'wav' : blob.type.split('/')[1].replace('mpeg', 'mp3').replace('mp4', 'm4a');
+            downloadBlob(blob, `ai-creative-suite-story.${extension}`);
+        } catch (err) {
+            showError(err);
+            console.error(err);
+        } finally {
+            setExportingFormat(null);
+        }
+    }, [story, getNarrationAudio, t]);
 
-            if (!audioContextRef.current) {
-                const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-                audioContextRef.current = new AudioContext({ sampleRate: 24000 });
+    /** Keeps the library's copy of the story in step with the manuscript being read. */
+    const saveManuscript = async (manuscript: string) => {
+        if (!storyAssetId) return;
+        try {
+            const asset = await getAsset(storyAssetId);
+            if (asset?.kind === 'story') {
+                await updateAsset({ ...asset, text: manuscript });
             }
-            const context = audioContextRef.current;
-
-            const decodedData = decode(base64Audio);
-            const audioBuffer = await decodeAudioData(decodedData, context, 24000, 1);
-
-            const source = context.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(context.destination);
-            source.start();
-            setIsPlaying(true);
-            audioSourceRef.current = source;
+        } catch (e) {
+            console.error("Failed to update story in the asset library", e);
+        }
+    };
 
-            source.onended = () => {
-                setIsPlaying(false);
-                audioSourceRef.current = null;
-            };
+    const selectStoryNode = (nodeId: string, tree: StoryTree = storyTree) => {
+        setCurrentNodeId(nodeId);
+        resetNarration();
+        saveManuscript(getStoryPath(tree, nodeId).map(node => node.text.trim()).join('\n\n'));
+    };
 
+    const runStoryAction = async (action: StoryAction, write: (chapters: string[]) => Promise<Omit<StoryNode, 'id' | 'createdAt'>>) => {
+        setPendingAction(action);
+        setError('');
+        try {
+            const node = await write(storyPath.map(chapter => chapter.text));
+            const result = addStoryNode(storyTree, node);
+            setStoryTree(result.tree);
+            selectStoryNode(result.node.id, result.tree);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            setError(`${t('story.error.audioFail')} ${errorMessage}`);
+            showError(err);
             console.error(err);
         } finally {
-            setIsLoadingAudio(false);
+            setPendingAction(null);
         }
-    }, [story, isPlaying, t]);
+    };
+
+    const handleContinue = (direction: string) => runStoryAction('continue', async chapters => ({
+        parentId: currentNodeId,
+        kind: 'continuation',
+        text: await continueStory(chapters, direction || undefined, resolveStorySettings(storySettings, language)),
+        note: direction || undefined,
+    }));
+
+    // A branch is an alternative to the current chapter, written from the chapters before it.
+    const handleBranch = (direction: string) => runStoryAction('branch', async chapters => ({
+        parentId: storyPath[storyPath.length - 1].parentId,
+        kind: 'branch',
+        text: await continueStory(chapters.slice(0, -1), direction || undefined, resolveStorySettings(storySettings, language)),
+        note: direction || undefined,
+    }));
+
+    const handleRewrite = (tone: string) => runStoryAction('rewrite', async chapters => ({
+        parentId: storyPath[storyPath.length - 1].parentId,
+        kind: 'rewrite',
+        text: await rewriteChapter(chapters, tone, resolveStorySettings(storySettings, language)),
+        note: tone,
+    }));
+
+    const handleSelectChapter = (nodeId: string) => {
+        // Switching versions brings back the chapters already written on top of that version.
+        const target = storyPath.some(node => node.id === nodeId) ? storyTree[nodeId] : getLatestDescendant(storyTree, nodeId);
+        selectStoryNode(target.id);
+    };
+
+    const handleExportMarkdown = () => {
+        const markdown = storyToMarkdown(storyPath, t('story.branches.markdownTitle'), t('story.branches.chapter'));
+        downloadBlob(new Blob([markdown], { type: 'text/markdown' }), 'ai-creative-suite-story.md');
+    };
 
     const handleSendToVideo = () => {
         if (story) {
-            sendPromptToVideoCreator(story);
+            sendTo('video', { kind: 'story', text: story });
         }
     };
 
+    const handleSendNarrationToStoryboard = () => {
+        if (story && narrationAudio && !isNarrationPartial) {
+            sendTo('storyboard', { kind: 'audio', audio: new Blob([narrationAudio], { type: 'audio/pcm' }), sampleRate: SPEECH_SAMPLE_RATE, text: story });
+        }
+    };
+
+    if (keyStatus !== 'ready') {
+        return <ApiKeyRequired area="story" />;
+    }
+
     return (
         <div className="bg-gray-800/50 rounded-2xl p-6 shadow-2xl border border-gray-700 backdrop-blur-sm">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
                 <div className="flex flex-col gap-4">
-                    <ImageUploader
-                        onImageChange={handleImageChange}
-                        imageUrl={imageUrl}
+                    <MultiImageUploader
+                        images={images}
+                        onChange={handleImagesChange}
+                        maxImages={MAX_STORY_IMAGES}
+                        disabled={isLoadingStory}
+                    />
+                    <StorySettingsPanel
+                        value={storySettings}
+                        onChange={handleStorySettingsChange}
+                        disabled={isLoadingStory || pendingAction !== null}
                     />
                     <button
                         onClick={handleGenerateStory}
-                        disabled={!imageFile || isLoadingStory}
+                        disabled={images.length === 0 || isLoadingStory}
                         className="w-full bg-indigo-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-indigo-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-300 ease-in-out flex items-center justify-center gap-2 shadow-lg"
                     >
                         {isLoadingStory ? <Loader /> : t('story.button.weave')}
@@ -153,6 +329,36 @@ export const StoryCreator: React.FC<StoryCreatorProps> = ({ sendPromptToVideoCre
                             <span>{t('story.button.sendToVideo')}</span>
                         </button>
                     )}
+                    {story && !isLoadingStory && (
+                        <button
+                            onClick={() => sendTo('storyboard', { kind: 'story', text: story })}
+                            className="w-full bg-indigo-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-indigo-500 transition-all duration-300 ease-in-out flex items-center justify-center gap-2 shadow-lg"
+                            title={t('story.button.sendToStoryboardTitle')}
+                        >
+                            <FilmIcon className="w-5 h-5" />
+                            <span>{t('story.button.sendToStoryboard')}</span>
+                        </button>
+                    )}
+                    {story && narrationAudio && !isNarrationPartial && !isLoadingStory && (
+                        <button
+                            onClick={handleSendNarrationToStoryboard}
+                            className="w-full bg-indigo-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-indigo-500 transition-all duration-300 ease-in-out flex items-center justify-center gap-2 shadow-lg"
+                            title={t('story.button.sendNarrationToStoryboardTitle')}
+                        >
+                            <FilmIcon className="w-5 h-5" />
+                            <span>{t('story.button.sendNarrationToStoryboard')}</span>
+                        </button>
+                    )}
+                    {story && !isLoadingStory && (
+                        <VoiceSettings
+                            value={voiceSettings}
+                            onChange={handleVoiceSettingsChange}
+                            voices={voices}
+                            speakers={speakers}
+                            maxSpeakers={maxSpeakers}
+                            disabled={isLoadingAudio || exportingFormat !== null}
+                        />
+                    )}
                 </div>
 
                 <div className="flex flex-col h-full">
@@ -165,13 +371,32 @@ export const StoryCreator: React.FC<StoryCreatorProps> = ({ sendPromptToVideoCre
                         <StoryDisplay
                             story={story}
                             onReadAloud={handleReadAloud}
-                            isPlaying={isPlaying}
+                            narrationAudio={narrationAudio}
+                            narrationSampleRate={SPEECH_SAMPLE_RATE}
+                            isNarrationPartial={isNarrationPartial}
                             isLoadingAudio={isLoadingAudio}
+                            onDownloadAudio={handleDownloadAudio}
+                            exportingFormat={exportingFormat}
+                            canExportCompressed={!!getSupportedCompressedAudioMimeType()}
                         />
                     )}
+                    {currentNodeId && !isLoadingStory && (
+                        <div className="mt-4">
+                            <StoryBranches
+                                tree={storyTree}
+                                currentNodeId={currentNodeId}
+                                onSelect={handleSelectChapter}
+                                onContinue={handleContinue}
+                                onBranch={handleBranch}
+                                onRewrite={handleRewrite}
+                                onExport={handleExportMarkdown}
+                                pendingAction={pendingAction}
+                            />
+                        </div>
+                    )}
                 </div>
             </div>
-             {error && <div className="mt-6"><ErrorMessage message={error} /></div>}
+             {error && <div className="mt-6"><ErrorMessage message={error} onSelectKey={chooseKey} /></div>}
         </div>
     );
 };
@@ -1,43 +1,122 @@
 
-import React from 'react';
-import { SpeakerIcon, StopIcon } from './icons';
+import React, { useState, useEffect, useMemo } from 'react';
+import { SpeakerIcon, DownloadIcon } from './icons';
 import { Loader } from './Loader';
+import { NarrationPlayer } from './NarrationPlayer';
+import { splitIntoSentences, estimateSentenceStartTimes } from '../utils/textUtils';
 import { useLanguage } from '../contexts/LanguageContext';
 
+export type AudioExportFormat = 'wav' | 'compressed';
+
 interface StoryDisplayProps {
   story: string;
   onReadAloud: () => void;
-  isPlaying: boolean;
+  /** Narration PCM once it has been generated; the player replaces the read-aloud button. */
+  narrationAudio: Uint8Array | null;
+  narrationSampleRate: number;
+  /** True while narrationAudio is only the opening of a narration still being generated. */
+  isNarrationPartial: boolean;
   isLoadingAudio: boolean;
+  onDownloadAudio: (format: AudioExportFormat) => void;
+  exportingFormat: AudioExportFormat | null;
+  canExportCompressed: boolean;
 }
 
-export const StoryDisplay: React.FC<StoryDisplayProps> = ({ story, onReadAloud, isPlaying, isLoadingAudio }) => {
+export const StoryDisplay: React.FC<StoryDisplayProps> = ({
+  story,
+  onReadAloud,
+  narrationAudio,
+  narrationSampleRate,
+  isNarrationPartial,
+  isLoadingAudio,
+  onDownloadAudio,
+  exportingFormat,
+  canExportCompressed,
+}) => {
   const { t } = useLanguage();
+  const [activeSentence, setActiveSentence] = useState(-1);
+  const isBusy = isLoadingAudio || exportingFormat !== null;
+
+  const sentences = useMemo(() => splitIntoSentences(story), [story]);
+
+  useEffect(() => {
+    setActiveSentence(-1);
+  }, [story, narrationAudio]);
+
+  const handleTimeUpdate = (seconds: number, duration: number) => {
+    if (seconds <= 0) {
+      setActiveSentence(-1);
+      return;
+    }
+    const starts = estimateSentenceStartTimes(sentences, duration);
+    let index = starts.length - 1;
+    while (index > 0 && starts[index] > seconds) index--;
+    setActiveSentence(index);
+  };
+  const downloadButtonClasses = "flex items-center gap-1 h-10 px-3 rounded-full bg-gray-700 text-gray-200 text-xs font-semibold hover:bg-gray-600 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors";
 
   return (
     <div className="bg-gray-900/70 rounded-xl p-6 flex flex-col h-full border border-gray-700">
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-xl font-bold text-gray-200">{t('story.title')}</h2>
         {story && (
-          <button
-            onClick={onReadAloud}
-            disabled={isLoadingAudio}
-            className="flex items-center justify-center w-10 h-10 rounded-full bg-indigo-600 text-white hover:bg-indigo-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
-            aria-label={isPlaying ? t('story.aria.stop') : t('story.aria.read')}
-          >
-            {isLoadingAudio ? (
-              <Loader size="small" />
-            ) : isPlaying ? (
-              <StopIcon className="w-5 h-5" />
-            ) : (
-              <SpeakerIcon className="w-5 h-5" />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onDownloadAudio('wav')}
+              disabled={isBusy}
+              className={downloadButtonClasses}
+              title={t('story.button.downloadWavTitle')}
+            >
+              {exportingFormat === 'wav' ? <Loader size="small" /> : <DownloadIcon className="w-4 h-4" />}
+              <span>WAV</span>
+            </button>
+            {canExportCompressed && (
+              <button
+                onClick={() => onDownloadAudio('compressed')}
+                disabled={isBusy}
+                className={downloadButtonClasses}
+                title={t('story.button.downloadCompressedTitle')}
+              >
+                {exportingFormat === 'compressed' ? <Loader size="small" /> : <DownloadIcon className="w-4 h-4" />}
+                <span>{t('story.button.downloadCompressed')}</span>
+              </button>
+            )}
+            {!narrationAudio && (
+              <button
+                onClick={onReadAloud}
+                disabled={isBusy}
+                className="flex items-center justify-center w-10 h-10 rounded-full bg-indigo-600 text-white hover:bg-indigo-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                aria-label={t('story.aria.read')}
+              >
+                {isLoadingAudio ? <Loader size="small" /> : <SpeakerIcon className="w-5 h-5" />}
+              </button>
             )}
-          </button>
+          </div>
         )}
       </div>
+      {story && narrationAudio && (
+        <div className="mb-4">
+          <NarrationPlayer
+            audio={narrationAudio}
+            sampleRate={narrationSampleRate}
+            autoPlay
+            isPartial={isNarrationPartial}
+            onTimeUpdate={handleTimeUpdate}
+          />
+        </div>
+      )}
       <div className="prose prose-invert prose-p:text-gray-300 flex-grow overflow-y-auto min-h-[150px] pr-2 custom-scrollbar">
         {story ? (
-          <p>{story}</p>
+          <p className="whitespace-pre-line">
+            {sentences.map((sentence, index) => (
+              <span
+                key={index}
+                className={index === activeSentence ? 'bg-indigo-500/30 text-white rounded transition-colors' : 'transition-colors'}
+              >
+                {sentence}
+              </span>
+            ))}
+          </p>
         ) : (
           <div className="flex items-center justify-center h-full text-gray-500">
             <p>{t('story.placeholder')}</p>
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import {
+    STORY_GENRES,
+    STORY_TONES,
+    STORY_LENGTHS,
+    STORY_POINTS_OF_VIEW,
+    STORY_AGE_RATINGS,
+    STORY_OUTPUT_LANGUAGES,
+    StorySettingsDraft,
+    StoryPreset,
+    loadStoryPresets,
+    saveStoryPreset,
+    deleteStoryPreset,
+} from '../services/storySettings';
+import { TrashIcon } from './icons';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface StorySettingsPanelProps {
+    value: StorySettingsDraft;
+    onChange: (value: StorySettingsDraft) => void;
+    disabled?: boolean;
+}
+
+export const StorySettingsPanel: React.FC<StorySettingsPanelProps> = ({ value, onChange, disabled }) => {
+    const { t, language } = useLanguage();
+    const [presets, setPresets] = useState<StoryPreset[]>(loadStoryPresets);
+    const [presetName, setPresetName] = useState('');
+
+    const selectClasses = "w-full p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none transition disabled:opacity-50";
+    const labelClasses = "block text-xs font-medium text-gray-400 mb-1";
+
+    /** Renders a select for an optional setting, where the empty option leaves the choice to the model. */
+    const renderSelect = <K extends keyof StorySettingsDraft>(
+        field: K,
+        options: readonly string[],
+        optional: boolean,
+    ) => (
+        <div>
+            <label htmlFor={`story-setting-${field}`} className={labelClasses}>{t(`storySettings.label.${field}`)}</label>
+            <select
+                id={`story-setting-${field}`}
+                value={(value[field] as string | undefined) ?? ''}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...value, [field]: e.target.value || undefined })}
+                className={selectClasses}
+            >
+                {optional && <option value="">{t('storySettings.option.any')}</option>}
+                {options.map(option => (
+                    <option key={option} value={option}>{t(`storySettings.${field}.${option}`)}</option>
+                ))}
+            </select>
+        </div>
+    );
+
+    const handleSavePreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        setPresets(saveStoryPreset(name, value));
+        setPresetName('');
+    };
+
+    return (
+        <div className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 flex flex-col gap-3">
+            <h3 className="text-sm font-semibold text-gray-300">{t('storySettings.title')}</h3>
+
+            <div className="grid grid-cols-2 gap-3">
+                {renderSelect('genre', STORY_GENRES, true)}
+                {renderSelect('tone', STORY_TONES, true)}
+                {renderSelect('length', STORY_LENGTHS, false)}
+                {renderSelect('pointOfView', STORY_POINTS_OF_VIEW, true)}
+                {renderSelect('ageRating', STORY_AGE_RATINGS, false)}
+                <div>
+                    <label htmlFor="story-setting-outputLanguage" className={labelClasses}>{t('storySettings.label.outputLanguage')}</label>
+                    <select
+                        id="story-setting-outputLanguage"
+                        value={value.outputLanguage ?? ''}
+                        disabled={disabled}
+                        onChange={(e) => onChange({ ...value, outputLanguage: e.target.value || null })}
+                        className={selectClasses}
+                    >
+                        <option value="">{t('storySettings.option.interfaceLanguage')} ({t(`storySettings.outputLanguage.${language}`)})</option>
+                        {STORY_OUTPUT_LANGUAGES.map(code => (
+                            <option key={code} value={code}>{t(`storySettings.outputLanguage.${code}`)}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-2 pt-2 border-t border-gray-800">
+                <span className={labelClasses}>{t('storySettings.label.presets')}</span>
+                {presets.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {presets.map(preset => (
+                            <span key={preset.id} className="flex items-center gap-1 bg-gray-800 border border-gray-700 rounded-full pl-3 pr-1 py-0.5 text-xs text-gray-300">
+                                <button onClick={() => onChange(preset.settings)} disabled={disabled} className="hover:text-white" title={t('storySettings.button.applyPreset')}>
+                                    {preset.name}
+                                </button>
+                                <button
+                                    onClick={() => setPresets(deleteStoryPreset(preset.id))}
+                                    className="p-1 text-gray-500 hover:text-red-400"
+                                    aria-label={t('storySettings.button.deletePreset')}
+                                >
+                                    <TrashIcon className="w-3 h-3" />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+                        placeholder={t('storySettings.placeholder.presetName')}
+                        className="flex-grow p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+                    />
+                    <button
+                        onClick={handleSavePreset}
+                        disabled={!presetName.trim()}
+                        className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold py-2 px-3 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {t('storySettings.button.savePreset')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { generateStoryboard, generateImageFromPrompt, getModelName } from '../services/geminiService';
+import { saveAsset } from '../services/assetStore';
+import { AppError, toAppError } from '../services/errors';
+import { useVideoJobs } from '../contexts/VideoJobContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { useUsage } from '../contexts/UsageContext';
+import { Handoff } from '../services/handoff';
+import { Loader } from './Loader';
+import { ErrorMessage } from './ErrorMessage';
+import { ApiKeyRequired } from './ApiKeyRequired';
+import { SceneCard, Scene } from './SceneCard';
+import { StoryboardExporter, StoryNarration } from './StoryboardExporter';
+import { FilmIcon, ImageIcon } from './icons';
+
+interface StoryboardCreatorProps {
+    /** A story sent from another tab. */
+    handoff?: Handoff | null;
+}
+
+const MIN_SCENES = 3;
+const MAX_SCENES = 8;
+const CLIP_DURATION_SECONDS = 5;
+
+const createSceneId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Splits a data URL into the base64 payload and MIME type expected by generateVideo. */
+const parseDataUrl = (dataUrl: string) => {
+    const [header, base64] = dataUrl.split(',');
+    const mimeType = header.match(/data:(.*?);base64/)?.[1] ?? 'image/png';
+    return { base64, mimeType };
+};
+
+export const StoryboardCreator: React.FC<StoryboardCreatorProps> = ({ handoff }) => {
+    const { t } = useLanguage();
+    const { status: keyStatus, chooseKey, reportKeyError } = useApiKey();
+    const { enqueue } = useVideoJobs();
+    const { confirmVideoBudget } = useUsage();
+    const [story, setStory] = useState('');
+    const [sceneCount, setSceneCount] = useState(4);
+    const [scenes, setScenes] = useState<Scene[]>([]);
+    const [isPlanning, setIsPlanning] = useState(false);
+    const [error, setError] = useState<string | AppError>('');
+    const [storyNarration, setStoryNarration] = useState<StoryNarration | null>(null);
+
+    const showError = (err: unknown) => {
+        const appError = toAppError(err);
+        setError(appError);
+        reportKeyError(appError);
+    };
+
+    useEffect(() => {
+        if (handoff?.payload.kind === 'story') {
+            setStory(handoff.payload.text);
+            setStoryNarration(null);
+        } else if (handoff?.payload.kind === 'prompt') {
+            setStory(handoff.payload.prompt);
+            setStoryNarration(null);
+        } else if (handoff?.payload.kind === 'audio') {
+            const { audio, sampleRate, text } = handoff.payload;
+            if (text) setStory(text);
+            setStoryNarration({ audio, sampleRate });
+        }
+    }, [handoff]);
+
+    const updateScene = (id: string, changes: Partial<Scene>) => {
+        setScenes(prev => prev.map(scene => (scene.id === id ? { ...scene, ...changes } : scene)));
+    };
+
+    const handlePlan = async () => {
+        if (!story.trim()) {
+            setError(t('storyboard.error.noStory'));
+            return;
+        }
+        setIsPlanning(true);
+        setError('');
+        try {
+            const planned = await generateStoryboard(story, sceneCount);
+            setScenes(planned.map(scene => ({ ...scene, id: createSceneId() })));
+        } catch (err) {
+            showError(err);
+            console.error(err);
+        } finally {
+            setIsPlanning(false);
+        }
+    };
+
+    const handleMove = (index: number, direction: -1 | 1) => {
+        setScenes(prev => {
+            const target = index + direction;
+            if (target < 0 || target >= prev.length) return prev;
+            const reordered = [...prev];
+            [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+            return reordered;
+        });
+    };
+
+    const handleRemove = (id: string) => {
+        setScenes(prev => prev.filter(scene => scene.id !== id));
+    };
+
+    const handleGenerateKeyframe = async (scene: Scene) => {
+        updateScene(scene.id, { isGeneratingKeyframe: true });
+        setError('');
+        try {
+            const [{ dataUrl: keyframeUrl }] = await generateImageFromPrompt(scene.visualPrompt, '16:9');
+            updateScene(scene.id, { keyframeUrl });
+            try {
+                const blob = await (await fetch(keyframeUrl)).blob();
+                await saveAsset({ kind: 'image', source: 'storyboard', blob, prompt: scene.visualPrompt, aspectRatio: '16:9', model: getModelName('image') });
+            } catch (e) {
+                console.error("Failed to save keyframe to the asset library", e);
+            }
+        } catch (err) {
+            showError(err);
+            console.error(err);
+        } finally {
+            updateScene(scene.id, { isGeneratingKeyframe: false });
+        }
+    };
+
+    const handleGenerateAllKeyframes = async () => {
+        await Promise.all(scenes.filter(scene => !scene.keyframeUrl).map(handleGenerateKeyframe));
+    };
+
+    const handleGenerateClip = async (scene: Scene) => {
+        if (!scene.keyframeUrl || !confirmVideoBudget(CLIP_DURATION_SECONDS)) return;
+        setError('');
+        try {
+            const { base64, mimeType } = parseDataUrl(scene.keyframeUrl);
+            const clipJobId = await enqueue({
+                prompt: scene.visualPrompt,
+                aspectRatio: '16:9',
+                duration: CLIP_DURATION_SECONDS,
+                allowPeople: true,
+                base64Image: base64,
+                mimeType,
+            }, 'storyboard');
+            updateScene(scene.id, { clipJobId });
+        } catch (err) {
+            showError(err);
+            console.error(err);
+        }
+    };
+
+    const isGeneratingKeyframes = scenes.some(scene => scene.isGeneratingKeyframe);
+
+    if (keyStatus !== 'ready') {
+        return <ApiKeyRequired area="storyboard" />;
+    }
+
+    return (
+        <div className="bg-gray-800/50 rounded-2xl p-6 shadow-2xl border border-gray-700 backdrop-blur-sm flex flex-col gap-6">
+            <div className="text-center">
+                <h2 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-indigo-400 to-purple-500">
+                    {t('storyboard.title')}
+                </h2>
+                <p className="mt-2 text-gray-400">{t('storyboard.description')}</p>
+            </div>
+
+            <div className="flex flex-col gap-4">
+                <textarea
+                    value={story}
+                    onChange={(e) => setStory(e.target.value)}
+                    placeholder={t('storyboard.placeholder.story')}
+                    className="w-full h-36 p-3 bg-gray-900/70 border border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+                />
+                <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+                    <div className="flex-grow">
+                        <label htmlFor="scene-count-slider" className="block text-sm font-medium text-gray-300 mb-2">
+                            {t('storyboard.label.sceneCount')} <span className="font-bold text-indigo-400">{sceneCount}</span>
+                        </label>
+                        <input
+                            id="scene-count-slider"
+                            type="range"
+                            min={MIN_SCENES}
+                            max={MAX_SCENES}
+                            step="1"
+                            value={sceneCount}
+                            onChange={(e) => setSceneCount(Number(e.target.value))}
+                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                    <button
+                        onClick={handlePlan}
+                        disabled={isPlanning || !story.trim()}
+                        className="sm:w-64 bg-indigo-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-indigo-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-300 ease-in-out flex items-center justify-center gap-2 shadow-lg"
+                    >
+                        {isPlanning ? <Loader /> : <FilmIcon className="w-5 h-5" />}
+                        {isPlanning ? t('storyboard.button.planning') : t('storyboard.button.plan')}
+                    </button>
+                </div>
+            </div>
+
+            {error && <ErrorMessage message={error} onSelectKey={chooseKey} />}
+
+            {scenes.length > 0 ? (
+                <>
+                    <div className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 flex justify-center">
+                        <button
+                            onClick={handleGenerateAllKeyframes}
+                            disabled={isGeneratingKeyframes || scenes.every(scene => scene.keyframeUrl)}
+                            className="bg-amber-600 hover:bg-amber-500 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 transition-colors text-sm disabled:bg-gray-500 disabled:cursor-not-allowed"
+                        >
+                            <ImageIcon className="w-4 h-4" />
+                            <span>{t('storyboard.button.generateAllKeyframes')}</span>
+                        </button>
+                    </div>
+                    <ol className="space-y-4">
+                        {scenes.map((scene, index) => (
+                            <SceneCard
+                                key={scene.id}
+                                scene={scene}
+                                index={index}
+                                total={scenes.length}
+                                onVisualPromptChange={(visualPrompt) => updateScene(scene.id, { visualPrompt })}
+                                onMove={(direction) => handleMove(index, direction)}
+                                onRemove={() => handleRemove(scene.id)}
+                                onGenerateKeyframe={() => handleGenerateKeyframe(scene)}
+                                onGenerateClip={() => handleGenerateClip(scene)}
+                            />
+                        ))}
+                    </ol>
+                    <StoryboardExporter scenes={scenes} storyNarration={storyNarration} />
+                </>
+            ) : !isPlanning && (
+                <div className="text-center text-gray-500 py-10">
+                    <p>{t('storyboard.placeholder.scenes')}</p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { getAsset, saveAsset } from '../services/assetStore';
+import { synthesizeSpeech, SPEECH_SAMPLE_RATE } from '../services/speechSynthesis';
+import { useVideoJobs } from '../contexts/VideoJobContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { AppError, toAppError } from '../services/errors';
+import { composeVideo, getSupportedExportMimeType, CompositionClip } from '../utils/videoComposer';
+import { decodeAudioData } from '../utils/audioUtils';
+import { Loader } from './Loader';
+import { ErrorMessage } from './ErrorMessage';
+import { FilmIcon } from './icons';
+import { Scene } from './SceneCard';
+
+/** Narration recorded in the story tab, used instead of reading the scenes aloud. */
+export interface StoryNarration {
+    /** Raw 16-bit mono PCM. */
+    audio: Blob;
+    sampleRate: number;
+}
+
+interface StoryboardExporterProps {
+    scenes: Scene[];
+    storyNarration?: StoryNarration | null;
+}
+
+type ExportStage = 'idle' | 'narrating' | 'recording';
+
+export const StoryboardExporter: React.FC<StoryboardExporterProps> = ({ scenes, storyNarration }) => {
+    const { t } = useLanguage();
+    const { chooseKey, reportKeyError } = useApiKey();
+    const { jobs } = useVideoJobs();
+    const [title, setTitle] = useState('');
+    const [sceneTitleCards, setSceneTitleCards] = useState(false);
+    const [crossfadeSeconds, setCrossfadeSeconds] = useState(0.5);
+    const [includeNarration, setIncludeNarration] = useState(true);
+    const [stage, setStage] = useState<ExportStage>('idle');
+    const [progress, setProgress] = useState(0);
+    const [error, setError] = useState<string | AppError>('');
+    const [exportUrl, setExportUrl] = useState<string | null>(null);
+    const [exportMimeType, setExportMimeType] = useState('');
+    const abortRef = useRef<AbortController | null>(null);
+
+    const isSupported = !!getSupportedExportMimeType();
+    const readyScenes = scenes.filter(scene => {
+        const job = jobs.find(j => j.id === scene.clipJobId);
+        return job?.status === 'succeeded' && job.assetId;
+    });
+
+    useEffect(() => {
+        return () => abortRef.current?.abort();
+    }, []);
+
+    useEffect(() => {
+        return () => {
+            if (exportUrl) URL.revokeObjectURL(exportUrl);
+        };
+    }, [exportUrl]);
+
+    const handleExport = async () => {
+        setError('');
+        setProgress(0);
+        setExportUrl(null);
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        try {
+            const clips: CompositionClip[] = [];
+            for (const scene of readyScenes) {
+                const assetId = jobs.find(j => j.id === scene.clipJobId)?.assetId;
+                const asset = assetId ? await getAsset(assetId) : undefined;
+                if (asset?.kind === 'video') {
+                    clips.push({ blob: asset.blob, title: scene.title });
+                }
+            }
+
+            let narration: AudioBuffer | undefined;
+            if (includeNarration) {
+                setStage('narrating');
+                const pcm = storyNarration
+                    ? new Uint8Array(await storyNarration.audio.arrayBuffer())
+                    : await synthesizeSpeech(readyScenes.map(scene => scene.narration).join('\n\n'), undefined, { signal: controller.signal });
+                const sampleRate = storyNarration?.sampleRate ?? SPEECH_SAMPLE_RATE;
+                const context = new AudioContext({ sampleRate });
+                narration = await decodeAudioData(pcm, context, sampleRate, 1);
+                await context.close();
+            }
+
+            setStage('recording');
+            const blob = await composeVideo({
+                clips,
+                title,
+                sceneTitleCards,
+                crossfadeSeconds,
+                narration,
+                onProgress: setProgress,
+                signal: controller.signal,
+            });
+            setExportMimeType(blob.type);
+            setExportUrl(URL.createObjectURL(blob));
+
+            saveAsset({ kind: 'video', source: 'storyboard', blob, prompt: title || readyScenes.map(scene => scene.title).join(' / ') })
+                .catch(e => console.error("Failed to save the exported film to the asset library", e));
+        } catch (err) {
+            if (err instanceof DOMException && err.name === 'AbortError') return;
+            const appError = toAppError(err);
+            setError(appError);
+            reportKeyError(appError);
+            console.error(err);
+        } finally {
+            abortRef.current = null;
+            setStage('idle');
+        }
+    };
+
+    const handleCancel = () => {
+        abortRef.current?.abort();
+    };
+
+    const fileExtension = exportMimeType.includes('mp4') ? 'mp4' : 'webm';
+    const isExporting = stage !== 'idle';
+
+    return (
+        <div className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+            <div className="flex items-center gap-2">
+                <FilmIcon className="w-5 h-5 text-indigo-400" />
+                <h3 className="text-lg font-bold text-gray-200">{t('storyboard.export.title')}</h3>
+            </div>
+            <p className="text-sm text-gray-400">
+                {t('storyboard.export.description')} ({readyScenes.length} / {scenes.length})
+            </p>
+
+            {!isSupported ? (
+                <p className="text-sm text-yellow-300">{t('storyboard.export.unsupported')}</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <input
+                            type="text"
+                            value={title}
+                            onChange={(e) => setTitle(e.target.value)}
+                            placeholder={t('storyboard.export.placeholder.title')}
+                            disabled={isExporting}
+                            className="w-full p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+                        />
+                        <div>
+                            <label htmlFor="crossfade-slider" className="block text-xs font-medium text-gray-400 mb-1">
+                                {t('storyboard.export.label.crossfade')} <span className="font-bold text-indigo-400">{crossfadeSeconds.toFixed(1)}s</span>
+                            </label>
+                            <input
+                                id="crossfade-slider"
+                                type="range"
+                                min="0"
+                                max="1.5"
+                                step="0.1"
+                                value={crossfadeSeconds}
+                                disabled={isExporting}
+                                onChange={(e) => setCrossfadeSeconds(Number(e.target.value))}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                            />
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input type="checkbox" checked={sceneTitleCards} disabled={isExporting} onChange={(e) => setSceneTitleCards(e.target.checked)} />
+                            {t('storyboard.export.label.sceneTitles')}
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input type="checkbox" checked={includeNarration} disabled={isExporting} onChange={(e) => setIncludeNarration(e.target.checked)} />
+                            {t(storyNarration ? 'storyboard.export.label.storyNarration' : 'storyboard.export.label.narration')}
+                        </label>
+                    </div>
+
+                    {isExporting ? (
+                        <div className="flex flex-col gap-2 items-center">
+                            <div className="flex items-center gap-3 text-sm text-gray-300">
+                                <Loader size="small" />
+                                <span>{stage === 'narrating' ? t('storyboard.export.narrating') : t('storyboard.export.recording')}</span>
+                            </div>
+                            {stage === 'recording' && (
+                                <div className="w-full bg-gray-700 rounded-full h-2">
+                                    <div className="bg-indigo-500 h-2 rounded-full transition-all duration-300" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+                                </div>
+                            )}
+                            <p className="text-xs text-gray-500">{t('storyboard.export.keepVisible')}</p>
+                            <button onClick={handleCancel} className="text-xs text-gray-400 hover:text-red-400 transition-colors">{t('jobs.button.cancel')}</button>
+                        </div>
+                    ) : (
+                        <button
+                            onClick={handleExport}
+                            disabled={readyScenes.length === 0}
+                            className="w-full bg-indigo-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-indigo-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-300 ease-in-out flex items-center justify-center gap-2 shadow-lg"
+                        >
+                            <FilmIcon className="w-5 h-5" />
+                            <span>{t('storyboard.export.button')}</span>
+                        </button>
+                    )}
+
+                    {exportUrl && (
+                        <div className="flex flex-col gap-2">
+                            <video src={exportUrl} controls className="w-full rounded-lg bg-black" />
+                            <a
+                                href={exportUrl}
+                                download={`ai-creative-suite-storyboard.${fileExtension}`}
+                                className="text-center bg-emerald-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-emerald-500 transition-colors"
+                            >
+                                {t('storyboard.export.download')} ({fileExtension.toUpperCase()})
+                            </a>
+                        </div>
+                    )}
+                </>
+            )}
+
+            {error && <ErrorMessage message={error} onRetry={handleExport} onSelectKey={chooseKey} />}
+        </div>
+    );
+};
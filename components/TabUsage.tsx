@@ -0,0 +1,32 @@
+import React from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useUsage } from '../contexts/UsageContext';
+import type { AssetSource } from '../services/assetStore';
+import { formatCost, getPeriodStart, summarizeUsage } from '../services/usageSettings';
+import { ChartIcon } from './icons';
+
+interface TabUsageProps {
+    source: AssetSource;
+}
+
+/** A one-line summary of what a tab has used today and this month, linking to the usage view. */
+export const TabUsage: React.FC<TabUsageProps> = ({ source }) => {
+    const { t, language } = useLanguage();
+    const { entries, prices, openUsage } = useUsage();
+    const tabEntries = entries.filter(entry => entry.source === source);
+    const todayStart = getPeriodStart('daily');
+    const monthStart = getPeriodStart('monthly');
+    const today = summarizeUsage(tabEntries.filter(entry => entry.timestamp >= todayStart), prices);
+    const month = summarizeUsage(tabEntries.filter(entry => entry.timestamp >= monthStart), prices);
+
+    return (
+        <div className="flex flex-wrap items-center justify-end gap-x-3 gap-y-1 text-xs text-gray-400">
+            <ChartIcon className="w-4 h-4" />
+            <span>{t('usage.period.today')}: <span className="text-gray-200">{formatCost(today.cost, language)}</span> ({today.calls} {t('usage.calls')})</span>
+            <span>{t('usage.period.month')}: <span className="text-gray-200">{formatCost(month.cost, language)}</span> ({month.calls} {t('usage.calls')})</span>
+            <button onClick={() => openUsage(source)} className="font-semibold text-emerald-300 hover:underline">
+                {t('usage.details')}
+            </button>
+        </div>
+    );
+};
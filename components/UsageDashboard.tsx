@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useUsage } from '../contexts/UsageContext';
+import type { AssetSource } from '../services/assetStore';
+import {
+    BUDGET_MODES,
+    BUDGET_PERIODS,
+    BudgetMode,
+    BudgetPeriod,
+    UsageTotals,
+    formatCost,
+    getPeriodStart,
+    groupUsage,
+    summarizeUsage,
+} from '../services/usageSettings';
+import { UsagePriceTable } from './UsagePriceTable';
+import { ChartIcon } from './icons';
+
+const SOURCES: AssetSource[] = ['story', 'storyboard', 'idea', 'image', 'video'];
+
+/** A dialog with usage totals, estimated costs, budgets and prices. */
+export const UsageDashboard: React.FC = () => {
+    const { t, language } = useLanguage();
+    const { entries, prices, budget, setBudget, clearUsage, isUsageOpen, usageFilter, openUsage, closeUsage } = useUsage();
+    const [draftLimits, setDraftLimits] = useState<Record<BudgetPeriod, string>>({ daily: '', monthly: '' });
+    const [draftMode, setDraftMode] = useState<BudgetMode>('warn');
+
+    useEffect(() => {
+        if (!isUsageOpen) return;
+        setDraftLimits({ daily: budget.daily?.toString() ?? '', monthly: budget.monthly?.toString() ?? '' });
+        setDraftMode(budget.mode);
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') closeUsage();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isUsageOpen, budget, closeUsage]);
+
+    if (!isUsageOpen) return null;
+
+    const cost = (value: number) => formatCost(value, language);
+    const number = (value: number) => value.toLocaleString(language);
+    const todayStart = getPeriodStart('daily');
+    const monthStart = getPeriodStart('monthly');
+    const filtered = usageFilter ? entries.filter(entry => entry.source === usageFilter) : entries;
+    const totals: { key: string; totals: UsageTotals }[] = [
+        { key: 'today', totals: summarizeUsage(filtered.filter(entry => entry.timestamp >= todayStart), prices) },
+        { key: 'month', totals: summarizeUsage(filtered.filter(entry => entry.timestamp >= monthStart), prices) },
+        { key: 'allTime', totals: summarizeUsage(filtered, prices) },
+    ];
+    // Budgets cover every tab, so their progress ignores the filter.
+    const spentBy: Record<BudgetPeriod, number> = {
+        daily: summarizeUsage(entries.filter(entry => entry.timestamp >= todayStart), prices).cost,
+        monthly: summarizeUsage(entries.filter(entry => entry.timestamp >= monthStart), prices).cost,
+    };
+    const byTab = groupUsage(filtered, prices, entry => entry.source ?? 'none');
+    const byModel = groupUsage(filtered, prices, entry => entry.model);
+
+    const handleSaveBudget = (e: React.FormEvent) => {
+        e.preventDefault();
+        const toLimit = (value: string) => {
+            const parsed = parseFloat(value);
+            return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+        };
+        setBudget({ daily: toLimit(draftLimits.daily), monthly: toLimit(draftLimits.monthly), mode: draftMode });
+    };
+
+    const handleClear = () => {
+        if (!window.confirm(t('usage.confirmClear'))) return;
+        clearUsage();
+    };
+
+    const buttonClasses = "text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors";
+    const sectionClasses = "bg-gray-900/70 p-4 rounded-lg border border-gray-700 flex flex-col gap-3";
+    const headingClasses = "text-sm font-semibold text-gray-200";
+
+    const renderBreakdown = (rows: [string, UsageTotals][], labelOf: (group: string) => string) => (
+        <ul className="flex flex-col gap-1 text-sm">
+            {rows.map(([group, groupTotals]) => (
+                <li key={group} className="flex justify-between gap-3 text-gray-300">
+                    <span className="truncate">{labelOf(group)}</span>
+                    <span className="shrink-0 text-gray-400">
+                        {number(groupTotals.calls)} {t('usage.calls')} · <span className="text-white font-semibold">{cost(groupTotals.cost)}</span>
+                    </span>
+                </li>
+            ))}
+        </ul>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" onClick={closeUsage}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="usage-dashboard-title"
+                className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-gray-800 rounded-2xl p-6 shadow-2xl border border-gray-700 flex flex-col gap-4"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                        <ChartIcon className="w-6 h-6 text-emerald-400" />
+                        <h2 id="usage-dashboard-title" className="text-xl font-bold text-white">{t('usage.title')}</h2>
+                    </div>
+                    <select
+                        value={usageFilter ?? ''}
+                        onChange={e => openUsage((e.target.value || undefined) as AssetSource | undefined)}
+                        className="p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+                        aria-label={t('usage.filter')}
+                    >
+                        <option value="">{t('usage.filter.all')}</option>
+                        {SOURCES.map(source => <option key={source} value={source}>{t(`tab.${source}`)}</option>)}
+                    </select>
+                </div>
+
+                <p className="text-xs text-gray-400">{t('usage.disclaimer')}</p>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {totals.map(({ key, totals: periodTotals }) => (
+                        <div key={key} className="bg-gray-900/70 p-4 rounded-lg border border-gray-700">
+                            <p className="text-xs uppercase tracking-wide text-gray-400">{t(`usage.period.${key}`)}</p>
+                            <p className="text-2xl font-bold text-white mt-1">{cost(periodTotals.cost)}</p>
+                            <dl className="mt-2 grid grid-cols-2 gap-x-2 text-xs text-gray-400">
+                                <dt>{t('usage.calls')}</dt><dd className="text-right text-gray-200">{number(periodTotals.calls)}</dd>
+                                <dt>{t('usage.tokens')}</dt><dd className="text-right text-gray-200">{number(periodTotals.inputTokens + periodTotals.outputTokens)}</dd>
+                                <dt>{t('usage.images')}</dt><dd className="text-right text-gray-200">{number(periodTotals.images)}</dd>
+                                <dt>{t('usage.videoSeconds')}</dt><dd className="text-right text-gray-200">{number(periodTotals.videoSeconds)}</dd>
+                            </dl>
+                        </div>
+                    ))}
+                </div>
+
+                <form onSubmit={handleSaveBudget} className={sectionClasses}>
+                    <h3 className={headingClasses}>{t('usage.budget.title')}</h3>
+                    {BUDGET_PERIODS.map(period => {
+                        const limit = budget[period];
+                        const ratio = limit ? Math.min(spentBy[period] / limit, 1) : 0;
+                        return (
+                            <div key={period} className="flex flex-col gap-1">
+                                <div className="flex items-center justify-between gap-3">
+                                    <label htmlFor={`usage-budget-${period}`} className="text-sm text-gray-300">{t(`usage.budget.${period}`)}</label>
+                                    <input
+                                        id={`usage-budget-${period}`}
+                                        type="number"
+                                        min={0}
+                                        step="any"
+                                        value={draftLimits[period]}
+                                        onChange={e => setDraftLimits(prev => ({ ...prev, [period]: e.target.value }))}
+                                        placeholder={t('usage.budget.none')}
+                                        className="w-32 p-1.5 text-sm text-right bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+                                    />
+                                </div>
+                                {limit !== null && (
+                                    <>
+                                        <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                                            <div
+                                                className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-emerald-500'}`}
+                                                style={{ width: `${ratio * 100}%` }}
+                                            />
+                                        </div>
+                                        <p className="text-xs text-gray-400 text-right">{cost(spentBy[period])} / {cost(limit)}</p>
+                                    </>
+                                )}
+                            </div>
+                        );
+                    })}
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            {t('usage.budget.mode')}
+                            <select
+                                value={draftMode}
+                                onChange={e => setDraftMode(e.target.value as BudgetMode)}
+                                className="p-1.5 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+                            >
+                                {BUDGET_MODES.map(mode => <option key={mode} value={mode}>{t(`usage.budget.mode.${mode}`)}</option>)}
+                            </select>
+                        </label>
+                        <button type="submit" className={`${buttonClasses} bg-emerald-600 text-white hover:bg-emerald-500`}>
+                            {t('usage.budget.save')}
+                        </button>
+                    </div>
+                    <p className="text-xs text-gray-400">{t('usage.budget.note')}</p>
+                </form>
+
+                {filtered.length === 0 ? (
+                    <p className="text-sm text-gray-400 text-center py-2">{t('usage.empty')}</p>
+                ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {!usageFilter && (
+                            <div className={sectionClasses}>
+                                <h3 className={headingClasses}>{t('usage.byTab')}</h3>
+                                {renderBreakdown(byTab, group => (group === 'none' ? t('usage.noTab') : t(`tab.${group}`)))}
+                            </div>
+                        )}
+                        <div className={sectionClasses}>
+                            <h3 className={headingClasses}>{t('usage.byModel')}</h3>
+                            {renderBreakdown(byModel, group => group)}
+                        </div>
+                    </div>
+                )}
+
+                <details className={sectionClasses}>
+                    <summary className={`${headingClasses} cursor-pointer`}>{t('usage.prices.title')}</summary>
+                    <p className="text-xs text-gray-400">{t('usage.prices.note')}</p>
+                    <UsagePriceTable />
+                </details>
+
+                <div className="flex justify-between gap-2">
+                    {entries.length > 0 ? (
+                        <button onClick={handleClear} className={`${buttonClasses} bg-red-900/60 text-red-200 hover:bg-red-800/60`}>
+                            {t('usage.clear')}
+                        </button>
+                    ) : <span />}
+                    <button onClick={closeUsage} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+                        {t('usage.close')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useUsage } from '../contexts/UsageContext';
+import { ModelPrice, PRICE_FIELDS, PriceTable } from '../services/usageSettings';
+
+type DraftTable = Record<string, Record<keyof ModelPrice, string>>;
+
+const toDraft = (prices: PriceTable, models: string[]): DraftTable =>
+    Object.fromEntries(models.map(model => [
+        model,
+        Object.fromEntries(PRICE_FIELDS.map(field => [field, prices[model]?.[field]?.toString() ?? ''])) as Record<keyof ModelPrice, string>,
+    ]));
+
+const toPrice = (draft: Record<keyof ModelPrice, string>): ModelPrice => {
+    const price: ModelPrice = {};
+    PRICE_FIELDS.forEach(field => {
+        const value = parseFloat(draft[field]);
+        if (Number.isFinite(value) && value >= 0) price[field] = value;
+    });
+    return price;
+};
+
+/** Edits the per-model prices that usage costs are estimated with. */
+export const UsagePriceTable: React.FC = () => {
+    const { t } = useLanguage();
+    const { entries, prices, setModelPrice, resetPrices } = useUsage();
+    // Models that were used but have no price yet are listed too, so they can be priced.
+    const models = Array.from(new Set([...Object.keys(prices), ...entries.map(entry => entry.model)])).sort();
+    const [draft, setDraft] = useState<DraftTable>(() => toDraft(prices, models));
+    const modelKey = models.join('|');
+
+    useEffect(() => {
+        setDraft(toDraft(prices, models));
+    }, [prices, modelKey]);
+
+    const updateField = (model: string, field: keyof ModelPrice, value: string) => {
+        setDraft(prev => ({ ...prev, [model]: { ...prev[model], [field]: value } }));
+    };
+
+    const handleSave = () => {
+        models.forEach(model => {
+            const price = toPrice(draft[model]);
+            if (JSON.stringify(price) !== JSON.stringify(prices[model] ?? {})) {
+                setModelPrice(model, price);
+            }
+        });
+    };
+
+    const inputClasses = "w-20 p-1 text-xs text-right bg-gray-950 border border-gray-700 rounded focus:ring-2 focus:ring-emerald-500 focus:outline-none";
+    const buttonClasses = "text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors";
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs text-gray-300">
+                    <thead>
+                        <tr className="text-gray-400">
+                            <th className="text-left font-medium py-1 pr-2">{t('usage.prices.model')}</th>
+                            {PRICE_FIELDS.map(field => (
+                                <th key={field} className="text-right font-medium py-1 px-1">{t(`usage.prices.${field}`)}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {models.map(model => (
+                            <tr key={model} className="border-t border-gray-700/60">
+                                <td className="py-1 pr-2 font-mono break-all">{model}</td>
+                                {PRICE_FIELDS.map(field => (
+                                    <td key={field} className="py-1 px-1 text-right">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step="any"
+                                            value={draft[model]?.[field] ?? ''}
+                                            onChange={e => updateField(model, field, e.target.value)}
+                                            className={inputClasses}
+                                            aria-label={`${model} ${t(`usage.prices.${field}`)}`}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="flex justify-end gap-2">
+                <button onClick={resetPrices} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+                    {t('usage.prices.reset')}
+                </button>
+                <button onClick={handleSave} className={`${buttonClasses} bg-emerald-600 text-white hover:bg-emerald-500`}>
+                    {t('usage.prices.save')}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,17 +1,29 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { generateVideo } from '../services/geminiService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useVideoJobs, useVideoJobResult } from '../contexts/VideoJobContext';
 import { ImageUploader } from './ImageUploader';
+import { ImageCropper } from './ImageCropper';
+import { PromptEnhancer } from './PromptEnhancer';
+import { PromptTemplatePanel } from './PromptTemplatePanel';
 import { Loader } from './Loader';
 import { ErrorMessage } from './ErrorMessage';
-import { InfoIcon, VideoIcon, ShareIcon } from './icons';
+import { ApiKeyRequired } from './ApiKeyRequired';
+import { VideoIcon, ShareIcon, TrashIcon } from './icons';
 import { useLanguage } from '../contexts/LanguageContext';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import { useUsage } from '../contexts/UsageContext';
+import { Handoff, handoffImageToFile } from '../services/handoff';
+import { AppError, SafetyError, createAppError, toAppError } from '../services/errors';
+import { rephrasePromptSafely } from '../services/geminiService';
+import { CropRect, ImageIngestError, centeredCrop, ingestImage, loadOrientedImage, parseAspectRatio, validateImageFile } from '../utils/imageIngest';
 
 interface VideoCreatorProps {
-    initialPrompt?: string;
+    /** A prompt, story or starting image sent from another tab. */
+    handoff?: Handoff | null;
 }
 
-export const VideoCreator: React.FC<VideoCreatorProps> = ({ initialPrompt }) => {
+export const VideoCreator: React.FC<VideoCreatorProps> = ({ handoff }) => {
     const { t } = useLanguage();
+    const { jobs, enqueue, cancel } = useVideoJobs();
 
     const LOADING_MESSAGES = useMemo(() => [
         t('video.loading.1'),
@@ -21,57 +33,47 @@ export const VideoCreator: React.FC<VideoCreatorProps> = ({ initialPrompt }) =>
         t('video.loading.5'),
     ], [t]);
 
-    const [isKeyReady, setIsKeyReady] = useState(false);
-    const [isCheckingKey, setIsCheckingKey] = useState(true);
+    const { status: keyStatus, chooseKey, reportKeyError } = useApiKey();
+    const { confirmVideoBudget } = useUsage();
     const [canShare, setCanShare] = useState(false);
 
     const [prompt, setPrompt] = useState('');
     const [aspectRatio, setAspectRatio] = useState<'16:9' | '16:10'>('16:9');
     const [imageFile, setImageFile] = useState<File | null>(null);
     const [imageUrl, setImageUrl] = useState<string | null>(null);
+    const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+    const [crop, setCrop] = useState<CropRect | null>(null);
 
     const [duration, setDuration] = useState(8);
     const [allowPeople, setAllowPeople] = useState(true);
 
-    const [isLoading, setIsLoading] = useState(false);
+    const [isStarting, setIsStarting] = useState(false);
+    // Default to the most recent job started here, so returning to the tab shows it.
+    const [currentJobId, setCurrentJobId] = useState<string | null>(() => jobs.find(job => job.source === 'video')?.id ?? null);
+    const { job: currentJob, videoUrl } = useVideoJobResult(currentJobId);
+    const isLoading = isStarting || currentJob?.status === 'queued' || currentJob?.status === 'running';
     const [loadingMessage, setLoadingMessage] = useState(LOADING_MESSAGES[0]);
-    const [error, setError] = useState('');
-    const [allowHtmlError, setAllowHtmlError] = useState(false);
-    const [videoUrl, setVideoUrl] = useState<string | null>(null);
-    
-    useEffect(() => {
-        if (typeof navigator.share === 'function') {
-            setCanShare(true);
-        }
-    }, []);
+    const [error, setError] = useState<string | AppError>('');
 
+    const showError = (appError: AppError) => {
+        setError(appError);
+        reportKeyError(appError);
+    };
+
+    // A failed job may be an old one shown again on return, so it does not question the current key.
     useEffect(() => {
-        if (initialPrompt) {
-            setPrompt(initialPrompt);
+        if (currentJob?.status === 'failed' && currentJob.error) {
+            setError(createAppError(currentJob.errorKind ?? 'unknown', currentJob.error));
         }
-    }, [initialPrompt]);
+    }, [currentJob?.status, currentJob?.error, currentJob?.errorKind]);
 
-    const checkKey = useCallback(async () => {
-        if (window.aistudio) {
-            setIsCheckingKey(true);
-            try {
-                const keyExists = await window.aistudio.hasSelectedApiKey();
-                setIsKeyReady(keyExists);
-            } catch (e) {
-                console.error("Error checking for API key:", e);
-                setIsKeyReady(false);
-            } finally {
-                setIsCheckingKey(false);
-            }
-        } else {
-            setTimeout(checkKey, 100);
+    
+    useEffect(() => {
+        if (typeof navigator.share === 'function') {
+            setCanShare(true);
         }
     }, []);
 
-    useEffect(() => {
-        checkKey();
-    }, [checkKey]);
-    
     useEffect(() => {
         let interval: number;
         if (isLoading) {
@@ -85,62 +87,103 @@ export const VideoCreator: React.FC<VideoCreatorProps> = ({ initialPrompt }) =>
         return () => window.clearInterval(interval);
     }, [isLoading, LOADING_MESSAGES]);
 
-    const handleSelectKey = async () => {
-        await window.aistudio.openSelectKey();
-        setIsKeyReady(true);
-    };
+    useEffect(() => {
+        return () => {
+            if (imageUrl) URL.revokeObjectURL(imageUrl);
+        };
+    }, [imageUrl]);
 
-    const handleImageChange = (file: File | null) => {
+    // The video keeps the chosen aspect ratio, so the starting image is cropped to match it.
+    useEffect(() => {
+        if (imageSize) {
+            setCrop(centeredCrop(imageSize.width, imageSize.height, parseAspectRatio(aspectRatio)));
+        }
+    }, [imageSize, aspectRatio]);
+
+    const handleImageChange = async (file: File | null) => {
         setImageFile(file);
         setImageUrl(file ? URL.createObjectURL(file) : null);
+        setImageSize(null);
+        setCrop(null);
+        if (!file) return;
+        try {
+            const bitmap = await loadOrientedImage(file);
+            setImageSize({ width: bitmap.width, height: bitmap.height });
+            bitmap.close();
+        } catch (err) {
+            setImageFile(null);
+            setImageUrl(null);
+            setError(t('uploader.error.decodeFailed'));
+            console.error(err);
+        }
     };
-    
-    const fileToBase64 = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.readAsDataURL(file);
-          reader.onload = () => resolve((reader.result as string).split(',')[1]);
-          reader.onerror = (error) => reject(error);
-        });
-    };
+
+    useEffect(() => {
+        const payload = handoff?.payload;
+        if (payload?.kind === 'prompt') {
+            setPrompt(payload.prompt);
+        } else if (payload?.kind === 'story') {
+            setPrompt(payload.text);
+        } else if (payload?.kind === 'image') {
+            if (payload.prompt) setPrompt(payload.prompt);
+            const file = handoffImageToFile(payload.image);
+            try {
+                validateImageFile(file);
+            } catch (err) {
+                const reason = err instanceof ImageIngestError ? err.reason : 'unsupportedType';
+                setError(t(`uploader.error.${reason}`));
+                return;
+            }
+            handleImageChange(file);
+        }
+    }, [handoff]);
 
     const handleGenerate = async () => {
         if (!prompt && !imageFile) {
             setError(t('video.error.noPromptOrImage'));
-            setAllowHtmlError(false);
             return;
         }
-        setIsLoading(true);
+        if (!confirmVideoBudget(duration)) return;
+        setIsStarting(true);
         setError('');
-        setAllowHtmlError(false);
-        setVideoUrl(null);
+        setCurrentJobId(null);
         
         try {
             let base64Image: string | undefined = undefined;
             let mimeType: string | undefined = undefined;
             if (imageFile) {
-                base64Image = await fileToBase64(imageFile);
-                mimeType = imageFile.type;
+                const prepared = await ingestImage(imageFile, { crop: crop ?? undefined });
+                base64Image = prepared.base64;
+                mimeType = prepared.mimeType;
             }
 
-            const url = await generateVideo(prompt, aspectRatio, duration, allowPeople, base64Image, mimeType);
-            setVideoUrl(url);
+            const jobId = await enqueue({ prompt, aspectRatio, duration, allowPeople, base64Image, mimeType }, 'video');
+            setCurrentJobId(jobId);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            setAllowHtmlError(false);
-            
-            if (errorMessage.includes('RESOURCE_EXHAUSTED') || errorMessage.includes('429')) {
-                setError(t('video.error.quotaExceeded'));
-                setAllowHtmlError(true);
-            } else if (errorMessage.includes('Requested entity was not found')) {
-                setError(t('video.error.invalidKey'));
-                setIsKeyReady(false);
+            if (err instanceof ImageIngestError) {
+                setError(t(`uploader.error.${err.reason}`));
             } else {
-                setError(`${t('video.error.apiFail')} ${errorMessage}`);
+                showError(toAppError(err));
             }
             console.error(err);
         } finally {
-            setIsLoading(false);
+            setIsStarting(false);
+        }
+    };
+
+    const handleRephrase = async () => {
+        if (!(error instanceof SafetyError)) return;
+        try {
+            setPrompt(await rephrasePromptSafely(prompt, 'video', error.categories));
+            setError('');
+        } catch (err) {
+            showError(toAppError(err));
+        }
+    };
+
+    const handleCancel = () => {
+        if (currentJobId) {
+            cancel(currentJobId);
         }
     };
 
@@ -163,32 +206,11 @@ export const VideoCreator: React.FC<VideoCreatorProps> = ({ initialPrompt }) =>
         } catch (error) {
             console.error('Error sharing video:', error);
             setError(t('share.error'));
-            setAllowHtmlError(false);
         }
     };
     
-    if (isCheckingKey) {
-        return (
-            <div className="flex justify-center items-center p-8 bg-gray-800/50 rounded-2xl">
-                <Loader />
-                <p className="ml-4 text-gray-400">{t('video.apiKey.checking')}</p>
-            </div>
-        )
-    }
-
-    if (!isKeyReady) {
-        return (
-            <div className="bg-yellow-900/30 border border-yellow-700 text-yellow-200 px-6 py-5 rounded-2xl relative text-center">
-                <InfoIcon className="w-8 h-8 mx-auto mb-3 text-yellow-400" />
-                <h3 className="font-bold text-xl mb-2 text-white">{t('video.apiKey.required.title')}</h3>
-                <p className="text-yellow-300/80 mb-4">
-                    {t('video.apiKey.required.description')} <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-yellow-300 font-semibold hover:underline">{t('video.apiKey.required.docsLink')}</a>.
-                </p>
-                <button onClick={handleSelectKey} className="bg-yellow-500 text-yellow-950 font-bold py-2 px-5 rounded-lg hover:bg-yellow-400 transition-colors">
-                    {t('video.apiKey.required.button')}
-                </button>
-            </div>
-        );
+    if (keyStatus !== 'ready') {
+        return <ApiKeyRequired area="video" docsUrl="https://ai.google.dev/gemini-api/docs/billing" />;
     }
     
     return (
@@ -226,7 +248,31 @@ export const VideoCreator: React.FC<VideoCreatorProps> = ({ initialPrompt }) =>
                         placeholder={t('video.placeholder.prompt')}
                         className="w-full h-28 p-3 bg-gray-900/70 border border-gray-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:outline-none transition"
                     />
-                    <ImageUploader onImageChange={handleImageChange} imageUrl={imageUrl} />
+                    <PromptEnhancer prompt={prompt} onChange={setPrompt} target="video" accent="cyan" disabled={isLoading} />
+                    <PromptTemplatePanel onApply={setPrompt} accent="cyan" disabled={isLoading} />
+                    {imageFile && imageUrl && imageSize && crop ? (
+                        <div className="flex flex-col gap-2">
+                            <ImageCropper
+                                imageUrl={imageUrl}
+                                imageWidth={imageSize.width}
+                                imageHeight={imageSize.height}
+                                aspectRatio={parseAspectRatio(aspectRatio)}
+                                crop={crop}
+                                onChange={setCrop}
+                                disabled={isLoading}
+                            />
+                            <button
+                                onClick={() => handleImageChange(null)}
+                                disabled={isLoading}
+                                className="self-start flex items-center gap-1 text-xs text-gray-400 hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                <TrashIcon className="w-3.5 h-3.5" />
+                                {t('uploader.remove')}
+                            </button>
+                        </div>
+                    ) : (
+                        <ImageUploader onImageChange={handleImageChange} imageUrl={imageUrl} />
+                    )}
                 </div>
                 <div className="flex flex-col gap-4">
                     <div>
@@ -285,9 +331,20 @@ export const VideoCreator: React.FC<VideoCreatorProps> = ({ initialPrompt }) =>
 
                     <div className="w-full aspect-video bg-gray-900/70 rounded-xl flex items-center justify-center border border-gray-700 relative mt-2">
                         {isLoading ? (
-                            <div className="text-center p-4">
+                            <div className="text-center p-4 w-full">
                                 <Loader />
                                 <p className="mt-4 text-gray-400 animate-pulse">{loadingMessage}</p>
+                                {currentJob?.status === 'running' && (
+                                    <div className="mt-4 mx-auto w-2/3 flex flex-col gap-2 items-center">
+                                        <div className="w-full bg-gray-700 rounded-full h-1.5">
+                                            <div className="bg-cyan-500 h-1.5 rounded-full transition-all duration-500" style={{ width: `${Math.round(currentJob.progress * 100)}%` }}></div>
+                                        </div>
+                                        <p className="text-xs text-gray-500">{t('video.backgroundHint')}</p>
+                                        <button onClick={handleCancel} className="text-xs text-gray-400 hover:text-red-400 transition-colors">
+                                            {t('jobs.button.cancel')}
+                                        </button>
+                                    </div>
+                                )}
                             </div>
                         ) : videoUrl ? (
                             <>
@@ -308,7 +365,7 @@ export const VideoCreator: React.FC<VideoCreatorProps> = ({ initialPrompt }) =>
                     </div>
                 </div>
             </div>
-            {error && <ErrorMessage message={error} allowHtml={allowHtmlError} />}
+            {error && <ErrorMessage message={error} onRetry={handleGenerate} onSelectKey={chooseKey} onRephrase={prompt.trim() ? handleRephrase : undefined} />}
         </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,123 @@
+import React from 'react';
+import { SpeechOptions, SpeechVoice } from '../services/geminiService';
+import { useLanguage } from '../contexts/LanguageContext';
+
+export interface VoiceSettingsValue {
+    /** Empty to use the provider's default voice. */
+    voiceName: string;
+    style: string;
+    isDialogue: boolean;
+    /** Voice chosen for each detected speaker, keyed by speaker name. */
+    speakerVoices: Record<string, string>;
+}
+
+interface VoiceSettingsProps {
+    value: VoiceSettingsValue;
+    onChange: (value: VoiceSettingsValue) => void;
+    voices: SpeechVoice[];
+    /** Speaker names detected in the story's "Name: line" dialogue. */
+    speakers: string[];
+    maxSpeakers: number;
+    disabled?: boolean;
+}
+
+/**
+ * Resolves the settings into provider speech options, falling back to
+ * alternating voices for speakers the user hasn't assigned yet, and to a
+ * single voice when the script has more speakers than the provider supports.
+ */
+export const toSpeechOptions = (value: VoiceSettingsValue, speakers: string[], voices: SpeechVoice[], maxSpeakers: number): SpeechOptions => {
+    const style = value.style.trim() || undefined;
+    if (!value.isDialogue || speakers.length < 2 || speakers.length > maxSpeakers) {
+        return { voiceName: value.voiceName || undefined, style };
+    }
+    return {
+        style,
+        speakers: speakers.map((speaker, index) => ({
+            speaker,
+            voiceName: value.speakerVoices[speaker] ?? voices[index % voices.length].name,
+        })),
+    };
+};
+
+export const VoiceSettings: React.FC<VoiceSettingsProps> = ({ value, onChange, voices, speakers, maxSpeakers, disabled }) => {
+    const { t } = useLanguage();
+    const canUseDialogue = speakers.length >= 2 && speakers.length <= maxSpeakers;
+    const options = toSpeechOptions(value, speakers, voices, maxSpeakers);
+
+    const selectClasses = "w-full p-2 text-sm bg-gray-950 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none transition disabled:opacity-50";
+
+    const renderVoiceOptions = () => voices.map(voice => (
+        <option key={voice.name} value={voice.name}>
+            {voice.name} — {t(`tts.trait.${voice.trait}`)}
+        </option>
+    ));
+
+    return (
+        <div className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 flex flex-col gap-3">
+            <h3 className="text-sm font-semibold text-gray-300">{t('tts.title')}</h3>
+
+            {value.isDialogue && canUseDialogue ? (
+                <div className="flex flex-col gap-2">
+                    {options.speakers?.map(({ speaker, voiceName }) => (
+                        <div key={speaker} className="grid grid-cols-3 items-center gap-2">
+                            <span className="text-sm text-gray-300 truncate" title={speaker}>{speaker}</span>
+                            <select
+                                value={voiceName}
+                                disabled={disabled}
+                                onChange={(e) => onChange({ ...value, speakerVoices: { ...value.speakerVoices, [speaker]: e.target.value } })}
+                                className={`${selectClasses} col-span-2`}
+                                aria-label={`${t('tts.label.voice')}: ${speaker}`}
+                            >
+                                {renderVoiceOptions()}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div>
+                    <label htmlFor="tts-voice" className="block text-xs font-medium text-gray-400 mb-1">{t('tts.label.voice')}</label>
+                    <select
+                        id="tts-voice"
+                        value={value.voiceName || voices[0]?.name}
+                        disabled={disabled}
+                        onChange={(e) => onChange({ ...value, voiceName: e.target.value })}
+                        className={selectClasses}
+                    >
+                        {renderVoiceOptions()}
+                    </select>
+                </div>
+            )}
+
+            <div>
+                <label htmlFor="tts-style" className="block text-xs font-medium text-gray-400 mb-1">{t('tts.label.style')}</label>
+                <input
+                    id="tts-style"
+                    type="text"
+                    value={value.style}
+                    disabled={disabled}
+                    onChange={(e) => onChange({ ...value, style: e.target.value })}
+                    placeholder={t('tts.placeholder.style')}
+                    className={selectClasses}
+                />
+            </div>
+
+            <label className={`flex items-center gap-2 text-sm ${canUseDialogue ? 'text-gray-300' : 'text-gray-500'}`}>
+                <input
+                    type="checkbox"
+                    checked={value.isDialogue && canUseDialogue}
+                    disabled={disabled || !canUseDialogue}
+                    onChange={(e) => onChange({ ...value, isDialogue: e.target.checked })}
+                />
+                {t('tts.label.dialogue')}
+            </label>
+            {!canUseDialogue && (
+                <p className="text-xs text-gray-500">
+                    {speakers.length > maxSpeakers
+                        ? `${t('tts.hint.tooManySpeakers')} (${speakers.length} / ${maxSpeakers})`
+                        : t('tts.hint.dialogueFormat')}
+                </p>
+            )}
+        </div>
+    );
+};
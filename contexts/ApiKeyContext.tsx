@@ -0,0 +1,162 @@
+import React, { createContext, useState, useContext, useEffect, useCallback, ReactNode } from 'react';
+import {
+  ApiKeySource,
+  clearStoredApiKey,
+  getEnvApiKey,
+  isPlausibleApiKey,
+  loadStoredApiKey,
+  saveStoredApiKey,
+  waitForAiStudio,
+} from '../services/apiKeys';
+import { isApiKeyRequired, validateApiKey } from '../services/geminiService';
+import { AppError, InvalidInputError } from '../services/errors';
+
+export type ApiKeyStatus = 'checking' | 'ready' | 'missing';
+
+interface ApiKeyContextType {
+  status: ApiKeyStatus;
+  /** Where the key in use comes from; null while checking, when missing or when no key is needed. */
+  source: ApiKeySource | null;
+  /** The key the user entered, if any. */
+  storedKey: string | null;
+  isAiStudioAvailable: boolean;
+  hasEnvKey: boolean;
+  /** Why the last key was rejected, shown on the key screens. */
+  keyError: AppError | null;
+  selectAiStudioKey: () => Promise<void>;
+  /** Opens AI Studio's key picker when available, otherwise the key settings. */
+  chooseKey: () => void;
+  /** Validates a key with the API and stores it; throws an AppError when it is rejected. */
+  saveApiKey: (apiKey: string) => Promise<void>;
+  removeStoredApiKey: () => void;
+  /**
+   * Called with errors from service calls; an auth error makes every tab ask
+   * for another key. Billing errors only affect the models that need billing,
+   * so they stay with the tab that hit them.
+   */
+  reportKeyError: (error: AppError) => void;
+  isSettingsOpen: boolean;
+  openSettings: () => void;
+  closeSettings: () => void;
+}
+
+const ApiKeyContext = createContext<ApiKeyContextType | undefined>(undefined);
+
+export const ApiKeyProvider = ({ children }: { children: ReactNode }) => {
+  const [status, setStatus] = useState<ApiKeyStatus>('checking');
+  const [source, setSource] = useState<ApiKeySource | null>(null);
+  const [storedKey, setStoredKey] = useState<string | null>(() => loadStoredApiKey());
+  const [isAiStudioAvailable, setIsAiStudioAvailable] = useState(false);
+  const [keyError, setKeyError] = useState<AppError | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const hasEnvKey = Boolean(getEnvApiKey());
+
+  const applySource = (keySource: ApiKeySource | null) => {
+    setSource(keySource);
+    setStatus(keySource || !isApiKeyRequired() ? 'ready' : 'missing');
+  };
+
+  const resolveKey = useCallback(async () => {
+    setStatus('checking');
+    const stored = loadStoredApiKey();
+    const envKey = getEnvApiKey();
+    // Outside AI Studio the bridge never appears, so it is only waited for when there is no other key.
+    const aiStudio = stored || envKey ? window.aistudio ?? null : await waitForAiStudio();
+    setIsAiStudioAvailable(Boolean(aiStudio));
+
+    if (!isApiKeyRequired()) {
+      applySource(null);
+    } else if (stored) {
+      applySource('stored');
+    } else if (aiStudio) {
+      try {
+        applySource(await aiStudio.hasSelectedApiKey() ? 'aiStudio' : null);
+      } catch (e) {
+        console.error("Error checking for API key:", e);
+        applySource(null);
+      }
+    } else {
+      applySource(envKey ? 'env' : null);
+    }
+  }, []);
+
+  useEffect(() => {
+    resolveKey();
+  }, [resolveKey]);
+
+  const selectAiStudioKey = useCallback(async () => {
+    if (!window.aistudio) return;
+    await window.aistudio.openSelectKey();
+    // AI Studio does not report the outcome, so the selection is assumed to have worked.
+    clearStoredApiKey();
+    setStoredKey(null);
+    setKeyError(null);
+    applySource('aiStudio');
+  }, []);
+
+  const chooseKey = useCallback(() => {
+    if (isAiStudioAvailable) {
+      selectAiStudioKey();
+    } else {
+      setIsSettingsOpen(true);
+    }
+  }, [isAiStudioAvailable, selectAiStudioKey]);
+
+  const saveApiKey = useCallback(async (apiKey: string) => {
+    const trimmed = apiKey.trim();
+    if (!isPlausibleApiKey(trimmed)) {
+      throw new InvalidInputError("The API key format is not valid.");
+    }
+    await validateApiKey(trimmed);
+    saveStoredApiKey(trimmed);
+    setStoredKey(trimmed);
+    setKeyError(null);
+    applySource('stored');
+  }, []);
+
+  const removeStoredApiKey = useCallback(() => {
+    clearStoredApiKey();
+    setStoredKey(null);
+    setKeyError(null);
+    resolveKey();
+  }, [resolveKey]);
+
+  const reportKeyError = useCallback((error: AppError) => {
+    if (error.kind !== 'auth') return;
+    setKeyError(error);
+    setSource(null);
+    setStatus('missing');
+  }, []);
+
+  const openSettings = useCallback(() => setIsSettingsOpen(true), []);
+  const closeSettings = useCallback(() => setIsSettingsOpen(false), []);
+
+  return (
+    <ApiKeyContext.Provider value={{
+      status,
+      source,
+      storedKey,
+      isAiStudioAvailable,
+      hasEnvKey,
+      keyError,
+      selectAiStudioKey,
+      chooseKey,
+      saveApiKey,
+      removeStoredApiKey,
+      reportKeyError,
+      isSettingsOpen,
+      openSettings,
+      closeSettings,
+    }}>
+      {children}
+    </ApiKeyContext.Provider>
+  );
+};
+
+export const useApiKey = () => {
+  const context = useContext(ApiKeyContext);
+  if (context === undefined) {
+    throw new Error('useApiKey must be used within an ApiKeyProvider');
+  }
+  return context;
+};
@@ -0,0 +1,105 @@
+import React, { createContext, useState, useContext, useEffect, useCallback, ReactNode } from 'react';
+import type { AssetSource } from '../services/assetStore';
+import { UsageEntry, clearUsageLedger, loadUsageLedger, subscribeToUsage } from '../services/usageLedger';
+import {
+  ModelPrice,
+  PriceTable,
+  UsageBudget,
+  checkBudget,
+  estimateVideoCost,
+  loadPriceTable,
+  loadUsageBudget,
+  resetPriceTable,
+  saveModelPrice,
+  saveUsageBudget,
+} from '../services/usageSettings';
+import { getModelName } from '../services/geminiService';
+import { useLanguage } from './LanguageContext';
+
+interface UsageContextType {
+  entries: UsageEntry[];
+  prices: PriceTable;
+  budget: UsageBudget;
+  setModelPrice: (model: string, price: ModelPrice) => void;
+  resetPrices: () => void;
+  setBudget: (budget: UsageBudget) => void;
+  clearUsage: () => void;
+  /**
+   * Asks the user to confirm a video that would go over a warning budget.
+   * Blocking budgets are enforced when the video starts, so they pass here.
+   * @param seconds The total video seconds about to be started.
+   * @returns Whether to go ahead.
+   */
+  confirmVideoBudget: (seconds: number) => boolean;
+  isUsageOpen: boolean;
+  /** The tab the usage view was opened for; null shows every tab. */
+  usageFilter: AssetSource | null;
+  openUsage: (source?: AssetSource) => void;
+  closeUsage: () => void;
+}
+
+const UsageContext = createContext<UsageContextType | undefined>(undefined);
+
+export const UsageProvider = ({ children }: { children: ReactNode }) => {
+  const { t } = useLanguage();
+  const [entries, setEntries] = useState<UsageEntry[]>(() => loadUsageLedger());
+  const [prices, setPrices] = useState<PriceTable>(() => loadPriceTable());
+  const [budget, setBudgetState] = useState<UsageBudget>(() => loadUsageBudget());
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [usageFilter, setUsageFilter] = useState<AssetSource | null>(null);
+
+  useEffect(() => subscribeToUsage(setEntries), []);
+
+  const setModelPrice = useCallback((model: string, price: ModelPrice) => {
+    setPrices(saveModelPrice(model, price));
+  }, []);
+
+  const resetPrices = useCallback(() => {
+    setPrices(resetPriceTable());
+  }, []);
+
+  const setBudget = useCallback((updated: UsageBudget) => {
+    saveUsageBudget(updated);
+    setBudgetState(updated);
+  }, []);
+
+  const confirmVideoBudget = useCallback((seconds: number) => {
+    const result = checkBudget(estimateVideoCost(getModelName('video'), seconds));
+    if (result.status !== 'warn') return true;
+    return window.confirm(t(`usage.confirm.${result.period}`));
+  }, [t]);
+
+  const openUsage = useCallback((source?: AssetSource) => {
+    setUsageFilter(source ?? null);
+    setIsUsageOpen(true);
+  }, []);
+
+  const closeUsage = useCallback(() => setIsUsageOpen(false), []);
+
+  return (
+    <UsageContext.Provider value={{
+      entries,
+      prices,
+      budget,
+      setModelPrice,
+      resetPrices,
+      setBudget,
+      clearUsage: clearUsageLedger,
+      confirmVideoBudget,
+      isUsageOpen,
+      usageFilter,
+      openUsage,
+      closeUsage,
+    }}>
+      {children}
+    </UsageContext.Provider>
+  );
+};
+
+export const useUsage = () => {
+  const context = useContext(UsageContext);
+  if (context === undefined) {
+    throw new Error('useUsage must be used within a UsageProvider');
+  }
+  return context;
+};
@@ -0,0 +1,120 @@
+import React, { createContext, useState, useContext, useEffect, useCallback, useRef, ReactNode } from 'react';
+import {
+  VideoJob,
+  enqueueVideoJob,
+  cancelVideoJob,
+  dismissVideoJob,
+  getVideoJobs,
+  resumeVideoJobs,
+  subscribeToVideoJobs,
+} from '../services/videoJobs';
+import { VideoRequest } from '../services/geminiService';
+import { AssetSource, getAsset } from '../services/assetStore';
+import { useLanguage } from './LanguageContext';
+
+export interface JobNotification {
+  jobId: string;
+  status: 'succeeded' | 'failed';
+  prompt: string;
+}
+
+interface VideoJobContextType {
+  jobs: VideoJob[];
+  notifications: JobNotification[];
+  enqueue: (request: VideoRequest, source: AssetSource) => Promise<string>;
+  cancel: (id: string) => void;
+  dismiss: (id: string) => void;
+  dismissNotification: (jobId: string) => void;
+}
+
+const VideoJobContext = createContext<VideoJobContextType | undefined>(undefined);
+
+export const VideoJobProvider = ({ children }: { children: ReactNode }) => {
+  const { t } = useLanguage();
+  const [jobs, setJobs] = useState<VideoJob[]>([]);
+  const [notifications, setNotifications] = useState<JobNotification[]>([]);
+  const previousStatuses = useRef<Record<string, VideoJob['status']>>({});
+
+  // Kept in a ref so switching language does not resubscribe and resume jobs twice.
+  const translateRef = useRef(t);
+  translateRef.current = t;
+
+  useEffect(() => {
+    const notify = (job: VideoJob, status: JobNotification['status']) => {
+      setNotifications(prev => [...prev.filter(n => n.jobId !== job.id), { jobId: job.id, status, prompt: job.request.prompt }]);
+      if (document.hidden && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+        new Notification(translateRef.current(status === 'succeeded' ? 'jobs.notify.succeeded' : 'jobs.notify.failed'), { body: job.request.prompt });
+      }
+    };
+
+    const unsubscribe = subscribeToVideoJobs(updated => {
+      updated.forEach(job => {
+        const previous = previousStatuses.current[job.id];
+        if (previous === 'running' && (job.status === 'succeeded' || job.status === 'failed')) {
+          notify(job, job.status);
+        }
+        previousStatuses.current[job.id] = job.status;
+      });
+      setJobs(updated);
+    });
+    resumeVideoJobs();
+    setJobs(getVideoJobs());
+    return unsubscribe;
+  }, []);
+
+  const enqueue = useCallback((request: VideoRequest, source: AssetSource) => {
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => undefined);
+    }
+    return enqueueVideoJob(request, source);
+  }, []);
+
+  const dismissNotification = useCallback((jobId: string) => {
+    setNotifications(prev => prev.filter(n => n.jobId !== jobId));
+  }, []);
+
+  return (
+    <VideoJobContext.Provider value={{ jobs, notifications, enqueue, cancel: cancelVideoJob, dismiss: dismissVideoJob, dismissNotification }}>
+      {children}
+    </VideoJobContext.Provider>
+  );
+};
+
+export const useVideoJobs = () => {
+  const context = useContext(VideoJobContext);
+  if (context === undefined) {
+    throw new Error('useVideoJobs must be used within a VideoJobProvider');
+  }
+  return context;
+};
+
+/**
+ * Tracks a single job and exposes an object URL for its video once it has
+ * succeeded. The URL is revoked when the job changes or the caller unmounts.
+ */
+export const useVideoJobResult = (jobId: string | null | undefined) => {
+  const { jobs } = useVideoJobs();
+  const job = jobId ? jobs.find(j => j.id === jobId) : undefined;
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const assetId = job?.status === 'succeeded' ? job.assetId : undefined;
+
+  useEffect(() => {
+    setVideoUrl(null);
+    if (!assetId) return;
+
+    let url: string | null = null;
+    let isCancelled = false;
+    getAsset(assetId).then(asset => {
+      if (isCancelled || asset?.kind !== 'video') return;
+      url = URL.createObjectURL(asset.blob);
+      setVideoUrl(url);
+    }).catch(e => console.error("Failed to load the generated video", e));
+
+    return () => {
+      isCancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [assetId]);
+
+  return { job, videoUrl };
+};
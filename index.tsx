@@ -3,6 +3,9 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { LanguageProvider } from './contexts/LanguageContext';
+import { VideoJobProvider } from './contexts/VideoJobContext';
+import { ApiKeyProvider } from './contexts/ApiKeyContext';
+import { UsageProvider } from './contexts/UsageContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -13,7 +16,13 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <LanguageProvider>
-      <App />
+      <ApiKeyProvider>
+        <UsageProvider>
+          <VideoJobProvider>
+            <App />
+          </VideoJobProvider>
+        </UsageProvider>
+      </ApiKeyProvider>
     </LanguageProvider>
   </React.StrictMode>
 );
\ No newline at end of file
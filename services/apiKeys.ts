@@ -0,0 +1,84 @@
+/**
+ * Where the Gemini API key comes from. A key the user entered is kept in
+ * localStorage and wins over the key from the environment, which is either
+ * the one chosen in AI Studio or GEMINI_API_KEY baked in at build time; both
+ * arrive as process.env.API_KEY.
+ */
+
+/** The bridge AI Studio injects into the page for choosing a key. */
+export interface AiStudio {
+  hasSelectedApiKey: () => Promise<boolean>;
+  openSelectKey: () => Promise<void>;
+}
+
+declare global {
+  interface Window {
+    /** Only present when the app runs inside AI Studio. */
+    aistudio?: AiStudio;
+  }
+}
+
+export type ApiKeySource = 'stored' | 'aiStudio' | 'env';
+
+const STORED_KEY = 'geminiApiKey';
+const AI_STUDIO_WAIT_MS = 2000;
+const AI_STUDIO_POLL_MS = 100;
+
+export const loadStoredApiKey = (): string | null => {
+  try {
+    return localStorage.getItem(STORED_KEY);
+  } catch (e) {
+    console.error(`Failed to load ${STORED_KEY} from localStorage`, e);
+    return null;
+  }
+};
+
+export const saveStoredApiKey = (apiKey: string): void => {
+  try {
+    localStorage.setItem(STORED_KEY, apiKey);
+  } catch (e) {
+    console.error(`Failed to save ${STORED_KEY} to localStorage`, e);
+  }
+};
+
+export const clearStoredApiKey = (): void => {
+  try {
+    localStorage.removeItem(STORED_KEY);
+  } catch (e) {
+    console.error(`Failed to remove ${STORED_KEY} from localStorage`, e);
+  }
+};
+
+export const getEnvApiKey = (): string | undefined => process.env.API_KEY || undefined;
+
+/**
+ * Returns the key service calls should use: the stored key if there is one,
+ * otherwise the environment key.
+ */
+export const getApiKey = (): string | undefined => loadStoredApiKey() ?? getEnvApiKey();
+
+/**
+ * Checks that a key looks like an API key before it is sent anywhere.
+ * @param apiKey The key as entered.
+ */
+export const isPlausibleApiKey = (apiKey: string): boolean => /^[\w-]{30,}$/.test(apiKey.trim());
+
+/**
+ * Hides all but the ends of a key for display.
+ * @param apiKey The key.
+ */
+export const maskApiKey = (apiKey: string): string => `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`;
+
+/**
+ * Waits briefly for AI Studio to inject its bridge, which can happen just
+ * after the app loads.
+ * @param timeoutMs How long to wait before concluding the app runs elsewhere.
+ * @returns The bridge, or null when running outside AI Studio.
+ */
+export const waitForAiStudio = async (timeoutMs = AI_STUDIO_WAIT_MS): Promise<AiStudio | null> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!window.aistudio && Date.now() < deadline) {
+    await new Promise(resolve => window.setTimeout(resolve, AI_STUDIO_POLL_MS));
+  }
+  return window.aistudio ?? null;
+};
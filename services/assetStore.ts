@@ -0,0 +1,248 @@
+/**
+ * Persistent asset library backed by IndexedDB. Every piece of generated
+ * content (images, videos, stories, narration and idea lists) is stored here
+ * together with the metadata needed to find and reproduce it later.
+ */
+
+import type { Idea, ImageGenerationOptions } from './geminiService';
+
+export type AssetKind = 'image' | 'video' | 'story' | 'audio' | 'ideas';
+export type AssetSource = 'story' | 'idea' | 'image' | 'video' | 'storyboard';
+
+interface AssetBase {
+  id: string;
+  kind: AssetKind;
+  source: AssetSource;
+  createdAt: number;
+  updatedAt: number;
+  prompt?: string;
+  model?: string;
+  aspectRatio?: string;
+}
+
+export interface ImageAsset extends AssetBase {
+  kind: 'image';
+  blob: Blob;
+  /** The parameters the image was generated with, so it can be reproduced. */
+  generation?: Omit<ImageGenerationOptions, 'numberOfImages'>;
+}
+
+export interface VideoAsset extends AssetBase {
+  kind: 'video';
+  blob: Blob;
+  duration?: number;
+}
+
+export interface StoryAsset extends AssetBase {
+  kind: 'story';
+  text: string;
+}
+
+export interface AudioAsset extends AssetBase {
+  kind: 'audio';
+  /** Raw 16-bit little-endian PCM, mono. */
+  blob: Blob;
+  sampleRate: number;
+  /** The story this narration was generated for, if any. */
+  storyId?: string;
+  text?: string;
+}
+
+export interface IdeasAsset extends AssetBase {
+  kind: 'ideas';
+  /** The idea prompts. */
+  ideas: string[];
+  /** Titles, aspect ratios and tags, for ideas saved since they carry them. */
+  details?: Idea[];
+}
+
+export type Asset = ImageAsset | VideoAsset | StoryAsset | AudioAsset | IdeasAsset;
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+/** An asset as passed to saveAsset; ids and timestamps are assigned by the store. */
+export type NewAsset = DistributiveOmit<Asset, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface AssetQuery {
+  kind?: AssetKind;
+  source?: AssetSource;
+  /** Case-insensitive text matched against prompts, stories and ideas. */
+  search?: string;
+  limit?: number;
+}
+
+const DB_NAME = 'ai-creative-suite';
+const DB_VERSION = 1;
+const ASSET_STORE = 'assets';
+const LEGACY_IMAGE_HISTORY_KEY = 'imageGenHistory';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ASSET_STORE)) {
+          const store = db.createObjectStore(ASSET_STORE, { keyPath: 'id' });
+          store.createIndex('kind', 'kind');
+          store.createIndex('source', 'source');
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ASSET_STORE, mode);
+  const result = await requestToPromise(run(tx.objectStore(ASSET_STORE)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+};
+
+const createId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const searchableText = (asset: Asset): string => {
+  const parts = [asset.prompt ?? '', asset.model ?? ''];
+  if (asset.kind === 'story') parts.push(asset.text);
+  if (asset.kind === 'audio') parts.push(asset.text ?? '');
+  if (asset.kind === 'ideas') {
+    parts.push(...asset.ideas);
+    asset.details?.forEach(idea => parts.push(idea.title, ...idea.tags));
+  }
+  return parts.join(' ').toLowerCase();
+};
+
+/**
+ * Saves a new asset to the library.
+ * @param asset The asset content and metadata.
+ * @returns A promise that resolves to the stored asset, including its id.
+ */
+export const saveAsset = async (asset: NewAsset): Promise<Asset> => {
+  const now = Date.now();
+  const stored = { ...asset, id: createId(), createdAt: now, updatedAt: now } as Asset;
+  await withStore('readwrite', store => store.put(stored));
+  return stored;
+};
+
+/**
+ * Replaces an existing asset, bumping its updatedAt timestamp.
+ * @param asset The asset to update.
+ */
+export const updateAsset = async (asset: Asset): Promise<Asset> => {
+  const stored = { ...asset, updatedAt: Date.now() };
+  await withStore('readwrite', store => store.put(stored));
+  return stored;
+};
+
+/**
+ * Loads a single asset by id.
+ * @param id The asset id.
+ * @returns A promise that resolves to the asset, or undefined when missing.
+ */
+export const getAsset = async (id: string): Promise<Asset | undefined> => {
+  return withStore<Asset | undefined>('readonly', store => store.get(id));
+};
+
+/**
+ * Lists assets, newest first.
+ * @param query Optional kind, source and text filters.
+ * @returns A promise that resolves to the matching assets.
+ */
+export const listAssets = async (query: AssetQuery = {}): Promise<Asset[]> => {
+  const all = await withStore<Asset[]>('readonly', store => (
+    query.kind ? store.index('kind').getAll(query.kind) : store.getAll()
+  ));
+  const search = query.search?.trim().toLowerCase();
+  const matches = all
+    .filter(asset => !query.source || asset.source === query.source)
+    .filter(asset => !search || searchableText(asset).includes(search))
+    .sort((a, b) => b.createdAt - a.createdAt);
+  return query.limit ? matches.slice(0, query.limit) : matches;
+};
+
+/**
+ * Removes an asset from the library.
+ * @param id The asset id.
+ */
+export const deleteAsset = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+type LegacyImageHistoryItem = { imageUrl: string; prompt: string; aspectRatio: string };
+
+let legacyMigration: Promise<void> | null = null;
+
+const runLegacyImageMigration = async (): Promise<void> => {
+  const stored = localStorage.getItem(LEGACY_IMAGE_HISTORY_KEY);
+  if (!stored) return;
+
+  let items: LegacyImageHistoryItem[];
+  try {
+    items = JSON.parse(stored);
+  } catch (e) {
+    // Unreadable history can never be migrated, so it is dropped.
+    console.error("Failed to read image history from localStorage", e);
+    localStorage.removeItem(LEGACY_IMAGE_HISTORY_KEY);
+    return;
+  }
+
+  try {
+    // Oldest first so the library keeps the original ordering. Each saved item
+    // is dropped from the stored list, so a failed run resumes where it stopped.
+    const remaining = [...items];
+    while (remaining.length > 0) {
+      const item = remaining[remaining.length - 1];
+      const blob = await (await fetch(item.imageUrl)).blob();
+      await saveAsset({ kind: 'image', source: 'image', blob, prompt: item.prompt, aspectRatio: item.aspectRatio });
+      remaining.pop();
+      localStorage.setItem(LEGACY_IMAGE_HISTORY_KEY, JSON.stringify(remaining));
+    }
+    localStorage.removeItem(LEGACY_IMAGE_HISTORY_KEY);
+  } catch (e) {
+    console.error("Failed to migrate image history from localStorage", e);
+  }
+};
+
+/**
+ * Moves the old localStorage image history into the asset library, then
+ * removes it so the quota is freed. Safe to call more than once: concurrent
+ * calls share one run, and items that failed to move are kept for the next.
+ */
+export const migrateLegacyImageHistory = (): Promise<void> => {
+  if (!legacyMigration) {
+    legacyMigration = runLegacyImageMigration().finally(() => {
+      legacyMigration = null;
+    });
+  }
+  return legacyMigration;
+};
@@ -0,0 +1,195 @@
+/**
+ * Runs a batch of generation tasks with limited concurrency. Rate-limited
+ * tasks are retried with exponential backoff, during which the whole batch
+ * holds off; other failures are recorded per item so they can be retried
+ * later. The batch can be paused, resumed and cancelled while it runs.
+ */
+import { toAppError } from './errors';
+
+export type BatchItemStatus = 'queued' | 'running' | 'failed' | 'done';
+
+export interface BatchItem {
+  id: string;
+  status: BatchItemStatus;
+  /** How many times the task has been tried. */
+  attempts: number;
+  error?: string;
+}
+
+export interface BatchSnapshot {
+  items: BatchItem[];
+  isRunning: boolean;
+  isPaused: boolean;
+  isCancelled: boolean;
+}
+
+export interface BatchOptions {
+  /** How many tasks run at once. Defaults to 2. */
+  concurrency?: number;
+  /** Retries after a rate-limit error before the item fails. Defaults to 4. */
+  maxRetries?: number;
+  /** First backoff delay, doubled on each retry. Defaults to 2 seconds. */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onChange?: (snapshot: BatchSnapshot) => void;
+}
+
+export interface BatchRunner {
+  /** Runs every queued item; resolves once the batch finishes or is cancelled. */
+  run: () => Promise<BatchSnapshot>;
+  /** Requeues the failed items and runs them again. */
+  retryFailed: () => Promise<BatchSnapshot>;
+  /** Stops starting new items; running ones finish. */
+  pause: () => void;
+  resume: () => void;
+  /** Stops starting new items for good; running ones finish. */
+  cancel: () => void;
+  getSnapshot: () => BatchSnapshot;
+}
+
+/**
+ * Tells whether an error means the API is rate limiting or out of quota.
+ * @param error The error thrown by a task.
+ */
+export const isRateLimitError = (error: unknown): boolean => toAppError(error).kind === 'quota';
+
+/**
+ * Creates a runner for a batch of tasks.
+ * @param ids One id per item; each is passed to the task.
+ * @param task Generates one item, throwing on failure.
+ * @param options Concurrency, backoff and a change listener.
+ */
+export const createBatchRunner = (
+  ids: string[],
+  task: (id: string) => Promise<void>,
+  options: BatchOptions = {},
+): BatchRunner => {
+  const { concurrency = 2, maxRetries = 4, baseDelayMs = 2000, maxDelayMs = 60000, onChange } = options;
+
+  let items: BatchItem[] = ids.map(id => ({ id, status: 'queued', attempts: 0 }));
+  let isRunning = false;
+  let isPaused = false;
+  let isCancelled = false;
+  /** Set after a rate-limit error; no task starts before this time. */
+  let cooldownUntil = 0;
+  let waiters: (() => void)[] = [];
+  let currentRun: Promise<BatchSnapshot> | null = null;
+
+  const getSnapshot = (): BatchSnapshot => ({ items: items.map(item => ({ ...item })), isRunning, isPaused, isCancelled });
+
+  const emit = () => onChange?.(getSnapshot());
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    items = items.map(item => (item.id === id ? { ...item, ...changes } : item));
+    emit();
+  };
+
+  const wakeAll = () => {
+    const pending = waiters;
+    waiters = [];
+    pending.forEach(wake => wake());
+  };
+
+  /** Waits until the state changes or, if given, the delay passes. */
+  const waitForChange = (ms?: number) => new Promise<void>(resolve => {
+    const timer = ms === undefined ? undefined : window.setTimeout(resolve, ms);
+    waiters.push(() => {
+      window.clearTimeout(timer);
+      resolve();
+    });
+  });
+
+  /** Waits while paused or cooling down; returns false once cancelled. */
+  const waitUntilClear = async (): Promise<boolean> => {
+    while (!isCancelled) {
+      const cooldown = cooldownUntil - Date.now();
+      if (isPaused) {
+        await waitForChange();
+      } else if (cooldown > 0) {
+        await waitForChange(cooldown);
+      } else {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const runItem = async (item: BatchItem) => {
+    let attempts = item.attempts;
+    updateItem(item.id, { status: 'running', error: undefined });
+    for (let retry = 0; ; retry++) {
+      attempts++;
+      try {
+        await task(item.id);
+        updateItem(item.id, { status: 'done', attempts });
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!isRateLimitError(error) || retry >= maxRetries || isCancelled) {
+          updateItem(item.id, { status: 'failed', attempts, error: message });
+          return;
+        }
+        const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** retry) * (1 + Math.random() * 0.2);
+        cooldownUntil = Math.max(cooldownUntil, Date.now() + backoff);
+        updateItem(item.id, { attempts, error: message });
+        if (!(await waitUntilClear())) {
+          updateItem(item.id, { status: 'failed' });
+          return;
+        }
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (await waitUntilClear()) {
+      const next = items.find(item => item.status === 'queued');
+      if (!next) return;
+      await runItem(next);
+    }
+  };
+
+  const run = () => {
+    if (currentRun) return currentRun;
+    isRunning = true;
+    isCancelled = false;
+    emit();
+    const queued = items.filter(item => item.status === 'queued').length;
+    const workers = Array.from({ length: Math.max(1, Math.min(concurrency, queued)) }, worker);
+    currentRun = Promise.all(workers).then(() => {
+      isRunning = false;
+      isPaused = false;
+      currentRun = null;
+      emit();
+      return getSnapshot();
+    });
+    return currentRun;
+  };
+
+  const retryFailed = () => {
+    items = items.map(item => (item.status === 'failed' ? { ...item, status: 'queued', error: undefined } : item));
+    return run();
+  };
+
+  const pause = () => {
+    if (!isRunning || isPaused) return;
+    isPaused = true;
+    emit();
+  };
+
+  const resume = () => {
+    if (!isPaused) return;
+    isPaused = false;
+    wakeAll();
+    emit();
+  };
+
+  const cancel = () => {
+    if (!isRunning) return;
+    isCancelled = true;
+    isPaused = false;
+    wakeAll();
+    emit();
+  };
+
+  return { run, retryFailed, pause, resume, cancel, getSnapshot };
+};
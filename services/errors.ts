@@ -0,0 +1,266 @@
+/**
+ * Typed errors for AI service calls. Raw SDK and network errors are
+ * classified once, in the service layer, so components can show a localized
+ * explanation and suggested actions for each kind instead of matching on
+ * message text.
+ */
+import { ApiError } from '@google/genai';
+
+export type AppErrorKind =
+  | 'auth'
+  | 'billing'
+  | 'quota'
+  | 'safety'
+  | 'invalidInput'
+  | 'network'
+  | 'timeout'
+  | 'emptyResult'
+  | 'budget'
+  | 'unknown';
+
+/** What the user can do about an error; rendered as buttons or links. */
+export type ErrorAction = 'selectKey' | 'retry' | 'openBilling' | 'openRateLimits' | 'rephrase' | 'openUsage';
+
+/** Why a safety filter blocked a prompt or its output. */
+export type SafetyCategory =
+  | 'child'
+  | 'celebrity'
+  | 'dangerous'
+  | 'harassment'
+  | 'hate'
+  | 'people'
+  | 'personalInfo'
+  | 'prohibited'
+  | 'sexual'
+  | 'toxic'
+  | 'violence'
+  | 'vulgar'
+  | 'other';
+
+export interface AppErrorOptions {
+  cause?: unknown;
+}
+
+export interface SafetyErrorOptions extends AppErrorOptions {
+  /** Detected from the message when not given. */
+  categories?: SafetyCategory[];
+}
+
+export const ERROR_ACTIONS: Record<AppErrorKind, ErrorAction[]> = {
+  auth: ['selectKey'],
+  billing: ['openBilling', 'selectKey'],
+  quota: ['openRateLimits', 'retry'],
+  safety: ['rephrase'],
+  invalidInput: [],
+  network: ['retry'],
+  timeout: ['retry'],
+  emptyResult: ['retry'],
+  budget: ['openUsage'],
+  unknown: ['retry'],
+};
+
+/** Base class for classified errors; `kind` maps to localized messages. */
+export class AppError extends Error {
+  constructor(public readonly kind: AppErrorKind, message: string, options?: AppErrorOptions) {
+    super(message, options);
+    this.name = 'AppError';
+  }
+
+  get actions(): ErrorAction[] {
+    return ERROR_ACTIONS[this.kind];
+  }
+}
+
+/** The API key is missing, invalid or no longer exists. */
+export class AuthError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super('auth', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+/** The model needs a key on a project with billing enabled. */
+export class BillingError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super('billing', message, options);
+    this.name = 'BillingError';
+  }
+}
+
+/** Rate limited or out of quota (HTTP 429 / RESOURCE_EXHAUSTED). */
+export class QuotaError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super('quota', message, options);
+    this.name = 'QuotaError';
+  }
+}
+
+/** The prompt or the output was blocked by safety filters. */
+export class SafetyError extends AppError {
+  readonly categories: SafetyCategory[];
+
+  constructor(message: string, options?: SafetyErrorOptions) {
+    super('safety', message, options);
+    this.name = 'SafetyError';
+    this.categories = options?.categories ?? detectSafetyCategories([message]);
+  }
+}
+
+/** The request was rejected as malformed or unsupported. */
+export class InvalidInputError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super('invalidInput', message, options);
+    this.name = 'InvalidInputError';
+  }
+}
+
+/** The service could not be reached. */
+export class NetworkError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super('network', message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The request or operation took too long. */
+export class TimeoutError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super('timeout', message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/** The call succeeded but returned nothing usable. */
+export class EmptyResultError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super('emptyResult', message, options);
+    this.name = 'EmptyResultError';
+  }
+}
+
+/** Starting the generation would go over a usage budget set to block. */
+export class BudgetError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super('budget', message, options);
+    this.name = 'BudgetError';
+  }
+}
+
+/**
+ * Support codes that Imagen and Veo append to their filter reasons, per the
+ * Vertex AI responsible AI documentation.
+ */
+const SAFETY_SUPPORT_CODES: Record<string, SafetyCategory> = {
+  '58061214': 'child',
+  '17301594': 'child',
+  '29310472': 'celebrity',
+  '15236754': 'celebrity',
+  '62263041': 'dangerous',
+  '57734940': 'hate',
+  '22137204': 'hate',
+  '74803281': 'other',
+  '29578790': 'other',
+  '42876398': 'other',
+  '39322892': 'people',
+  '92201652': 'personalInfo',
+  '89371032': 'prohibited',
+  '49114662': 'prohibited',
+  '72817394': 'prohibited',
+  '90789179': 'sexual',
+  '63429089': 'sexual',
+  '43188360': 'sexual',
+  '78610348': 'toxic',
+  '61493863': 'violence',
+  '56562880': 'violence',
+  '32635315': 'vulgar',
+};
+
+/** Wording used by filter reasons and Gemini harm categories (e.g. HARM_CATEGORY_HATE_SPEECH). */
+const SAFETY_KEYWORDS: [RegExp, SafetyCategory][] = [
+  [/\bchild|\bminor/i, 'child'],
+  [/celebrit/i, 'celebrity'],
+  [/dangerous/i, 'dangerous'],
+  [/harass/i, 'harassment'],
+  [/\bhate|HATE_SPEECH/i, 'hate'],
+  [/\bperson\b|\bpeople|\bfaces?\b/i, 'people'],
+  [/personal information|\bS?PII\b/i, 'personalInfo'],
+  [/prohibited|blocklist/i, 'prohibited'],
+  [/sexual/i, 'sexual'],
+  [/toxic/i, 'toxic'],
+  [/violen/i, 'violence'],
+  [/vulgar/i, 'vulgar'],
+];
+
+/**
+ * Finds the safety categories mentioned by filter reasons, block reasons or
+ * harm categories, preferring support codes over wording.
+ * @param texts The reasons reported by the service.
+ * @returns The categories, without duplicates.
+ */
+export const detectSafetyCategories = (texts: string[]): SafetyCategory[] => {
+  const categories = new Set<SafetyCategory>();
+  for (const text of texts) {
+    const codes = (text.match(/\b\d{8}\b/g) ?? []).filter(code => code in SAFETY_SUPPORT_CODES);
+    if (codes.length > 0) {
+      codes.forEach(code => categories.add(SAFETY_SUPPORT_CODES[code]));
+      continue;
+    }
+    SAFETY_KEYWORDS.filter(([pattern]) => pattern.test(text)).forEach(([, category]) => categories.add(category));
+  }
+  return [...categories];
+};
+
+const ERROR_CLASSES: Record<Exclude<AppErrorKind, 'unknown'>, new (message: string, options?: AppErrorOptions) => AppError> = {
+  auth: AuthError,
+  billing: BillingError,
+  quota: QuotaError,
+  safety: SafetyError,
+  invalidInput: InvalidInputError,
+  network: NetworkError,
+  timeout: TimeoutError,
+  emptyResult: EmptyResultError,
+  budget: BudgetError,
+};
+
+/**
+ * Recreates a classified error, e.g. from a kind and message persisted with a video job.
+ * @param kind The error kind.
+ * @param message The original message.
+ */
+export const createAppError = (kind: AppErrorKind, message: string, options?: AppErrorOptions): AppError =>
+  kind === 'unknown' ? new AppError('unknown', message, options) : new ERROR_CLASSES[kind](message, options);
+
+const classifyMessage = (message: string, status?: number): AppErrorKind => {
+  // Quota errors also mention billing ("check your plan and billing details"), so they come first.
+  if (status === 429 || message.includes('RESOURCE_EXHAUSTED') || message.includes('429')) return 'quota';
+  if (message.includes('billed users') || /billing/i.test(message)) return 'billing';
+  if (
+    status === 401 || status === 403 ||
+    message.includes('API key not valid') || message.includes('API_KEY_INVALID') ||
+    message.includes('PERMISSION_DENIED') || message.includes('Requested entity was not found') ||
+    message.includes('API key is not available')
+  ) return 'auth';
+  if (/\bSAFETY\b|blocked|safety|responsible ai/i.test(message)) return 'safety';
+  if (status === 504 || message.includes('DEADLINE_EXCEEDED') || /timed? ?out/i.test(message)) return 'timeout';
+  if (status === 400 || message.includes('INVALID_ARGUMENT')) return 'invalidInput';
+  if (/Failed to fetch|NetworkError|Load failed|network/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+/**
+ * Classifies any thrown value into an AppError. Errors that are already
+ * classified are returned unchanged.
+ * @param error The thrown value.
+ */
+export const toAppError = (error: unknown): AppError => {
+  if (error instanceof AppError) return error;
+  if (error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return new TimeoutError(error.message, { cause: error });
+  }
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return new NetworkError(error instanceof Error ? error.message : String(error), { cause: error });
+  }
+  const message = error instanceof Error ? error.message : String(error ?? 'An unknown error occurred.');
+  const status = error instanceof ApiError ? error.status : undefined;
+  return createAppError(classifyMessage(message, status), message, { cause: error });
+};
@@ -1,158 +1,219 @@
+import { getActiveProvider } from './providers/registry';
+import { BudgetError, EmptyResultError, SafetyCategory, toAppError } from './errors';
+import { checkBudget, estimateVideoCost } from './usageSettings';
+import { trackUsage } from './usageLedger';
+import { ImageAspectRatio, ImageCandidate, ImageEditRequest, ImageGenerationOptions, Idea, IdeaRequest, ModelRole, PromptTarget, SpeechOptions, SpeechVoice, StoryImage, StoryboardScene, StorySettings, VideoAspectRatio, VideoOperationStatus, VideoRequest } from './providers/types';
 
-import { GoogleGenAI, Modality, PersonGeneration, Type } from "@google/genai";
+export type { ImageAspectRatio, ImageCandidate, ImageEditMode, ImageEditRequest, ImageGenerationOptions, ImageModelTier, ImageOutputMimeType, ImagePersonGeneration, ImageSize, Idea, IdeaMedium, IdeaMood, IdeaRequest, ModelRole, PromptTarget, SpeakerVoice, SpeechOptions, SpeechVoice, StoryAgeRating, StoryImage, StoryboardScene, StoryGenre, StoryLength, StoryPointOfView, StorySettings, StoryTone, VideoAspectRatio, VideoOperationStatus, VideoRequest } from './providers/types';
 
 /**
- * Generates a list of creative prompts.
- * @returns A promise that resolves to an array of string prompts.
+ * Runs a provider call and classifies whatever it throws, so every caller
+ * receives an AppError regardless of the provider.
+ * @param call The provider call.
  */
-export const generateIdeas = async (): Promise<string[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = 'gemini-2.5-flash';
-  const prompt = `Generate a list of 5 creative, visually descriptive, and unique prompts suitable for an AI image or video generator.`;
-
+const withAppErrors = async <T>(call: () => Promise<T>): Promise<T> => {
   try {
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    prompts: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.STRING,
-                            description: "A creative prompt"
-                        }
-                    }
-                }
-            }
-        }
-    });
-    const jsonStr = response.text.trim();
-    const result = JSON.parse(jsonStr);
-    if (result.prompts && Array.isArray(result.prompts)) {
-        return result.prompts;
-    } else {
-        throw new Error("AI response did not contain a 'prompts' array.");
-    }
+    return await call();
   } catch (error) {
-    console.error("Error generating ideas:", error);
-    throw new Error("Failed to communicate with the AI model for idea generation.");
+    throw toAppError(error);
   }
 };
 
+/**
+ * Returns the model the active provider uses for a kind of generation.
+ * @param role The kind of generation.
+ * @returns The model identifier.
+ */
+export const getModelName = (role: ModelRole): string => {
+  return getActiveProvider().models[role];
+};
+
+/**
+ * Returns whether the active provider needs an API key.
+ */
+export const isApiKeyRequired = (): boolean => {
+  return getActiveProvider().requiresApiKey;
+};
 
 /**
- * Generates a story opening based on an image.
- * @param base64ImageData The base64 encoded image data.
- * @param mimeType The MIME type of the image.
+ * Checks an API key against the active provider before it is saved.
+ * @param apiKey The key to check.
+ */
+export const validateApiKey = (apiKey: string): Promise<void> => {
+  return withAppErrors(() => getActiveProvider().validateApiKey(apiKey));
+};
+
+/**
+ * Generates a list of creative ideas.
+ * @param request The theme, count, medium, mood and optional idea to riff on.
+ * @returns A promise that resolves to the ideas, each with a title, prompt, aspect ratio and tags.
+ */
+export const generateIdeas = (request?: IdeaRequest): Promise<Idea[]> => {
+  return withAppErrors(() => getActiveProvider().generateIdeas(request));
+};
+
+/**
+ * Expands a short prompt with lighting, camera, style and composition details.
+ * @param prompt The user's prompt.
+ * @param target Whether the prompt is for an image or a video.
+ * @returns A promise that resolves to the enhanced prompt.
+ */
+export const enhancePrompt = (prompt: string, target: PromptTarget): Promise<string> => {
+  return withAppErrors(() => getActiveProvider().enhancePrompt(prompt, target));
+};
+
+/**
+ * Rewrites a prompt that safety filters blocked so it keeps its intent.
+ * @param prompt The blocked prompt.
+ * @param target Whether the prompt is for an image or a video.
+ * @param categories The categories that triggered the filters, if known.
+ * @returns A promise that resolves to the rephrased prompt.
+ */
+export const rephrasePromptSafely = (prompt: string, target: PromptTarget, categories: SafetyCategory[] = []): Promise<string> => {
+  return withAppErrors(() => getActiveProvider().rephrasePromptSafely(prompt, target, categories));
+};
+
+/**
+ * Generates a story opening based on one or more images.
+ * @param images The images in story order, with optional captions.
+ * @param settings Optional genre, tone, length, point of view, audience and language.
  * @returns A promise that resolves to the generated story text.
  */
-export const generateStoryFromImage = async (base64ImageData: string, mimeType: string): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = 'gemini-2.5-flash';
-  const prompt = `Analyze the mood, scene, and any characters in this image. Based on your analysis, write an evocative opening paragraph for a story set in this world. The paragraph should be rich in sensory details, establish a clear tone, and draw the reader in.`;
+export const generateStoryFromImages = (images: StoryImage[], settings?: StorySettings): Promise<string> => {
+  return withAppErrors(() => getActiveProvider().generateStoryFromImages(images, settings));
+};
 
-  const imagePart = {
-    inlineData: {
-      data: base64ImageData,
-      mimeType: mimeType,
-    },
-  };
+/**
+ * Writes the next chapter of a story.
+ * @param chapters The story so far, one entry per chapter.
+ * @param direction Optional guidance for what should happen next.
+ * @param settings Optional genre, tone, length, point of view, audience and language.
+ * @returns A promise that resolves to the new chapter text.
+ */
+export const continueStory = (chapters: string[], direction?: string, settings?: StorySettings): Promise<string> => {
+  return withAppErrors(() => getActiveProvider().continueStory(chapters, direction, settings));
+};
 
-  const textPart = {
-    text: prompt,
-  };
+/**
+ * Rewrites the latest chapter of a story in a different tone.
+ * @param chapters The story so far; the last entry is the chapter to rewrite.
+ * @param tone The tone to rewrite in.
+ * @param settings Optional genre, length, point of view, audience and language.
+ * @returns A promise that resolves to the rewritten chapter text.
+ */
+export const rewriteChapter = (chapters: string[], tone: string, settings?: StorySettings): Promise<string> => {
+  return withAppErrors(() => getActiveProvider().rewriteChapter(chapters, tone, settings));
+};
 
-  try {
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: { parts: [imagePart, textPart] },
-    });
-    return response.text;
-  } catch (error) {
-    console.error("Error generating story from image:", error);
-    throw new Error("Failed to communicate with the AI model.");
-  }
+/**
+ * Splits a story into consecutive scenes, each with a visual prompt.
+ * @param story The story text.
+ * @param sceneCount The number of scenes to produce.
+ * @returns A promise that resolves to the scenes, in story order.
+ */
+export const generateStoryboard = (story: string, sceneCount: number): Promise<StoryboardScene[]> => {
+  return withAppErrors(() => getActiveProvider().generateStoryboard(story, sceneCount));
 };
 
 /**
- * Converts text to speech using the Gemini TTS model.
+ * Converts text to speech.
  * @param text The text to convert to speech.
+ * @param options The voice, delivery style and optional dialogue speakers.
  * @returns A promise that resolves to the base64 encoded audio data.
  */
-export const generateSpeechFromText = async (text: string): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = "gemini-2.5-flash-preview-tts";
+export const generateSpeechFromText = (text: string, options?: SpeechOptions): Promise<string> => {
+  return withAppErrors(() => getActiveProvider().generateSpeechFromText(text, options));
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: [{ parts: [{ text: `Read this with an expressive, narrative voice: ${text}` }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
-    
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-
-    if (base64Audio) {
-      return base64Audio;
-    } else {
-      throw new Error("No audio data received from the AI model.");
-    }
+/**
+ * Lists the voices the active provider can speak with.
+ * @returns The prebuilt voices.
+ */
+export const getSpeechVoices = (): SpeechVoice[] => {
+  return getActiveProvider().speechVoices;
+};
 
-  } catch (error) {
-    console.error("Error generating speech from text:", error);
-    throw new Error("Failed to communicate with the TTS AI model.");
-  }
+/**
+ * Returns how many distinct speakers a dialogue may use with the active provider.
+ * @returns The maximum number of speakers.
+ */
+export const getMaxSpeechSpeakers = (): number => {
+  return getActiveProvider().maxSpeechSpeakers;
 };
 
 /**
- * Generates an image from a text prompt.
+ * Generates one or more candidate images from a text prompt.
  * @param prompt The text prompt for the image.
  * @param aspectRatio The desired aspect ratio.
- * @returns A promise that resolves to a data URL for the generated image.
+ * @param options The number of candidates, seed and output size.
+ * @returns A promise that resolves to the candidates, each with a data URL.
  */
-export const generateImageFromPrompt = async (
+export const generateImageFromPrompt = (
   prompt: string,
-  aspectRatio: '1:1' | '3:4' | '4:3' | '9:16' | '16:9'
-): Promise<string> => {
-  const imageAI = new GoogleGenAI({ apiKey: process.env.API_KEY }); 
-  try {
-    const response = await imageAI.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: prompt,
-        config: {
-          numberOfImages: 1,
-          outputMimeType: 'image/jpeg',
-          aspectRatio: aspectRatio,
-        },
-    });
-
-    const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-    if (!base64ImageBytes) {
-      throw new Error("Image generation succeeded, but no image data was returned.");
-    }
-    return `data:image/jpeg;base64,${base64ImageBytes}`;
-  } catch (error) {
-    console.error("Error generating image:", error);
-    if (error instanceof Error) {
-        throw error;
+  aspectRatio: ImageAspectRatio,
+  options?: ImageGenerationOptions
+): Promise<ImageCandidate[]> => {
+  return withAppErrors(() => getActiveProvider().generateImageFromPrompt(prompt, aspectRatio, options));
+};
+
+/**
+ * Returns whether the active provider reproduces an image from its seed.
+ */
+export const isImageSeedSupported = (): boolean => {
+  return getActiveProvider().supportsImageSeed;
+};
+
+/**
+ * Returns whether the active provider honors negative prompts.
+ */
+export const isNegativePromptSupported = (): boolean => {
+  return getActiveProvider().supportsNegativePrompt;
+};
+
+/**
+ * Edits an image from a free-text instruction, optionally limited to a mask.
+ * @param request The edit mode, image, instruction and optional mask.
+ * @returns A promise that resolves to the edited image.
+ */
+export const editImage = (request: ImageEditRequest): Promise<ImageCandidate> => {
+  return withAppErrors(() => getActiveProvider().editImage(request));
+};
+
+/**
+ * Starts a video generation without waiting for it to finish. Refuses to
+ * start when the estimated cost would go over a blocking usage budget.
+ * @param request The prompt, aspect ratio, duration, people policy and optional starting image.
+ * @returns A promise that resolves to the operation name to poll.
+ */
+export const startVideoGeneration = (request: VideoRequest): Promise<string> => {
+  return withAppErrors(async () => {
+    const budget = checkBudget(estimateVideoCost(getModelName('video'), request.duration));
+    if (budget.status === 'block') {
+      throw new BudgetError(`The ${budget.period} budget of $${budget.limit.toFixed(2)} would be exceeded ($${budget.spent.toFixed(2)} spent so far).`);
     }
-    throw new Error("An unknown error occurred during image generation.");
-  }
+    return getActiveProvider().startVideoGeneration(request);
+  });
+};
+
+/**
+ * Checks on a running video generation.
+ * @param operationName The name returned by startVideoGeneration.
+ * @returns A promise that resolves to the operation status, with the video once done.
+ */
+export const pollVideoOperation = (operationName: string): Promise<VideoOperationStatus> => {
+  return withAppErrors(() => getActiveProvider().pollVideoOperation(operationName));
 };
 
 /**
- * Generates a video from a prompt and optional starting image.
+ * Returns how long to wait between polls of a video operation.
+ */
+export const getVideoPollInterval = (): number => {
+  return getActiveProvider().videoPollIntervalMs;
+};
+
+/**
+ * Generates a video from a prompt and optional starting image, waiting for
+ * the operation to complete.
  * @param prompt The text prompt for the video.
  * @param aspectRatio The desired aspect ratio ('16:9' or '16:10').
  * @param duration The duration of the video in seconds (5-8).
@@ -163,68 +224,23 @@ export const generateImageFromPrompt = async (
  */
 export const generateVideo = async (
   prompt: string,
-  aspectRatio: '16:9' | '16:10',
+  aspectRatio: VideoAspectRatio,
   duration: number,
   allowPeople: boolean,
   base64Image?: string,
   mimeType?: string
 ): Promise<string> => {
-  // Capture the API key at the start of the operation to ensure consistency.
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API key is not available.");
-  }
-  
-  const videoAI = new GoogleGenAI({ apiKey });
-  
-  const requestPayload: any = {
-    model: 'veo-2.0-generate-001',
-    prompt,
-    config: {
-      numberOfVideos: 1,
-      aspectRatio: aspectRatio,
-      durationSeconds: duration,
-      personGeneration: allowPeople ? PersonGeneration.ALLOW_ALL : PersonGeneration.DISALLOW_ALL
-    }
-  };
-
-  if (base64Image && mimeType) {
-    requestPayload.image = {
-      imageBytes: base64Image,
-      mimeType: mimeType,
-    };
+  const recordUsage = trackUsage('video', getModelName('video'));
+  const operationName = await startVideoGeneration({ prompt, aspectRatio, duration, allowPeople, base64Image, mimeType });
+  let status = await pollVideoOperation(operationName);
+  while (!status.done) {
+    await new Promise(resolve => setTimeout(resolve, getVideoPollInterval()));
+    status = await pollVideoOperation(operationName);
   }
-
-  try {
-    let operation = await videoAI.models.generateVideos(requestPayload);
-
-    while (!operation.done) {
-      // Per documentation, poll every 10 seconds for video operations.
-      await new Promise(resolve => setTimeout(resolve, 10000));
-      // Use the same client (and thus the same key) for polling.
-      operation = await videoAI.operations.getVideosOperation({ operation: operation });
-    }
-
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!downloadLink) {
-      throw new Error("Video generation succeeded, but no download link was provided.");
-    }
-    
-    // Use the same API key that started the operation to download the result.
-    const response = await fetch(`${downloadLink}&key=${apiKey}`);
-    if (!response.ok) {
-        const errorBody = await response.text();
-        throw new Error(`Failed to download video: ${response.statusText}. Details: ${errorBody}`);
-    }
-    
-    const videoBlob = await response.blob();
-    return URL.createObjectURL(videoBlob);
-
-  } catch (error) {
-    console.error("Error generating video:", error);
-    if (error instanceof Error) {
-        throw error; // Re-throw the original error to be handled by the UI
-    }
-    throw new Error("An unknown error occurred during video generation.");
+  if (!status.videoBlob) {
+    throw new EmptyResultError("Video generation succeeded, but no video was returned.");
   }
+  // Filtered and failed operations are not billed, so only a delivered video counts.
+  recordUsage({ videoSeconds: duration });
+  return URL.createObjectURL(status.videoBlob);
 };
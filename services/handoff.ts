@@ -0,0 +1,33 @@
+/**
+ * Typed payloads for handing one tab's output to another, e.g. a generated
+ * image to the video tab as its starting frame. App holds the pending hand-off
+ * and passes it to the receiving tab while that tab is open.
+ */
+
+export type HandoffPayload =
+  | { kind: 'prompt'; prompt: string }
+  | { kind: 'image'; image: Blob; prompt?: string }
+  | { kind: 'story'; text: string }
+  /** Raw 16-bit mono PCM narration, with the text it reads. */
+  | { kind: 'audio'; audio: Blob; sampleRate: number; text?: string };
+
+/** Tabs that accept hand-offs. */
+export type HandoffTarget = 'storyboard' | 'image' | 'video';
+
+export interface Handoff {
+  /** Unique per send, so sending the same payload twice still applies it again. */
+  id: string;
+  target: HandoffTarget;
+  payload: HandoffPayload;
+}
+
+export type SendHandoff = (target: HandoffTarget, payload: HandoffPayload) => void;
+
+/**
+ * Wraps an image hand-off's blob as a File, as if the user had uploaded it.
+ * @param image The image blob.
+ */
+export const handoffImageToFile = (image: Blob): File => {
+  const extension = image.type === 'image/png' ? 'png' : 'jpg';
+  return new File([image], `handoff.${extension}`, { type: image.type || 'image/png' });
+};
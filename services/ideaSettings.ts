@@ -0,0 +1,17 @@
+/**
+ * Idea generation options offered in the idea tab, and the count limits every
+ * provider applies.
+ */
+import type { IdeaMedium, IdeaMood } from './providers/types';
+
+export const IDEA_MEDIUMS: IdeaMedium[] = ['image', 'video', 'story'];
+export const IDEA_MOODS: IdeaMood[] = ['uplifting', 'mysterious', 'dreamy', 'epic', 'cozy', 'eerie', 'playful', 'melancholic'];
+export const DEFAULT_IDEA_COUNT = 5;
+export const MAX_IDEA_COUNT = 10;
+
+/**
+ * Keeps a requested number of ideas within the supported range.
+ * @param count The requested count; the default when omitted.
+ */
+export const clampIdeaCount = (count = DEFAULT_IDEA_COUNT): number =>
+  Math.min(MAX_IDEA_COUNT, Math.max(1, Math.round(count)));
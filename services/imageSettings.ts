@@ -0,0 +1,50 @@
+/**
+ * Image generation options and the advanced settings edited in the image tab.
+ */
+import { ImageAspectRatio, ImageGenerationOptions, ImageModelTier, ImageOutputMimeType, ImagePersonGeneration } from './geminiService';
+
+export const IMAGE_ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+export const IMAGE_MODEL_TIERS: ImageModelTier[] = ['standard', 'fast', 'ultra'];
+export const IMAGE_PERSON_GENERATION: ImagePersonGeneration[] = ['allowAdult', 'dontAllow', 'allowAll'];
+export const IMAGE_OUTPUT_MIME_TYPES: ImageOutputMimeType[] = ['image/jpeg', 'image/png'];
+
+/** Advanced settings as edited in the UI; an empty seed lets the model pick one. */
+export interface ImageAdvancedSettings {
+  negativePrompt: string;
+  seed: number | null;
+  personGeneration: ImagePersonGeneration;
+  outputMimeType: ImageOutputMimeType;
+  modelTier: ImageModelTier;
+}
+
+export const DEFAULT_IMAGE_ADVANCED_SETTINGS: ImageAdvancedSettings = {
+  negativePrompt: '',
+  seed: null,
+  personGeneration: 'allowAdult',
+  outputMimeType: 'image/jpeg',
+  modelTier: 'standard',
+};
+
+/**
+ * Converts the edited settings into request options, leaving out empty fields.
+ * @param settings The advanced settings.
+ */
+export const toImageGenerationOptions = (settings: ImageAdvancedSettings): ImageGenerationOptions => ({
+  negativePrompt: settings.negativePrompt.trim() || undefined,
+  seed: settings.seed ?? undefined,
+  personGeneration: settings.personGeneration,
+  outputMimeType: settings.outputMimeType,
+  modelTier: settings.modelTier,
+});
+
+/**
+ * Restores the edited settings from the options an image was generated with.
+ * @param options The options recorded with a saved image, if any.
+ */
+export const fromImageGenerationOptions = (options: ImageGenerationOptions = {}): ImageAdvancedSettings => ({
+  negativePrompt: options.negativePrompt ?? DEFAULT_IMAGE_ADVANCED_SETTINGS.negativePrompt,
+  seed: options.seed ?? null,
+  personGeneration: options.personGeneration ?? DEFAULT_IMAGE_ADVANCED_SETTINGS.personGeneration,
+  outputMimeType: options.outputMimeType ?? DEFAULT_IMAGE_ADVANCED_SETTINGS.outputMimeType,
+  modelTier: options.modelTier ?? DEFAULT_IMAGE_ADVANCED_SETTINGS.modelTier,
+});
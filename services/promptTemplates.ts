@@ -0,0 +1,158 @@
+/**
+ * Prompt templates with `{variable}` placeholders and built-in style presets.
+ * User templates live in localStorage and are shared by every tab that builds
+ * prompts; they can be exported to and imported from JSON files.
+ */
+
+export interface PromptTemplate {
+  id: string;
+  /** Display name; built-in templates are named through translations instead. */
+  name: string;
+  template: string;
+  builtIn?: boolean;
+}
+
+export interface StylePreset {
+  id: string;
+  /** Text substituted for the `{style}` variable. */
+  text: string;
+}
+
+/** The variable that style presets fill in. */
+export const STYLE_VARIABLE = 'style';
+
+export const STYLE_PRESETS: StylePreset[] = [
+  { id: 'cinematic', text: 'cinematic film still, anamorphic lens, dramatic color grading' },
+  { id: 'anime', text: 'anime style, cel shading, vibrant colors, clean line art' },
+  { id: 'watercolor', text: 'watercolor painting, soft washes, visible paper texture' },
+  { id: 'pixelArt', text: 'pixel art, 16-bit retro game aesthetic, limited palette' },
+  { id: 'oilPainting', text: 'oil painting, thick impasto brushstrokes, classical composition' },
+  { id: 'photorealistic', text: 'photorealistic, 85mm lens, natural skin texture, high detail' },
+  { id: 'cyberpunk', text: 'cyberpunk, neon lights, rain-soaked streets, high contrast' },
+  { id: 'lowPoly', text: 'low poly 3D render, flat shading, geometric shapes' },
+  { id: 'comicBook', text: 'comic book illustration, bold ink outlines, halftone shading' },
+  { id: 'claymation', text: 'claymation, handmade clay figures, stop-motion look' },
+];
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  { id: 'builtin-styled', name: 'styled', template: '{subject} in the style of {style}, {lighting}', builtIn: true },
+  { id: 'builtin-portrait', name: 'portrait', template: 'Portrait of {subject}, {style}, {lighting}, shallow depth of field', builtIn: true },
+  { id: 'builtin-landscape', name: 'landscape', template: '{place} at {time of day}, {style}, wide establishing shot', builtIn: true },
+  { id: 'builtin-scene', name: 'scene', template: '{subject} {action}, {camera move}, {style}', builtIn: true },
+];
+
+const TEMPLATES_KEY = 'promptTemplates';
+const EXPORT_VERSION = 1;
+const VARIABLE_PATTERN = /\{([^{}]+)\}/g;
+
+const readTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = localStorage.getItem(TEMPLATES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error(`Failed to load ${TEMPLATES_KEY} from localStorage`, e);
+    return [];
+  }
+};
+
+const writeTemplates = (templates: PromptTemplate[]) => {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  } catch (e) {
+    console.error(`Failed to save ${TEMPLATES_KEY} to localStorage`, e);
+  }
+};
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Lists the variables of a template in order of first appearance.
+ * @param template The template text, e.g. "{subject} in the style of {style}".
+ */
+export const extractTemplateVariables = (template: string): string[] => {
+  const names = Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1].trim());
+  return Array.from(new Set(names.filter(Boolean)));
+};
+
+/**
+ * Substitutes variable values into a template. Variables left empty are
+ * dropped together with the separators they leave behind.
+ * @param template The template text.
+ * @param values Values keyed by variable name.
+ * @returns The finished prompt.
+ */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template
+    .replace(VARIABLE_PATTERN, (_, name: string) => values[name.trim()]?.trim() ?? '')
+    .replace(/\s+,/g, ',')
+    .replace(/,(\s*,)+/g, ',')
+    .replace(/^[\s,]+|[\s,]+$/g, '')
+    .replace(/[ \t]{2,}/g, ' ');
+
+export const loadPromptTemplates = (): PromptTemplate[] => readTemplates();
+
+/**
+ * Saves a template under a name, replacing any user template with the same name.
+ * @returns The updated user template list.
+ */
+export const savePromptTemplate = (name: string, template: string): PromptTemplate[] => {
+  const templates = readTemplates().filter(existing => existing.name !== name);
+  const updated = [...templates, { id: createId(), name, template }];
+  writeTemplates(updated);
+  return updated;
+};
+
+/**
+ * Deletes a user template.
+ * @returns The updated user template list.
+ */
+export const deletePromptTemplate = (id: string): PromptTemplate[] => {
+  const updated = readTemplates().filter(template => template.id !== id);
+  writeTemplates(updated);
+  return updated;
+};
+
+/**
+ * Serializes the user templates for download.
+ * @returns A JSON document that importPromptTemplates accepts.
+ */
+export const exportPromptTemplates = (): string =>
+  JSON.stringify({
+    version: EXPORT_VERSION,
+    templates: readTemplates().map(({ name, template }) => ({ name, template })),
+  }, null, 2);
+
+/**
+ * Merges templates from an exported JSON document into the user templates,
+ * replacing those with the same name. Accepts either the export format or a
+ * bare array of templates.
+ * @param json The file contents.
+ * @returns The updated user template list.
+ * @throws If the document holds no valid templates.
+ */
+export const importPromptTemplates = (json: string): PromptTemplate[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const entries: unknown = Array.isArray(parsed) ? parsed : (parsed as { templates?: unknown } | null)?.templates;
+  if (!Array.isArray(entries)) {
+    throw new Error("The file does not contain a template list.");
+  }
+
+  const imported = entries
+    .filter((entry): entry is { name: string; template: string } =>
+      typeof entry?.name === 'string' && entry.name.trim() !== '' && typeof entry?.template === 'string' && entry.template.trim() !== '')
+    .map(entry => ({ id: createId(), name: entry.name.trim(), template: entry.template }));
+  if (imported.length === 0) {
+    throw new Error("The file does not contain any valid templates.");
+  }
+
+  // Later entries win when the file repeats a name.
+  const byName = new Map(imported.map(template => [template.name, template]));
+  const updated = [...readTemplates().filter(template => !byName.has(template.name)), ...byName.values()];
+  writeTemplates(updated);
+  return updated;
+};
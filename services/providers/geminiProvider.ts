@@ -0,0 +1,811 @@
+import { FinishReason, GenerateContentResponse, GenerateVideosOperation, GoogleGenAI, HarmProbability, Modality, PersonGeneration, SafetyRating, SpeechConfig, Type } from "@google/genai";
+import { CreativeProvider, ImageAspectRatio, ImageCandidate, ImageEditMode, ImageEditRequest, ImageGenerationOptions, ImageModelTier, ImagePersonGeneration, Idea, IdeaMedium, IdeaRequest, ModelRole, PromptTarget, SpeechOptions, StoryAgeRating, StoryImage, StoryboardScene, StoryGenre, StoryLength, StorySettings, StoryTone, VideoOperationStatus, VideoRequest } from './types';
+import { DEFAULT_VOICE, PREBUILT_VOICES } from './speechVoices';
+import { AppError, AppErrorKind, AuthError, EmptyResultError, InvalidInputError, SafetyCategory, SafetyError, createAppError } from '../errors';
+import { getApiKey } from '../apiKeys';
+import { UsageAmounts, trackUsage } from '../usageLedger';
+import { clampIdeaCount } from '../ideaSettings';
+
+const IMAGE_MODELS: Record<ImageModelTier, string> = {
+  standard: 'imagen-4.0-generate-001',
+  fast: 'imagen-4.0-fast-generate-001',
+  ultra: 'imagen-4.0-ultra-generate-001',
+};
+
+const MODELS: Record<ModelRole, string> = {
+  text: 'gemini-2.5-flash',
+  speech: 'gemini-2.5-flash-preview-tts',
+  image: IMAGE_MODELS.standard,
+  imageEdit: 'gemini-2.5-flash-image',
+  video: 'veo-2.0-generate-001',
+};
+
+const PERSON_GENERATION: Record<ImagePersonGeneration, PersonGeneration> = {
+  dontAllow: PersonGeneration.DONT_ALLOW,
+  allowAdult: PersonGeneration.ALLOW_ADULT,
+  allowAll: PersonGeneration.ALLOW_ALL,
+};
+
+const createClient = (apiKey = getApiKey()) => new GoogleGenAI({ apiKey });
+
+/** Token counts from a generateContent response; thinking tokens are billed as output. */
+const tokenUsage = (response: GenerateContentResponse): UsageAmounts => ({
+  inputTokens: response.usageMetadata?.promptTokenCount,
+  outputTokens: (response.usageMetadata?.candidatesTokenCount ?? 0) + (response.usageMetadata?.thoughtsTokenCount ?? 0),
+});
+
+const SAFETY_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+/** Ratings that explain a block: those flagged as blocking, or failing that, the likely harms. */
+const flaggedCategories = (ratings: SafetyRating[] = []): string[] => {
+  const blocked = ratings.filter(rating => rating.blocked);
+  const flagged = blocked.length > 0
+    ? blocked
+    : ratings.filter(rating => rating.probability === HarmProbability.HIGH || rating.probability === HarmProbability.MEDIUM);
+  return flagged.map(rating => rating.category).filter((category): category is NonNullable<typeof category> => Boolean(category));
+};
+
+/**
+ * Throws a SafetyError when Gemini blocked the prompt or stopped its answer
+ * for safety, naming the harm categories that triggered it.
+ * @param response The generateContent response.
+ */
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const candidate = response.candidates?.[0];
+  if (blockReason) {
+    const categories = flaggedCategories(response.promptFeedback?.safetyRatings);
+    throw new SafetyError(`The prompt was blocked (${blockReason})${categories.length > 0 ? `: ${categories.join(', ')}` : ''}.`);
+  }
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+    const categories = flaggedCategories(candidate.safetyRatings);
+    throw new SafetyError(`The response was blocked (${candidate.finishReason})${categories.length > 0 ? `: ${categories.join(', ')}` : ''}.`);
+  }
+};
+
+const GENRE_DESCRIPTIONS: Record<StoryGenre, string> = {
+  fantasy: 'fantasy',
+  sciFi: 'science fiction',
+  mystery: 'mystery',
+  romance: 'romance',
+  horror: 'horror',
+  adventure: 'adventure',
+  fairyTale: 'fairy tale',
+  sliceOfLife: 'slice of life',
+};
+
+const TONE_DESCRIPTIONS: Record<StoryTone, string> = {
+  whimsical: 'whimsical',
+  dark: 'dark and brooding',
+  hopeful: 'hopeful and uplifting',
+  melancholic: 'melancholic',
+  humorous: 'humorous',
+  suspenseful: 'suspenseful',
+};
+
+const LENGTH_DESCRIPTIONS: Record<StoryLength, string> = {
+  short: 'a single paragraph of about 100 words',
+  medium: 'two to three paragraphs, about 250 words in total',
+  long: 'four to six paragraphs, about 500 words in total',
+};
+
+const AUDIENCE_DESCRIPTIONS: Record<StoryAgeRating, string> = {
+  children: 'young children: gentle, simple vocabulary, nothing frightening or violent',
+  teen: 'teenagers: mild peril is fine, no graphic violence or sexual content',
+  adult: 'adults: mature themes are allowed, but avoid gratuitous gore or explicit content',
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  vi: 'Vietnamese',
+  en: 'English',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Simplified Chinese',
+  fr: 'French',
+  es: 'Spanish',
+  de: 'German',
+};
+
+/**
+ * Turns story settings into explicit instructions appended to every story prompt.
+ * @param settings The user's story settings, if any.
+ * @param isRewrite Rewrites bring their own tone and keep the original length.
+ */
+const describeStorySettings = (settings: StorySettings | undefined, isRewrite = false): string => {
+  if (!settings) return '';
+  const lines = [
+    settings.genre && `Genre: ${GENRE_DESCRIPTIONS[settings.genre]}.`,
+    !isRewrite && settings.tone && `Tone: ${TONE_DESCRIPTIONS[settings.tone]}.`,
+    !isRewrite && `Length: ${LENGTH_DESCRIPTIONS[settings.length]}.`,
+    settings.pointOfView && `Narrate in the ${settings.pointOfView === 'first' ? 'first person ("I")' : 'third person'}.`,
+    `Audience: ${AUDIENCE_DESCRIPTIONS[settings.ageRating]}.`,
+    `Write entirely in ${LANGUAGE_NAMES[settings.outputLanguage] ?? settings.outputLanguage}.`,
+  ].filter(Boolean);
+  return `\n\nFollow these requirements:\n${lines.map(line => `- ${line}`).join('\n')}`;
+};
+
+const IDEA_ASPECT_RATIOS: Record<IdeaMedium, ImageAspectRatio[]> = {
+  image: ['1:1', '3:4', '4:3', '9:16', '16:9'],
+  // Videos are generated in landscape.
+  video: ['16:9'],
+  story: ['1:1', '3:4', '4:3', '9:16', '16:9'],
+};
+
+const IDEA_MEDIUM_GUIDANCE: Record<IdeaMedium, string> = {
+  image: 'an AI image generator. Each prompt should describe a single striking still image',
+  video: 'an AI video generator. Each prompt should describe a short scene with visible motion and a camera movement',
+  story: 'an illustrated short story. Each prompt should describe a character, a setting and a conflict that could open the story',
+};
+
+/**
+ * Builds the instruction for an idea request.
+ * @param request The theme, count, medium, mood and optional idea to riff on.
+ * @param count The clamped number of ideas to ask for.
+ */
+const buildIdeasPrompt = (request: IdeaRequest, count: number): string => {
+  const medium = request.medium ?? 'image';
+  const lines = [
+    `Generate a list of ${count} creative, visually descriptive, and unique ideas for ${IDEA_MEDIUM_GUIDANCE[medium]}.`,
+  ];
+  if (request.theme?.trim()) lines.push(`Theme: ${request.theme.trim()}.`);
+  if (request.mood) lines.push(`Mood: ${request.mood}.`);
+  if (request.similarTo) {
+    lines.push(`Every idea should be a fresh variation in the spirit of this one, without repeating it: "${request.similarTo.title}" - ${request.similarTo.prompt}`);
+  }
+  lines.push(`For each idea give a short title, the full prompt, the aspect ratio that suits it best (one of ${IDEA_ASPECT_RATIOS[medium].join(', ')}) and two to four short lowercase tags.`);
+  return lines.join('\n');
+};
+
+/**
+ * Generates a list of creative ideas.
+ * @param request The theme, count, medium, mood and optional idea to riff on.
+ * @returns A promise that resolves to the ideas, each with a title, prompt, aspect ratio and tags.
+ */
+const generateIdeas = async (request: IdeaRequest = {}): Promise<Idea[]> => {
+  const ai = createClient();
+  const model = MODELS.text;
+  const medium = request.medium ?? 'image';
+  const count = clampIdeaCount(request.count);
+  const aspectRatios = IDEA_ASPECT_RATIOS[medium];
+
+  try {
+    const recordUsage = trackUsage('ideas', model);
+    const response = await ai.models.generateContent({
+        model: model,
+        contents: buildIdeasPrompt(request, count),
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    ideas: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                title: { type: Type.STRING, description: "A short title for the idea" },
+                                prompt: { type: Type.STRING, description: "A creative prompt" },
+                                aspectRatio: { type: Type.STRING, enum: aspectRatios, description: "The aspect ratio that suits the idea best" },
+                                tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Short lowercase tags" },
+                            },
+                            required: ['title', 'prompt', 'aspectRatio', 'tags'],
+                        }
+                    }
+                }
+            }
+        }
+    });
+    recordUsage(tokenUsage(response));
+    throwIfBlocked(response);
+    const jsonStr = response.text.trim();
+    const result = JSON.parse(jsonStr);
+    if (result.ideas && Array.isArray(result.ideas)) {
+        return (result.ideas as Partial<Idea>[])
+          .filter((idea): idea is Partial<Idea> & { prompt: string } => typeof idea?.prompt === 'string' && idea.prompt.trim() !== '')
+          .map((idea): Idea => ({
+            title: idea.title?.trim() || idea.prompt.slice(0, 40),
+            prompt: idea.prompt.trim(),
+            aspectRatio: aspectRatios.includes(idea.aspectRatio as ImageAspectRatio) ? idea.aspectRatio as ImageAspectRatio : aspectRatios[aspectRatios.length - 1],
+            tags: Array.isArray(idea.tags) ? idea.tags.filter(tag => typeof tag === 'string') : [],
+          }));
+    } else {
+        throw new EmptyResultError("AI response did not contain an 'ideas' array.");
+    }
+  } catch (error) {
+    console.error("Error generating ideas:", error);
+    throw error;
+  }
+};
+
+const ENHANCE_GUIDANCE: Record<PromptTarget, string> = {
+  image: 'an AI image generator. Add concrete details about the subject, setting, lighting, color palette, art style, lens or camera angle, and composition',
+  video: 'an AI video generator. Add concrete details about the subject, setting, lighting and style, and describe the motion in the scene and the camera movement (for example a slow dolly in, a pan or a tracking shot) over a few seconds',
+};
+
+/**
+ * Expands a short prompt into a detailed one for image or video generation.
+ * @param prompt The user's prompt.
+ * @param target Whether the prompt is for an image or a video.
+ * @returns A promise that resolves to the enhanced prompt.
+ */
+const enhancePrompt = async (prompt: string, target: PromptTarget): Promise<string> => {
+  const ai = createClient();
+  const instruction = `Rewrite the following prompt for ${ENHANCE_GUIDANCE[target]}. Keep the user's intent, subject and any specific details they gave, write in the same language as the prompt, and keep it to a single paragraph of at most 80 words. Reply with the rewritten prompt only, without quotes or commentary.\n\nPrompt: ${prompt}`;
+
+  try {
+    const recordUsage = trackUsage('enhancePrompt', MODELS.text);
+    const response = await ai.models.generateContent({
+      model: MODELS.text,
+      contents: instruction,
+    });
+    recordUsage(tokenUsage(response));
+    throwIfBlocked(response);
+    const enhanced = response.text?.trim();
+    if (!enhanced) {
+      throw new EmptyResultError("AI response did not contain a prompt.");
+    }
+    return enhanced;
+  } catch (error) {
+    console.error("Error enhancing prompt:", error);
+    throw error;
+  }
+};
+
+const SAFETY_CATEGORY_DESCRIPTIONS: Record<SafetyCategory, string> = {
+  child: 'depictions of children or minors',
+  celebrity: 'real or recognizable people and celebrities',
+  dangerous: 'weapons, drugs or other dangerous activities',
+  harassment: 'harassment or bullying',
+  hate: 'hateful or demeaning content',
+  people: 'realistic depictions of people and faces',
+  personalInfo: 'personal information such as names, addresses or numbers',
+  prohibited: 'prohibited or explicit terms',
+  sexual: 'sexual or suggestive content',
+  toxic: 'insults or toxic language',
+  violence: 'violence, injury or gore',
+  vulgar: 'vulgar language',
+  other: 'anything sensitive or graphic',
+};
+
+/**
+ * Rewrites a blocked prompt so it keeps its creative intent but steers clear
+ * of the categories that triggered the safety filters.
+ * @param prompt The blocked prompt.
+ * @param target Whether the prompt is for an image or a video.
+ * @param categories The categories reported by the filters, if any.
+ * @returns A promise that resolves to the rephrased prompt.
+ */
+const rephrasePromptSafely = async (prompt: string, target: PromptTarget, categories: SafetyCategory[]): Promise<string> => {
+  const ai = createClient();
+  const avoid = (categories.length > 0 ? categories : ['other' as const]).map(category => SAFETY_CATEGORY_DESCRIPTIONS[category]).join('; ');
+  const instruction = `The following prompt for an AI ${target} generator was blocked by its safety filters. Rewrite it so that it keeps the subject, setting, mood and style, but removes or softens ${avoid}. Prefer fictional characters to real people and imply rather than show anything graphic. Write in the same language as the prompt, as a single paragraph. Reply with the rewritten prompt only, without quotes or commentary.\n\nPrompt: ${prompt}`;
+
+  try {
+    const recordUsage = trackUsage('rephrasePrompt', MODELS.text);
+    const response = await ai.models.generateContent({
+      model: MODELS.text,
+      contents: instruction,
+    });
+    recordUsage(tokenUsage(response));
+    throwIfBlocked(response);
+    const rephrased = response.text?.trim();
+    if (!rephrased) {
+      throw new EmptyResultError("AI response did not contain a prompt.");
+    }
+    return rephrased;
+  } catch (error) {
+    console.error("Error rephrasing prompt:", error);
+    throw error;
+  }
+};
+
+/**
+ * Generates a story opening based on one or more images.
+ * @param images The images in story order, with optional captions.
+ * @param settings Optional genre, tone, length, point of view, audience and language.
+ * @returns A promise that resolves to the generated story text.
+ */
+const generateStoryFromImages = async (images: StoryImage[], settings?: StorySettings): Promise<string> => {
+  const ai = createClient();
+  const model = MODELS.text;
+  const prompt = images.length === 1
+    ? `Analyze the mood, scene, and any characters in this image. Based on your analysis, write an evocative opening for a story set in this world. It should be rich in sensory details, establish a clear tone, and draw the reader in.`
+    : `The ${images.length} images above are given in order. Analyze the mood, scenes, and characters across all of them. Write an evocative opening for a single story that connects them: the places and characters should come from the images, and the story should move through them in the given order. It should be rich in sensory details, establish a clear tone, and draw the reader in.`;
+
+  // Each image is preceded by its label and caption so the model can refer to them in order.
+  const imageParts = images.flatMap((image, index) => [
+    ...(images.length > 1 || image.caption
+      ? [{ text: `Image ${index + 1}${image.caption ? `: ${image.caption}` : ''}` }]
+      : []),
+    {
+      inlineData: {
+        data: image.base64ImageData,
+        mimeType: image.mimeType,
+      },
+    },
+  ]);
+
+  const textPart = {
+    text: `${prompt}${describeStorySettings(settings)}`,
+  };
+
+  try {
+    const recordUsage = trackUsage('story', model);
+    const response = await ai.models.generateContent({
+        model: model,
+        contents: { parts: [...imageParts, textPart] },
+    });
+    recordUsage(tokenUsage(response));
+    throwIfBlocked(response);
+    return response.text;
+  } catch (error) {
+    console.error("Error generating story from images:", error);
+    throw error;
+  }
+};
+
+/**
+ * Writes the next chapter of a story.
+ * @param chapters The story so far, one entry per chapter.
+ * @param direction Optional guidance for what should happen next.
+ * @param settings Optional genre, tone, length, point of view, audience and language.
+ * @returns A promise that resolves to the new chapter text.
+ */
+const continueStory = async (chapters: string[], direction?: string, settings?: StorySettings): Promise<string> => {
+  const ai = createClient();
+  const model = MODELS.text;
+  const prompt = `Here is a story so far:
+
+${chapters.join('\n\n')}
+
+Write the next chapter of this story${settings ? '' : ' in one to three paragraphs'}. Keep the established tone, characters and world, move the plot forward, and do not repeat earlier text.${direction ? ` Direction for this chapter: ${direction}.` : ''} Return only the new chapter text.${describeStorySettings(settings)}`;
+
+  try {
+    const recordUsage = trackUsage('story', model);
+    const response = await ai.models.generateContent({
+        model: model,
+        contents: prompt,
+    });
+    recordUsage(tokenUsage(response));
+    throwIfBlocked(response);
+    return response.text;
+  } catch (error) {
+    console.error("Error continuing story:", error);
+    throw error;
+  }
+};
+
+/**
+ * Rewrites the latest chapter of a story in a different tone.
+ * @param chapters The story so far; the last entry is the chapter to rewrite.
+ * @param tone The tone to rewrite in, e.g. "darker" or "whimsical".
+ * @param settings Optional genre, length, point of view, audience and language.
+ * @returns A promise that resolves to the rewritten chapter text.
+ */
+const rewriteChapter = async (chapters: string[], tone: string, settings?: StorySettings): Promise<string> => {
+  const ai = createClient();
+  const model = MODELS.text;
+  const context = chapters.slice(0, -1);
+  const prompt = `${context.length > 0 ? `Here is a story so far:\n\n${context.join('\n\n')}\n\n` : ''}Rewrite the following chapter in a ${tone} tone. Keep the same events, characters and approximate length, but change the voice, word choice and atmosphere to match the new tone. Return only the rewritten chapter text.${describeStorySettings(settings, true)}
+
+Chapter:
+${chapters[chapters.length - 1]}`;
+
+  try {
+    const recordUsage = trackUsage('story', model);
+    const response = await ai.models.generateContent({
+        model: model,
+        contents: prompt,
+    });
+    recordUsage(tokenUsage(response));
+    throwIfBlocked(response);
+    return response.text;
+  } catch (error) {
+    console.error("Error rewriting story chapter:", error);
+    throw error;
+  }
+};
+
+/**
+ * Splits a story into scenes with visual prompts using structured output.
+ * @param story The story text.
+ * @param sceneCount The number of scenes to produce.
+ * @returns A promise that resolves to the scenes, in story order.
+ */
+const generateStoryboard = async (story: string, sceneCount: number): Promise<StoryboardScene[]> => {
+  const ai = createClient();
+  const model = MODELS.text;
+  const prompt = `Split the following story into exactly ${sceneCount} consecutive scenes for a storyboard. For each scene give a short title, the part of the story it covers as narration, and a self-contained visual prompt for an AI image or video generator. Every visual prompt must describe the characters, setting, lighting and camera framing on its own, so that consistent images can be generated without reading the other scenes.
+
+Story:
+${story}`;
+
+  try {
+    const recordUsage = trackUsage('storyboard', model);
+    const response = await ai.models.generateContent({
+        model: model,
+        contents: prompt,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    scenes: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                title: { type: Type.STRING, description: "A short scene title" },
+                                narration: { type: Type.STRING, description: "The part of the story told in this scene" },
+                                visualPrompt: { type: Type.STRING, description: "A self-contained visual prompt for the scene" },
+                            },
+                            required: ['title', 'narration', 'visualPrompt'],
+                        }
+                    }
+                }
+            }
+        }
+    });
+    recordUsage(tokenUsage(response));
+    throwIfBlocked(response);
+    const result = JSON.parse(response.text.trim());
+    if (result.scenes && Array.isArray(result.scenes)) {
+        return result.scenes;
+    } else {
+        throw new EmptyResultError("AI response did not contain a 'scenes' array.");
+    }
+  } catch (error) {
+    console.error("Error generating storyboard:", error);
+    throw error;
+  }
+};
+
+const MAX_SPEECH_SPEAKERS = 2;
+
+/**
+ * Builds the prompt and speech config for a narration or a tagged dialogue.
+ */
+const buildSpeechRequest = (text: string, options: SpeechOptions): { prompt: string; speechConfig: SpeechConfig } => {
+  const { voiceName = DEFAULT_VOICE, style, speakers } = options;
+
+  if (speakers && speakers.length > 0) {
+    if (speakers.length > MAX_SPEECH_SPEAKERS) {
+      throw new InvalidInputError(`Multi-speaker speech supports at most ${MAX_SPEECH_SPEAKERS} speakers.`);
+    }
+    const names = speakers.map(s => s.speaker).join(' and ');
+    const instruction = style ? `TTS the following conversation between ${names} (${style})` : `TTS the following conversation between ${names}`;
+    return {
+      prompt: `${instruction}:\n${text}`,
+      speechConfig: {
+        multiSpeakerVoiceConfig: {
+          speakerVoiceConfigs: speakers.map(s => ({
+            speaker: s.speaker,
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voiceName } },
+          })),
+        },
+      },
+    };
+  }
+
+  return {
+    prompt: `${style ? `Read this in the following style: ${style}` : 'Read this with an expressive, narrative voice'}: ${text}`,
+    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+  };
+};
+
+/**
+ * Converts text to speech using the Gemini TTS model.
+ * @param text The text to convert to speech.
+ * @param options The voice, delivery style and optional dialogue speakers.
+ * @returns A promise that resolves to the base64 encoded audio data.
+ */
+const generateSpeechFromText = async (text: string, options: SpeechOptions = {}): Promise<string> => {
+  const ai = createClient();
+  const model = MODELS.speech;
+  const { prompt, speechConfig } = buildSpeechRequest(text, options);
+
+  try {
+    const recordUsage = trackUsage('speech', model);
+    const response = await ai.models.generateContent({
+      model: model,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig,
+      },
+    });
+    recordUsage(tokenUsage(response));
+    throwIfBlocked(response);
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+
+    if (base64Audio) {
+      return base64Audio;
+    } else {
+      throw new EmptyResultError("No audio data received from the AI model.");
+    }
+
+  } catch (error) {
+    console.error("Error generating speech from text:", error);
+    throw error;
+  }
+};
+
+/**
+ * Generates an image from a text prompt.
+ * @param prompt The text prompt for the image.
+ * @param aspectRatio The desired aspect ratio.
+ * @returns A promise that resolves to a data URL for the generated image.
+ */
+const generateImageFromPrompt = async (
+  prompt: string,
+  aspectRatio: ImageAspectRatio,
+  {
+    numberOfImages = 1,
+    imageSize,
+    personGeneration,
+    outputMimeType = 'image/jpeg',
+    modelTier = 'standard',
+  }: ImageGenerationOptions = {}
+): Promise<ImageCandidate[]> => {
+  const imageAI = createClient();
+  try {
+    // The Gemini API rejects `seed` and `negativePrompt` for Imagen, so both are dropped.
+    // Listing things to avoid in the prompt tends to draw them in, so that is not attempted either.
+    // Imagen 4 Fast has no 2K output, so its candidates are upscaled with the standard model.
+    const model = imageSize === '2K' && modelTier === 'fast' ? IMAGE_MODELS.standard : IMAGE_MODELS[modelTier];
+    // Imagen 4 Ultra returns a single image per request.
+    const batchSizes = modelTier === 'ultra' ? Array<number>(numberOfImages).fill(1) : [numberOfImages];
+
+    const recordUsage = trackUsage('image', model);
+    const responses = await Promise.all(batchSizes.map(count => imageAI.models.generateImages({
+        model,
+        prompt,
+        config: {
+          numberOfImages: count,
+          outputMimeType,
+          aspectRatio: aspectRatio,
+          includeRaiReason: true,
+          ...(imageSize ? { imageSize } : {}),
+          ...(personGeneration ? { personGeneration: PERSON_GENERATION[personGeneration] } : {}),
+        },
+    })));
+
+    const generatedImages = responses.flatMap(response => response.generatedImages ?? []);
+    const candidates = generatedImages
+      .map(generated => generated.image?.imageBytes)
+      .filter((bytes): bytes is string => Boolean(bytes))
+      .map(bytes => ({ dataUrl: `data:${outputMimeType};base64,${bytes}`, model }));
+    if (candidates.length === 0) {
+      // Filtered images come back without bytes but with the reason they were filtered.
+      const reasons = generatedImages.map(generated => generated.raiFilteredReason).filter((reason): reason is string => Boolean(reason));
+      if (reasons.length > 0) {
+        throw new SafetyError(`Image generation was blocked by safety filters: ${[...new Set(reasons)].join(' ')}`);
+      }
+      throw new EmptyResultError("Image generation succeeded, but no image data was returned.");
+    }
+    recordUsage({ images: candidates.length });
+    return candidates;
+  } catch (error) {
+    console.error("Error generating image:", error);
+    throw error;
+  }
+};
+
+const EDIT_INSTRUCTIONS: Record<ImageEditMode, (instruction: string) => string> = {
+  instruct: instruction => `Edit this image as follows: ${instruction}\nKeep everything else about the image unchanged.`,
+  inpaint: instruction => `The second image is a mask for the first. Change only the areas that are white in the mask, as follows: ${instruction}\nLeave the areas that are black in the mask exactly as they are, and blend the edit seamlessly into its surroundings.`,
+  outpaint: instruction => `The first image has been placed on a larger canvas. The second image is a mask in which the empty border areas are white. Fill those areas so the picture extends naturally beyond its original edges, matching its style, lighting and perspective, and keep the original area unchanged.${instruction ? `\nAdditional guidance: ${instruction}` : ''}`,
+};
+
+/**
+ * Edits an image with an image-capable Gemini model. Masks are sent as a
+ * second image and described in the prompt.
+ * @param request The edit mode, image, instruction and optional mask.
+ * @returns A promise that resolves to the edited image.
+ */
+const editImage = async ({ mode, base64Image, mimeType, instruction, base64Mask }: ImageEditRequest): Promise<ImageCandidate> => {
+  const ai = createClient();
+  const parts = [
+    { inlineData: { data: base64Image, mimeType } },
+    ...(base64Mask ? [{ inlineData: { data: base64Mask, mimeType: 'image/png' } }] : []),
+    { text: EDIT_INSTRUCTIONS[mode](instruction.trim()) },
+  ];
+
+  try {
+    const recordUsage = trackUsage('imageEdit', MODELS.imageEdit);
+    const response = await ai.models.generateContent({
+      model: MODELS.imageEdit,
+      contents: { parts },
+      config: {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+      },
+    });
+    recordUsage(tokenUsage(response));
+    throwIfBlocked(response);
+
+    const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+    if (!image?.data) {
+      throw new EmptyResultError("Image editing succeeded, but no image was returned.");
+    }
+    return { dataUrl: `data:${image.mimeType ?? 'image/png'};base64,${image.data}`, model: MODELS.imageEdit };
+  } catch (error) {
+    console.error("Error editing image:", error);
+    throw error;
+  }
+};
+
+/**
+ * Starts a video generation from a prompt and optional starting image.
+ * @param request The prompt, aspect ratio, duration, people policy and optional starting image.
+ * @returns A promise that resolves to the name of the long-running operation.
+ */
+const startVideoGeneration = async ({
+  prompt,
+  aspectRatio,
+  duration,
+  allowPeople,
+  base64Image,
+  mimeType,
+}: VideoRequest): Promise<string> => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new AuthError("API key is not available.");
+  }
+
+  const videoAI = createClient(apiKey);
+
+  const requestPayload: any = {
+    model: MODELS.video,
+    prompt,
+    config: {
+      numberOfVideos: 1,
+      aspectRatio: aspectRatio,
+      durationSeconds: duration,
+      personGeneration: allowPeople ? PersonGeneration.ALLOW_ALL : PersonGeneration.DONT_ALLOW
+    }
+  };
+
+  if (base64Image && mimeType) {
+    requestPayload.image = {
+      imageBytes: base64Image,
+      mimeType: mimeType,
+    };
+  }
+
+  try {
+    const operation = await videoAI.models.generateVideos(requestPayload);
+    if (!operation.name) {
+      throw new EmptyResultError("Video generation started, but no operation name was returned.");
+    }
+    return operation.name;
+  } catch (error) {
+    console.error("Error starting video generation:", error);
+    throw error;
+  }
+};
+
+/** Kinds for the google.rpc status codes a failed video operation reports. */
+const OPERATION_ERROR_KINDS: Record<number, AppErrorKind> = {
+  3: 'invalidInput', // INVALID_ARGUMENT
+  4: 'timeout', // DEADLINE_EXCEEDED
+  7: 'auth', // PERMISSION_DENIED
+  8: 'quota', // RESOURCE_EXHAUSTED
+  9: 'invalidInput', // FAILED_PRECONDITION
+  11: 'invalidInput', // OUT_OF_RANGE
+  14: 'network', // UNAVAILABLE
+  16: 'auth', // UNAUTHENTICATED
+};
+
+/**
+ * Classifies the error of a finished video operation. Codes without a kind
+ * count as an empty result rather than 'unknown', since polling the finished
+ * operation again cannot turn it into a video.
+ * @param error The operation's status, e.g. { code: 3, message: '...' }.
+ */
+const toOperationError = (error: Record<string, unknown>): AppError => {
+  const detail = typeof error.message === 'string' && error.message ? error.message : JSON.stringify(error);
+  const message = `Video generation failed: ${detail}`;
+  if (/\bSAFETY\b|blocked|safety|responsible ai/i.test(detail)) {
+    return new SafetyError(message);
+  }
+  const kind = typeof error.code === 'number' ? OPERATION_ERROR_KINDS[error.code] : undefined;
+  return createAppError(kind ?? 'emptyResult', message);
+};
+
+/**
+ * Checks on a video operation and downloads the video once it is done.
+ * @param operationName The name returned by startVideoGeneration.
+ * @returns A promise that resolves to the current status of the operation.
+ */
+const pollVideoOperation = async (operationName: string): Promise<VideoOperationStatus> => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new AuthError("API key is not available.");
+  }
+
+  const videoAI = createClient(apiKey);
+  const pending = new GenerateVideosOperation();
+  pending.name = operationName;
+
+  try {
+    const operation = await videoAI.operations.getVideosOperation({ operation: pending });
+    const progressPercent = operation.metadata?.progressPercent;
+    const progress = typeof progressPercent === 'number' ? progressPercent / 100 : undefined;
+
+    if (!operation.done) {
+      return { done: false, progress };
+    }
+
+    if (operation.error) {
+      throw toOperationError(operation.error);
+    }
+
+    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+    const { raiMediaFilteredCount = 0, raiMediaFilteredReasons = [] } = operation.response ?? {};
+    if (!downloadLink && (raiMediaFilteredCount > 0 || raiMediaFilteredReasons.length > 0)) {
+      throw new SafetyError(`Video generation was blocked by safety filters: ${raiMediaFilteredReasons.join(' ') || `${raiMediaFilteredCount} video(s) filtered.`}`);
+    }
+    if (!downloadLink) {
+      throw new EmptyResultError("Video generation succeeded, but no download link was provided.");
+    }
+
+    const response = await fetch(`${downloadLink}&key=${apiKey}`);
+    if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`Failed to download video: ${response.statusText}. Details: ${errorBody}`);
+    }
+
+    return { done: true, progress: 1, videoBlob: await response.blob() };
+  } catch (error) {
+    console.error("Error polling video operation:", error);
+    throw error;
+  }
+};
+
+/**
+ * Checks that a key is accepted by the API with a cheap metadata request.
+ * @param apiKey The key to check.
+ */
+const validateApiKey = async (apiKey: string): Promise<void> => {
+  const ai = createClient(apiKey);
+  try {
+    await ai.models.get({ model: MODELS.text });
+  } catch (error) {
+    console.error("Error validating API key:", error);
+    throw error;
+  }
+};
+
+export const geminiProvider: CreativeProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: MODELS,
+  requiresApiKey: true,
+  validateApiKey,
+  generateIdeas,
+  enhancePrompt,
+  rephrasePromptSafely,
+  generateStoryFromImages,
+  continueStory,
+  rewriteChapter,
+  generateStoryboard,
+  generateSpeechFromText,
+  speechVoices: PREBUILT_VOICES,
+  maxSpeechSpeakers: MAX_SPEECH_SPEAKERS,
+  generateImageFromPrompt,
+  supportsImageSeed: false,
+  supportsNegativePrompt: false,
+  editImage,
+  startVideoGeneration,
+  pollVideoOperation,
+  // Per documentation, poll every 10 seconds for video operations.
+  videoPollIntervalMs: 10000,
+};
@@ -0,0 +1,337 @@
+import { encode } from '../../utils/audioUtils';
+import { loadImageElement } from '../../utils/imageEditing';
+import { PREBUILT_VOICES } from './speechVoices';
+import { trackUsage } from '../usageLedger';
+import { clampIdeaCount } from '../ideaSettings';
+import { CreativeProvider, ImageAspectRatio, ImageCandidate, ImageEditRequest, ImageGenerationOptions, ImageModelTier, Idea, IdeaRequest, ModelRole, PromptTarget, StoryImage, StoryboardScene, VideoAspectRatio, VideoOperationStatus, VideoRequest } from './types';
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_SAMPLE_RATE = 24000;
+const MOCK_VIDEO_SECONDS = 2;
+const MOCK_VIDEO_JOB_MS = 8000;
+const MOCK_OPERATION_PREFIX = 'mock/operations/';
+
+const IMAGE_MODELS: Record<ImageModelTier, string> = {
+  standard: 'mock-image',
+  fast: 'mock-image-fast',
+  ultra: 'mock-image-ultra',
+};
+
+const MODELS: Record<ModelRole, string> = {
+  text: 'mock-text',
+  speech: 'mock-speech',
+  image: IMAGE_MODELS.standard,
+  imageEdit: 'mock-image-edit',
+  video: 'mock-video',
+};
+
+const CANNED_IDEAS: Idea[] = [
+  { title: 'Serpent Breakfast', prompt: 'A lighthouse keeper feeding paper boats to a sleeping sea serpent at dawn', aspectRatio: '16:9', tags: ['sea', 'dawn'] },
+  { title: 'Storm Market', prompt: 'A floating market of hot-air balloons selling bottled thunderstorms', aspectRatio: '4:3', tags: ['sky', 'market'] },
+  { title: 'Clockwork Fox', prompt: 'A clockwork fox tiptoeing through a snow-covered bamboo forest', aspectRatio: '3:4', tags: ['winter', 'automaton'] },
+  { title: 'Ivy Observatory', prompt: 'An abandoned observatory overgrown with bioluminescent ivy under a double moon', aspectRatio: '9:16', tags: ['night', 'ruins'] },
+  { title: 'Teacup Dragon', prompt: 'A tiny dragon brewing tea inside a teacup-shaped cottage', aspectRatio: '1:1', tags: ['cozy', 'dragon'] },
+];
+
+const CANNED_STORY = `The fog rolled in over the cobblestones like a slow, grey tide, carrying the smell of salt and woodsmoke. Somewhere beyond the harbour a bell rang three times, though no ship had been expected for a week. Mara pulled her coat tighter and watched the lantern at the end of the pier flicker, as if something just beyond the light had drawn a breath.`;
+
+const CANNED_CONTINUATIONS = [
+  `The light went out. In the sudden dark Mara heard the slap of oars, slow and deliberate, and a voice she had not heard since the winter her brother sailed: "You kept the lantern burning. I knew you would."`,
+  `By morning the harbour was full of ships no one remembered building. Their sails were stitched from old letters, and every one of them was addressed to Mara.`,
+  `She followed the bell's echo down to the tide pools, where the water held perfectly still and showed not her reflection but the town as it had been a hundred years before.`,
+];
+
+const PALETTE = ['#7c3aed', '#db2777', '#f59e0b', '#06b6d4', '#10b981', '#6366f1'];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Small, stable string hash so the same prompt always yields the same placeholder. */
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const IMAGE_DIMENSIONS: Record<ImageAspectRatio, [number, number]> = {
+  '1:1': [512, 512],
+  '3:4': [384, 512],
+  '4:3': [512, 384],
+  '9:16': [288, 512],
+  '16:9': [512, 288],
+};
+
+const drawPlaceholder = (ctx: CanvasRenderingContext2D, width: number, height: number, label: string, progress = 0, colorKey = label) => {
+  const hash = hashString(colorKey);
+  const from = PALETTE[hash % PALETTE.length];
+  const to = PALETTE[(hash >> 3) % PALETTE.length];
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, from);
+  gradient.addColorStop(1, to);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.beginPath();
+  ctx.arc(width * (0.2 + 0.6 * progress), height / 2, Math.min(width, height) / 8, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(height / 16)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.fillText('MOCK', width / 2, height * 0.2);
+  ctx.font = `${Math.round(height / 24)}px sans-serif`;
+  ctx.fillText(label.slice(0, 48), width / 2, height * 0.85);
+};
+
+const generateIdeas = async (request: IdeaRequest = {}): Promise<Idea[]> => {
+  trackUsage('ideas', MODELS.text)({});
+  await delay(MOCK_LATENCY_MS);
+  const count = clampIdeaCount(request.count);
+  const theme = request.theme?.trim();
+  const extraTags = [request.medium, request.mood].filter((tag): tag is NonNullable<typeof tag> => Boolean(tag));
+  return Array.from({ length: count }, (_, index) => {
+    const idea = CANNED_IDEAS[index % CANNED_IDEAS.length];
+    const prompt = request.similarTo ? `${request.similarTo.prompt}, variation ${index + 1}` : idea.prompt;
+    return {
+      title: request.similarTo ? `${request.similarTo.title} ${index + 1}` : idea.title,
+      prompt: theme ? `${prompt} (${theme})` : prompt,
+      aspectRatio: request.medium === 'video' ? '16:9' : idea.aspectRatio,
+      tags: [...idea.tags, ...extraTags],
+    };
+  });
+};
+
+const enhancePrompt = async (prompt: string, target: PromptTarget): Promise<string> => {
+  trackUsage('enhancePrompt', MODELS.text)({});
+  await delay(MOCK_LATENCY_MS);
+  const details = target === 'video'
+    ? 'slow dolly in, drifting mist, golden hour light, cinematic 35mm look'
+    : 'soft golden hour light, shallow depth of field, rich color palette, rule of thirds composition';
+  return `${prompt.trim()}, ${details}`;
+};
+
+const rephrasePromptSafely = async (prompt: string): Promise<string> => {
+  trackUsage('rephrasePrompt', MODELS.text)({});
+  await delay(MOCK_LATENCY_MS);
+  return `${prompt.trim()}, family friendly, gentle and non-graphic`;
+};
+
+const generateStoryFromImages = async (images: StoryImage[]): Promise<string> => {
+  trackUsage('story', MODELS.text)({});
+  await delay(MOCK_LATENCY_MS);
+  const captions = images.map(image => image.caption).filter(Boolean);
+  return captions.length > 0 ? `${CANNED_STORY} (${captions.join(' → ')})` : CANNED_STORY;
+};
+
+const continueStory = async (chapters: string[], direction?: string): Promise<string> => {
+  trackUsage('story', MODELS.text)({});
+  await delay(MOCK_LATENCY_MS);
+  const continuation = CANNED_CONTINUATIONS[(chapters.length - 1) % CANNED_CONTINUATIONS.length];
+  return direction ? `${continuation} (${direction})` : continuation;
+};
+
+const rewriteChapter = async (chapters: string[], tone: string): Promise<string> => {
+  trackUsage('story', MODELS.text)({});
+  await delay(MOCK_LATENCY_MS);
+  return `[${tone}] ${chapters[chapters.length - 1]}`;
+};
+
+/**
+ * Deals the story's sentences out evenly across the requested scenes.
+ */
+const generateStoryboard = async (story: string, sceneCount: number): Promise<StoryboardScene[]> => {
+  trackUsage('storyboard', MODELS.text)({});
+  await delay(MOCK_LATENCY_MS);
+  const sentences = story.match(/[^.!?]+[.!?]*/g)?.map(sentence => sentence.trim()).filter(Boolean) ?? [story];
+  const perScene = Math.max(1, Math.ceil(sentences.length / sceneCount));
+  return Array.from({ length: sceneCount }, (_, index) => {
+    const narration = sentences.slice(index * perScene, (index + 1) * perScene).join(' ') || sentences[sentences.length - 1];
+    return {
+      title: `Scene ${index + 1}`,
+      narration,
+      visualPrompt: `Cinematic still, soft volumetric light: ${narration}`,
+    };
+  });
+};
+
+/**
+ * Returns silent 16-bit PCM whose length roughly matches how long the text
+ * would take to read aloud, so playback UI behaves realistically.
+ */
+const generateSpeechFromText = async (text: string): Promise<string> => {
+  trackUsage('speech', MODELS.speech)({});
+  await delay(MOCK_LATENCY_MS);
+  const wordCount = text.split(/\s+/).filter(Boolean).length;
+  const seconds = Math.min(30, Math.max(1, wordCount / 2.5));
+  const samples = Math.round(seconds * MOCK_SAMPLE_RATE);
+  return encode(new Uint8Array(samples * 2));
+};
+
+/**
+ * Draws one placeholder per candidate. The seed picks the colors, so passing
+ * a candidate's seed back reproduces it; without one, the seed comes from the
+ * prompt, aspect ratio and model, so the same request draws the same images.
+ */
+const generateImageFromPrompt = async (
+  prompt: string,
+  aspectRatio: ImageAspectRatio,
+  { numberOfImages = 1, seed, imageSize, outputMimeType = 'image/jpeg', modelTier = 'standard' }: ImageGenerationOptions = {}
+): Promise<ImageCandidate[]> => {
+  const model = IMAGE_MODELS[modelTier];
+  trackUsage('image', model)({ images: numberOfImages });
+  await delay(MOCK_LATENCY_MS);
+  const scale = imageSize === '2K' ? 2 : 1;
+  const [width, height] = IMAGE_DIMENSIONS[aspectRatio].map(size => size * scale);
+  const firstSeed = seed ?? hashString(`${prompt}|${aspectRatio}|${model}`);
+  return Array.from({ length: numberOfImages }, (_, index) => {
+    const candidateSeed = firstSeed + index;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error("Canvas 2D context is not available for the mock provider.");
+    }
+    drawPlaceholder(ctx, width, height, prompt, 0, `${prompt}#${candidateSeed}`);
+    return { dataUrl: canvas.toDataURL(outputMimeType), seed: candidateSeed, model };
+  });
+};
+
+/**
+ * Returns the input image lightened where the mask is white (or tinted all
+ * over, for instruction edits) and labeled with the instruction.
+ */
+const editImage = async ({ mode, base64Image, mimeType, instruction, base64Mask }: ImageEditRequest): Promise<ImageCandidate> => {
+  trackUsage('imageEdit', MODELS.imageEdit)({});
+  await delay(MOCK_LATENCY_MS);
+  const source = await loadImageElement(`data:${mimeType};base64,${base64Image}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = source.naturalWidth;
+  canvas.height = source.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available for the mock provider.");
+  }
+  ctx.drawImage(source, 0, 0);
+
+  ctx.globalAlpha = 0.5;
+  if (base64Mask) {
+    ctx.globalCompositeOperation = 'screen';
+    ctx.drawImage(await loadImageElement(`data:image/png;base64,${base64Mask}`), 0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'source-over';
+  } else {
+    ctx.fillStyle = PALETTE[hashString(instruction) % PALETTE.length];
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.globalAlpha = 1;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(canvas.height / 20)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.fillText(`MOCK ${mode}: ${instruction}`.slice(0, 48), canvas.width / 2, canvas.height * 0.1);
+  return { dataUrl: canvas.toDataURL('image/png'), model: MODELS.imageEdit };
+};
+
+/**
+ * Records a short animated placeholder clip from a canvas. MP4 is used where
+ * the browser's MediaRecorder supports it, WebM otherwise.
+ */
+const renderMockClip = async (prompt: string, aspectRatio: VideoAspectRatio): Promise<Blob> => {
+  const width = 320;
+  const height = aspectRatio === '16:10' ? 200 : 180;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || typeof MediaRecorder === 'undefined') {
+    throw new Error("Video recording is not supported in this browser.");
+  }
+
+  const mimeType = ['video/mp4', 'video/webm;codecs=vp8', 'video/webm']
+    .find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+  const stream = canvas.captureStream(24);
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const startedAt = performance.now();
+  const durationMs = MOCK_VIDEO_SECONDS * 1000;
+  recorder.start();
+  await new Promise<void>(resolve => {
+    const drawFrame = () => {
+      const progress = Math.min(1, (performance.now() - startedAt) / durationMs);
+      drawPlaceholder(ctx, width, height, prompt || 'mock video', progress);
+      if (progress < 1) {
+        requestAnimationFrame(drawFrame);
+      } else {
+        resolve();
+      }
+    };
+    drawFrame();
+  });
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(track => track.stop());
+
+  return new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+};
+
+interface MockOperation {
+  prompt: string;
+  aspectRatio: VideoAspectRatio;
+  startedAt: number;
+}
+
+/**
+ * The whole request is encoded into the operation name so that a mock job
+ * can be resumed after a reload exactly like a real one.
+ */
+const startVideoGeneration = async ({ prompt, aspectRatio }: VideoRequest): Promise<string> => {
+  await delay(MOCK_LATENCY_MS);
+  const operation: MockOperation = { prompt, aspectRatio, startedAt: Date.now() };
+  return MOCK_OPERATION_PREFIX + encodeURIComponent(JSON.stringify(operation));
+};
+
+const pollVideoOperation = async (operationName: string): Promise<VideoOperationStatus> => {
+  if (!operationName.startsWith(MOCK_OPERATION_PREFIX)) {
+    throw new Error(`Unknown mock operation "${operationName}".`);
+  }
+  const operation: MockOperation = JSON.parse(decodeURIComponent(operationName.slice(MOCK_OPERATION_PREFIX.length)));
+  const elapsed = Date.now() - operation.startedAt;
+  if (elapsed < MOCK_VIDEO_JOB_MS) {
+    return { done: false, progress: elapsed / MOCK_VIDEO_JOB_MS };
+  }
+  const videoBlob = await renderMockClip(operation.prompt, operation.aspectRatio);
+  return { done: true, progress: 1, videoBlob };
+};
+
+/** Any key is accepted, since the mock never calls an API. */
+const validateApiKey = async (): Promise<void> => undefined;
+
+export const mockProvider: CreativeProvider = {
+  id: 'mock',
+  label: 'Local mock (offline)',
+  models: MODELS,
+  requiresApiKey: false,
+  validateApiKey,
+  generateIdeas,
+  enhancePrompt,
+  rephrasePromptSafely,
+  generateStoryFromImages,
+  continueStory,
+  rewriteChapter,
+  generateStoryboard,
+  generateSpeechFromText,
+  speechVoices: PREBUILT_VOICES,
+  maxSpeechSpeakers: 2,
+  generateImageFromPrompt,
+  supportsImageSeed: true,
+  supportsNegativePrompt: true,
+  editImage,
+  startVideoGeneration,
+  pollVideoOperation,
+  videoPollIntervalMs: 1000,
+};
@@ -0,0 +1,48 @@
+import { CreativeProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+const DEFAULT_PROVIDER_ID = 'gemini';
+
+const providers = new Map<string, CreativeProvider>();
+
+let activeProviderId = process.env.AI_PROVIDER || DEFAULT_PROVIDER_ID;
+
+/**
+ * Registers a provider so it can be selected by id. Registering an id twice
+ * replaces the earlier provider.
+ */
+export const registerProvider = (provider: CreativeProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+/**
+ * Lists every registered provider.
+ */
+export const listProviders = (): CreativeProvider[] => Array.from(providers.values());
+
+/**
+ * Switches the provider used by all subsequent service calls.
+ * @param id The id of a registered provider.
+ */
+export const setActiveProvider = (id: string): void => {
+  if (!providers.has(id)) {
+    throw new Error(`Unknown AI provider "${id}".`);
+  }
+  activeProviderId = id;
+};
+
+/**
+ * Resolves the provider selected by configuration (the AI_PROVIDER env value)
+ * or by the last call to setActiveProvider.
+ */
+export const getActiveProvider = (): CreativeProvider => {
+  const provider = providers.get(activeProviderId);
+  if (!provider) {
+    throw new Error(`Unknown AI provider "${activeProviderId}". Available providers: ${Array.from(providers.keys()).join(', ')}.`);
+  }
+  return provider;
+};
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
@@ -0,0 +1,37 @@
+import { SpeechVoice } from './types';
+
+/** The prebuilt voices offered by the Gemini text-to-speech models. */
+export const PREBUILT_VOICES: SpeechVoice[] = [
+  { name: 'Kore', trait: 'firm' },
+  { name: 'Zephyr', trait: 'bright' },
+  { name: 'Puck', trait: 'upbeat' },
+  { name: 'Charon', trait: 'informative' },
+  { name: 'Fenrir', trait: 'excitable' },
+  { name: 'Leda', trait: 'youthful' },
+  { name: 'Orus', trait: 'firm' },
+  { name: 'Aoede', trait: 'breezy' },
+  { name: 'Callirrhoe', trait: 'easyGoing' },
+  { name: 'Autonoe', trait: 'bright' },
+  { name: 'Enceladus', trait: 'breathy' },
+  { name: 'Iapetus', trait: 'clear' },
+  { name: 'Umbriel', trait: 'easyGoing' },
+  { name: 'Algieba', trait: 'smooth' },
+  { name: 'Despina', trait: 'smooth' },
+  { name: 'Erinome', trait: 'clear' },
+  { name: 'Algenib', trait: 'gravelly' },
+  { name: 'Rasalgethi', trait: 'informative' },
+  { name: 'Laomedeia', trait: 'upbeat' },
+  { name: 'Achernar', trait: 'soft' },
+  { name: 'Alnilam', trait: 'firm' },
+  { name: 'Schedar', trait: 'even' },
+  { name: 'Gacrux', trait: 'mature' },
+  { name: 'Pulcherrima', trait: 'forward' },
+  { name: 'Achird', trait: 'friendly' },
+  { name: 'Zubenelgenubi', trait: 'casual' },
+  { name: 'Vindemiatrix', trait: 'gentle' },
+  { name: 'Sadachbia', trait: 'lively' },
+  { name: 'Sadaltager', trait: 'knowledgeable' },
+  { name: 'Sulafat', trait: 'warm' },
+];
+
+export const DEFAULT_VOICE = 'Kore';
@@ -0,0 +1,203 @@
+import { SafetyCategory } from '../errors';
+
+export type ImageAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+export type VideoAspectRatio = '16:9' | '16:10';
+
+/** What a prompt will be used to generate, which decides the details worth adding. */
+export type PromptTarget = 'image' | 'video';
+
+/** What an idea is meant to become. */
+export type IdeaMedium = 'image' | 'video' | 'story';
+export type IdeaMood = 'uplifting' | 'mysterious' | 'dreamy' | 'epic' | 'cozy' | 'eerie' | 'playful' | 'melancholic';
+
+export interface IdeaRequest {
+  /** Subject area the ideas should explore. */
+  theme?: string;
+  /** How many ideas to return, from 1 to 10. Defaults to 5. */
+  count?: number;
+  /** Defaults to image. */
+  medium?: IdeaMedium;
+  mood?: IdeaMood;
+  /** An earlier idea to riff on ("more like this"). */
+  similarTo?: Idea;
+}
+
+export interface Idea {
+  title: string;
+  prompt: string;
+  /** The aspect ratio that suits the idea best. */
+  aspectRatio: ImageAspectRatio;
+  tags: string[];
+}
+
+export type ModelRole = 'text' | 'speech' | 'image' | 'imageEdit' | 'video';
+
+export type ImageSize = '1K' | '2K';
+export type ImageModelTier = 'standard' | 'fast' | 'ultra';
+export type ImagePersonGeneration = 'dontAllow' | 'allowAdult' | 'allowAll';
+export type ImageOutputMimeType = 'image/jpeg' | 'image/png';
+
+export interface ImageGenerationOptions {
+  /** How many candidates to generate, from 1 to 4. */
+  numberOfImages?: number;
+  /** Reproduces an earlier candidate when the provider honors seeds. */
+  seed?: number;
+  /** Output resolution; '2K' is used to upscale a chosen candidate. */
+  imageSize?: ImageSize;
+  /** Things the image should not contain; ignored unless the provider supports negative prompts. */
+  negativePrompt?: string;
+  personGeneration?: ImagePersonGeneration;
+  /** Defaults to JPEG. */
+  outputMimeType?: ImageOutputMimeType;
+  /** Defaults to the standard model. */
+  modelTier?: ImageModelTier;
+}
+
+export type ImageEditMode = 'instruct' | 'inpaint' | 'outpaint';
+
+export interface ImageEditRequest {
+  mode: ImageEditMode;
+  /** The image to edit, already extended with empty borders when outpainting. */
+  base64Image: string;
+  mimeType: string;
+  /** What to change; optional when outpainting. */
+  instruction: string;
+  /** PNG mask, white where the image may change. Required for inpainting and outpainting. */
+  base64Mask?: string;
+}
+
+export interface ImageCandidate {
+  /** Data URL of the generated image. */
+  dataUrl: string;
+  /** The seed that reproduces this candidate, when the provider honors seeds. */
+  seed?: number;
+  /** The model that produced the image, which may differ from the requested tier. */
+  model: string;
+}
+
+export interface VideoRequest {
+  prompt: string;
+  aspectRatio: VideoAspectRatio;
+  duration: number;
+  allowPeople: boolean;
+  base64Image?: string;
+  mimeType?: string;
+}
+
+export type StoryGenre = 'fantasy' | 'sciFi' | 'mystery' | 'romance' | 'horror' | 'adventure' | 'fairyTale' | 'sliceOfLife';
+export type StoryTone = 'whimsical' | 'dark' | 'hopeful' | 'melancholic' | 'humorous' | 'suspenseful';
+export type StoryLength = 'short' | 'medium' | 'long';
+export type StoryPointOfView = 'first' | 'third';
+export type StoryAgeRating = 'children' | 'teen' | 'adult';
+
+/** Shapes every story request; fields left undefined are up to the model. */
+export interface StorySettings {
+  genre?: StoryGenre;
+  tone?: StoryTone;
+  length: StoryLength;
+  pointOfView?: StoryPointOfView;
+  ageRating: StoryAgeRating;
+  /** Language code of the text to write, e.g. "vi" or "en". */
+  outputLanguage: string;
+}
+
+/** One picture handed to the story writer, in the order the user arranged them. */
+export interface StoryImage {
+  base64ImageData: string;
+  mimeType: string;
+  /** What the user says this image shows or who is in it. */
+  caption?: string;
+}
+
+/** A prebuilt speech voice and the quality it is known for. */
+export interface SpeechVoice {
+  name: string;
+  /** Short characteristic such as "bright" or "warm", used as a translation key suffix. */
+  trait: string;
+}
+
+/** Assigns a voice to a character name that tags dialogue lines ("Name: line"). */
+export interface SpeakerVoice {
+  speaker: string;
+  voiceName: string;
+}
+
+export interface SpeechOptions {
+  /** Voice for single-speaker narration. */
+  voiceName?: string;
+  /** Free-form delivery instruction, e.g. "slow and spooky". */
+  style?: string;
+  /** When present, the text is read as a dialogue with one voice per tagged speaker. */
+  speakers?: SpeakerVoice[];
+}
+
+/** One scene of a storyboard, as planned by the text model. */
+export interface StoryboardScene {
+  title: string;
+  /** The part of the story told in this scene. */
+  narration: string;
+  /** A self-contained image/video prompt describing the scene's visuals. */
+  visualPrompt: string;
+}
+
+/** The state of a long-running video generation operation. */
+export interface VideoOperationStatus {
+  done: boolean;
+  /** Completion between 0 and 1, when the backend reports it. */
+  progress?: number;
+  /** The finished video, present once done. */
+  videoBlob?: Blob;
+}
+
+/**
+ * The contract every AI backend must fulfil. Components never talk to a
+ * provider directly; they go through the functions in geminiService, which
+ * resolve the active provider from the registry.
+ */
+export interface CreativeProvider {
+  /** Unique identifier used to register and select the provider. */
+  id: string;
+  /** Human readable name shown in diagnostics. */
+  label: string;
+  /** The model used for each kind of generation, recorded alongside saved assets. */
+  models: Record<ModelRole, string>;
+  /** Whether calls need an API key; providers that run locally skip the key screens. */
+  requiresApiKey: boolean;
+  /** Resolves when the API accepts the key and throws the service's error otherwise. */
+  validateApiKey(apiKey: string): Promise<void>;
+  generateIdeas(request?: IdeaRequest): Promise<Idea[]>;
+  /** Expands a short prompt with visual detail suited to the target medium. */
+  enhancePrompt(prompt: string, target: PromptTarget): Promise<string>;
+  /** Rewrites a prompt that safety filters blocked so it keeps its intent but avoids the flagged categories. */
+  rephrasePromptSafely(prompt: string, target: PromptTarget, categories: SafetyCategory[]): Promise<string>;
+  /** Writes a story opening that ties all of the images together, in order. */
+  generateStoryFromImages(images: StoryImage[], settings?: StorySettings): Promise<string>;
+  /** Writes the chapter that follows `chapters`, optionally steered by a direction. */
+  continueStory(chapters: string[], direction?: string, settings?: StorySettings): Promise<string>;
+  /** Rewrites the last of `chapters` in a different tone, keeping its events. */
+  rewriteChapter(chapters: string[], tone: string, settings?: StorySettings): Promise<string>;
+  /** Splits a story into consecutive scenes, each with a visual prompt. */
+  generateStoryboard(story: string, sceneCount: number): Promise<StoryboardScene[]>;
+  /** Resolves to base64 encoded raw 16-bit PCM at 24 kHz, mono. */
+  generateSpeechFromText(text: string, options?: SpeechOptions): Promise<string>;
+  /** Voices that can be passed in SpeechOptions. */
+  speechVoices: SpeechVoice[];
+  /** The most distinct speakers a single dialogue request may use. */
+  maxSpeechSpeakers: number;
+  /** Resolves to one candidate per requested image, in the order the model returned them. */
+  generateImageFromPrompt(prompt: string, aspectRatio: ImageAspectRatio, options?: ImageGenerationOptions): Promise<ImageCandidate[]>;
+  /** Whether `ImageGenerationOptions.seed` is honored, so a candidate can be regenerated exactly. */
+  supportsImageSeed: boolean;
+  /** Whether `ImageGenerationOptions.negativePrompt` is honored. */
+  supportsNegativePrompt: boolean;
+  /** Applies an instruction, inpainting or outpainting edit and resolves to the edited image. */
+  editImage(request: ImageEditRequest): Promise<ImageCandidate>;
+  /**
+   * Starts a video generation and resolves to the operation name, which is
+   * all that is needed to resume polling after a page reload.
+   */
+  startVideoGeneration(request: VideoRequest): Promise<string>;
+  pollVideoOperation(operationName: string): Promise<VideoOperationStatus>;
+  /** How long to wait between polls of a video operation. */
+  videoPollIntervalMs: number;
+}
@@ -0,0 +1,81 @@
+/**
+ * Long-form narration on top of generateSpeechFromText. Text is split at
+ * line and sentence boundaries, chunks are synthesized a few at a time, and
+ * the PCM is stitched back together with short crossfades. Callers can start
+ * playback as soon as the opening chunks are ready.
+ */
+import { generateSpeechFromText, SpeechOptions } from './geminiService';
+import { decode, concatPcmWithCrossfade } from '../utils/audioUtils';
+import { chunkText } from '../utils/textUtils';
+
+/** Sample rate of the PCM returned by every speech provider. */
+export const SPEECH_SAMPLE_RATE = 24000;
+
+export interface SynthesisOptions {
+  /** Longest text sent in a single speech request. */
+  maxChunkChars?: number;
+  /** How many chunk requests may be in flight at once. */
+  concurrency?: number;
+  crossfadeMs?: number;
+  /**
+   * Called whenever more of the narration is ready to play, with the stitched
+   * PCM for every chunk finished so far from the start.
+   */
+  onPartialAudio?: (pcm: Uint8Array, completedChunks: number, totalChunks: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Converts text of any length to speech.
+ * @param text The text to narrate.
+ * @param speechOptions The voice, delivery style and optional dialogue speakers.
+ * @param options Chunking, concurrency and streaming settings.
+ * @returns A promise that resolves to raw 16-bit mono PCM at SPEECH_SAMPLE_RATE.
+ */
+export const synthesizeSpeech = async (
+  text: string,
+  speechOptions?: SpeechOptions,
+  { maxChunkChars = 1200, concurrency = 3, crossfadeMs = 40, onPartialAudio, signal }: SynthesisOptions = {},
+): Promise<Uint8Array> => {
+  const chunks = chunkText(text, maxChunkChars);
+  if (chunks.length === 0) {
+    throw new Error("There is no text to narrate.");
+  }
+
+  const results: (Uint8Array | undefined)[] = new Array(chunks.length);
+  let nextIndex = 0;
+  let readyPrefix = 0;
+  // Once a chunk fails the whole narration fails, so the other workers stop taking chunks.
+  let hasFailed = false;
+
+  const reportProgress = () => {
+    let prefix = readyPrefix;
+    while (prefix < chunks.length && results[prefix]) prefix++;
+    if (prefix === readyPrefix) return;
+    readyPrefix = prefix;
+    // The final stitch is returned rather than reported.
+    if (prefix < chunks.length) {
+      onPartialAudio?.(concatPcmWithCrossfade(results.slice(0, prefix) as Uint8Array[], SPEECH_SAMPLE_RATE, crossfadeMs), prefix, chunks.length);
+    }
+  };
+
+  // Workers take chunks in order, so the opening of the narration is always requested first.
+  const worker = async () => {
+    while (nextIndex < chunks.length && !hasFailed) {
+      if (signal?.aborted) {
+        throw new DOMException('Speech synthesis was cancelled.', 'AbortError');
+      }
+      const index = nextIndex++;
+      try {
+        results[index] = decode(await generateSpeechFromText(chunks[index], speechOptions));
+      } catch (e) {
+        hasFailed = true;
+        throw e;
+      }
+      reportProgress();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+  return concatPcmWithCrossfade(results as Uint8Array[], SPEECH_SAMPLE_RATE, crossfadeMs);
+};
@@ -0,0 +1,88 @@
+/**
+ * Story settings options, defaults and the user's saved presets. Presets and
+ * the last used settings live in localStorage, so they survive reloads.
+ */
+import { StoryAgeRating, StoryGenre, StoryLength, StoryPointOfView, StorySettings, StoryTone } from './geminiService';
+
+export const STORY_GENRES: StoryGenre[] = ['fantasy', 'sciFi', 'mystery', 'romance', 'horror', 'adventure', 'fairyTale', 'sliceOfLife'];
+export const STORY_TONES: StoryTone[] = ['whimsical', 'dark', 'hopeful', 'melancholic', 'humorous', 'suspenseful'];
+export const STORY_LENGTHS: StoryLength[] = ['short', 'medium', 'long'];
+export const STORY_POINTS_OF_VIEW: StoryPointOfView[] = ['first', 'third'];
+export const STORY_AGE_RATINGS: StoryAgeRating[] = ['children', 'teen', 'adult'];
+export const STORY_OUTPUT_LANGUAGES = ['vi', 'en', 'ja', 'ko', 'zh', 'fr', 'es', 'de'];
+
+/** Settings as edited in the UI; an empty output language follows the interface language. */
+export type StorySettingsDraft = Omit<StorySettings, 'outputLanguage'> & { outputLanguage: string | null };
+
+export interface StoryPreset {
+  id: string;
+  name: string;
+  settings: StorySettingsDraft;
+}
+
+export const DEFAULT_STORY_SETTINGS: StorySettingsDraft = {
+  length: 'short',
+  ageRating: 'teen',
+  outputLanguage: null,
+};
+
+const PRESETS_KEY = 'storyPresets';
+const LAST_SETTINGS_KEY = 'storySettings';
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (e) {
+    console.error(`Failed to load ${key} from localStorage`, e);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to save ${key} to localStorage`, e);
+  }
+};
+
+/**
+ * Fills in the output language for a request.
+ * @param draft The settings as edited.
+ * @param interfaceLanguage The current UI language, used when no output language was chosen.
+ */
+export const resolveStorySettings = (draft: StorySettingsDraft, interfaceLanguage: string): StorySettings => ({
+  ...draft,
+  outputLanguage: draft.outputLanguage ?? interfaceLanguage,
+});
+
+export const loadLastStorySettings = (): StorySettingsDraft => ({
+  ...DEFAULT_STORY_SETTINGS,
+  ...readJson<Partial<StorySettingsDraft>>(LAST_SETTINGS_KEY, {}),
+});
+
+export const saveLastStorySettings = (settings: StorySettingsDraft) => writeJson(LAST_SETTINGS_KEY, settings);
+
+export const loadStoryPresets = (): StoryPreset[] => readJson<StoryPreset[]>(PRESETS_KEY, []);
+
+/**
+ * Saves the settings under a name, replacing any preset with the same name.
+ * @returns The updated preset list.
+ */
+export const saveStoryPreset = (name: string, settings: StorySettingsDraft): StoryPreset[] => {
+  const presets = loadStoryPresets().filter(preset => preset.name !== name);
+  const updated = [...presets, { id: `${Date.now().toString(36)}`, name, settings }];
+  writeJson(PRESETS_KEY, updated);
+  return updated;
+};
+
+/**
+ * Deletes a preset.
+ * @returns The updated preset list.
+ */
+export const deleteStoryPreset = (id: string): StoryPreset[] => {
+  const updated = loadStoryPresets().filter(preset => preset.id !== id);
+  writeJson(PRESETS_KEY, updated);
+  return updated;
+};
@@ -0,0 +1,113 @@
+/**
+ * A local ledger of billable AI calls. Providers record the model, operation
+ * and amounts (tokens, images) of every generation. Videos are recorded by
+ * whoever receives the finished video, since Veo only bills operations that
+ * deliver one and a job may finish after a reload. Costs are worked out from
+ * the price table when the ledger is read, so editing prices reprices past
+ * usage too. Entries older than a year are dropped.
+ */
+import type { AssetSource } from './assetStore';
+
+export type UsageOperation =
+  | 'ideas'
+  | 'enhancePrompt'
+  | 'rephrasePrompt'
+  | 'story'
+  | 'storyboard'
+  | 'speech'
+  | 'image'
+  | 'imageEdit'
+  | 'video';
+
+/** The billable amounts of one call; anything the call did not use is left out. */
+export interface UsageAmounts {
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+  videoSeconds?: number;
+}
+
+export interface UsageEntry extends UsageAmounts {
+  id: string;
+  timestamp: number;
+  /** The tab that made the call, if it was made from one. */
+  source?: AssetSource;
+  operation: UsageOperation;
+  model: string;
+}
+
+type Listener = (entries: UsageEntry[]) => void;
+
+const STORAGE_KEY = 'usageLedger';
+const RETENTION_MS = 366 * 24 * 60 * 60 * 1000;
+
+let entries: UsageEntry[] | null = null;
+let activeSource: AssetSource | undefined;
+const listeners = new Set<Listener>();
+
+const readEntries = (): UsageEntry[] => {
+  if (!entries) {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      entries = stored ? JSON.parse(stored) as UsageEntry[] : [];
+    } catch (e) {
+      console.error(`Failed to load ${STORAGE_KEY} from localStorage`, e);
+      entries = [];
+    }
+  }
+  return entries;
+};
+
+const writeEntries = (updated: UsageEntry[]) => {
+  entries = updated;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  } catch (e) {
+    console.error(`Failed to save ${STORAGE_KEY} to localStorage`, e);
+  }
+  const snapshot = [...updated];
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Sets the tab that calls from now on are attributed to.
+ * @param source The open tab, or undefined for views that make no calls.
+ */
+export const setUsageSource = (source: AssetSource | undefined): void => {
+  activeSource = source;
+};
+
+/**
+ * Starts tracking a call. The tab is captured now, so a call that finishes
+ * after the user moved to another tab is still attributed to the one that
+ * made it.
+ * @param operation What the call does.
+ * @param model The model it uses.
+ * @param source The tab to attribute the call to; defaults to the open one.
+ * @returns A function that records the call with its amounts once it succeeds.
+ */
+export const trackUsage = (operation: UsageOperation, model: string, source = activeSource): ((amounts: UsageAmounts) => void) => {
+  return amounts => {
+    const cutoff = Date.now() - RETENTION_MS;
+    const entry: UsageEntry = { id: createId(), timestamp: Date.now(), source, operation, model, ...amounts };
+    writeEntries([...readEntries().filter(existing => existing.timestamp >= cutoff), entry]);
+  };
+};
+
+export const loadUsageLedger = (): UsageEntry[] => [...readEntries()];
+
+export const clearUsageLedger = (): void => writeEntries([]);
+
+/**
+ * Subscribes to new ledger entries.
+ * @param listener Called with the full ledger after every change.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToUsage = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,201 @@
+/**
+ * Price tables and budgets for the usage ledger. The default prices are the
+ * published Gemini API list prices in US dollars; users can override them
+ * (for another tier or a newer price list), and both overrides and budgets
+ * live in localStorage.
+ */
+import { UsageEntry, loadUsageLedger } from './usageLedger';
+
+export interface ModelPrice {
+  /** US dollars per million input tokens. */
+  inputPerMillionTokens?: number;
+  /** US dollars per million output tokens, including thinking tokens. */
+  outputPerMillionTokens?: number;
+  perImage?: number;
+  perVideoSecond?: number;
+}
+
+/** Prices keyed by model id; models without a price count as free. */
+export type PriceTable = Record<string, ModelPrice>;
+
+export const PRICE_FIELDS: (keyof ModelPrice)[] = ['inputPerMillionTokens', 'outputPerMillionTokens', 'perImage', 'perVideoSecond'];
+
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-flash': { inputPerMillionTokens: 0.3, outputPerMillionTokens: 2.5 },
+  'gemini-2.5-flash-preview-tts': { inputPerMillionTokens: 0.5, outputPerMillionTokens: 10 },
+  'gemini-2.5-flash-image': { inputPerMillionTokens: 0.3, outputPerMillionTokens: 30 },
+  'imagen-4.0-generate-001': { perImage: 0.04 },
+  'imagen-4.0-fast-generate-001': { perImage: 0.02 },
+  'imagen-4.0-ultra-generate-001': { perImage: 0.06 },
+  'veo-2.0-generate-001': { perVideoSecond: 0.35 },
+};
+
+export type BudgetPeriod = 'daily' | 'monthly';
+/** Whether going over a budget asks for confirmation or refuses to start. */
+export type BudgetMode = 'warn' | 'block';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+export const BUDGET_MODES: BudgetMode[] = ['warn', 'block'];
+
+export interface UsageBudget {
+  /** US dollars; null means no limit. */
+  daily: number | null;
+  monthly: number | null;
+  mode: BudgetMode;
+}
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { daily: null, monthly: null, mode: 'warn' };
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videoSeconds: number;
+  cost: number;
+}
+
+export type BudgetCheck =
+  | { status: 'ok' }
+  | { status: BudgetMode; period: BudgetPeriod; spent: number; limit: number };
+
+const PRICES_KEY = 'usagePrices';
+const BUDGET_KEY = 'usageBudget';
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (e) {
+    console.error(`Failed to load ${key} from localStorage`, e);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to save ${key} to localStorage`, e);
+  }
+};
+
+/** The default prices with the user's overrides applied. */
+export const loadPriceTable = (): PriceTable => ({ ...DEFAULT_PRICES, ...readJson<PriceTable>(PRICES_KEY, {}) });
+
+/**
+ * Saves the price of one model.
+ * @returns The updated price table.
+ */
+export const saveModelPrice = (model: string, price: ModelPrice): PriceTable => {
+  writeJson(PRICES_KEY, { ...readJson<PriceTable>(PRICES_KEY, {}), [model]: price });
+  return loadPriceTable();
+};
+
+/**
+ * Drops every override, going back to the default prices.
+ * @returns The default price table.
+ */
+export const resetPriceTable = (): PriceTable => {
+  writeJson(PRICES_KEY, {});
+  return loadPriceTable();
+};
+
+export const loadUsageBudget = (): UsageBudget => ({ ...DEFAULT_USAGE_BUDGET, ...readJson<Partial<UsageBudget>>(BUDGET_KEY, {}) });
+
+export const saveUsageBudget = (budget: UsageBudget): void => writeJson(BUDGET_KEY, budget);
+
+/**
+ * Prices one ledger entry.
+ * @param entry The recorded call.
+ * @param prices The price table.
+ * @returns The cost in US dollars.
+ */
+export const getEntryCost = (entry: UsageEntry, prices: PriceTable): number => {
+  const price = prices[entry.model] ?? {};
+  const tokenCost = ((entry.inputTokens ?? 0) * (price.inputPerMillionTokens ?? 0) + (entry.outputTokens ?? 0) * (price.outputPerMillionTokens ?? 0)) / 1e6;
+  return tokenCost + (entry.images ?? 0) * (price.perImage ?? 0) + (entry.videoSeconds ?? 0) * (price.perVideoSecond ?? 0);
+};
+
+/**
+ * Adds up a set of ledger entries.
+ * @param entries The entries to total.
+ * @param prices The price table.
+ */
+export const summarizeUsage = (entries: UsageEntry[], prices: PriceTable): UsageTotals =>
+  entries.reduce<UsageTotals>((totals, entry) => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + (entry.inputTokens ?? 0),
+    outputTokens: totals.outputTokens + (entry.outputTokens ?? 0),
+    images: totals.images + (entry.images ?? 0),
+    videoSeconds: totals.videoSeconds + (entry.videoSeconds ?? 0),
+    cost: totals.cost + getEntryCost(entry, prices),
+  }), { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, videoSeconds: 0, cost: 0 });
+
+/**
+ * Totals ledger entries per group, most expensive first.
+ * @param entries The entries to total.
+ * @param prices The price table.
+ * @param groupOf Picks the group of an entry, e.g. its model.
+ */
+export const groupUsage = (entries: UsageEntry[], prices: PriceTable, groupOf: (entry: UsageEntry) => string): [string, UsageTotals][] => {
+  const groups = new Map<string, UsageEntry[]>();
+  entries.forEach(entry => {
+    const group = groupOf(entry);
+    groups.set(group, [...(groups.get(group) ?? []), entry]);
+  });
+  return Array.from(groups, ([group, grouped]): [string, UsageTotals] => [group, summarizeUsage(grouped, prices)])
+    .sort((a, b) => b[1].cost - a[1].cost || b[1].calls - a[1].calls);
+};
+
+/**
+ * Returns when the current budget period began, in local time.
+ * @param period A day or a calendar month.
+ */
+export const getPeriodStart = (period: BudgetPeriod, now = new Date()): number =>
+  period === 'daily'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+    : new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+/**
+ * Estimates what a video will cost before it is started.
+ * @param model The video model.
+ * @param seconds The requested duration.
+ */
+export const estimateVideoCost = (model: string, seconds: number): number =>
+  seconds * (loadPriceTable()[model]?.perVideoSecond ?? 0);
+
+/**
+ * Checks whether spending an estimated amount would go over the daily or
+ * monthly budget.
+ * @param estimatedCost The cost of what is about to start, in US dollars.
+ * @returns 'ok', or the budget mode with the period that would be exceeded.
+ */
+export const checkBudget = (estimatedCost: number): BudgetCheck => {
+  const budget = loadUsageBudget();
+  const prices = loadPriceTable();
+  const entries = loadUsageLedger();
+  for (const period of BUDGET_PERIODS) {
+    const limit = budget[period];
+    if (limit === null) continue;
+    const since = getPeriodStart(period);
+    const spent = summarizeUsage(entries.filter(entry => entry.timestamp >= since), prices).cost;
+    if (spent + estimatedCost > limit) {
+      return { status: budget.mode, period, spent, limit };
+    }
+  }
+  return { status: 'ok' };
+};
+
+/**
+ * Formats an estimated cost in US dollars, with more precision for amounts
+ * under a cent.
+ * @param cost The cost in US dollars.
+ * @param locale The UI language.
+ */
+export const formatCost = (cost: number, locale: string): string =>
+  new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: cost > 0 && cost < 0.01 ? 4 : 2,
+  }).format(cost);
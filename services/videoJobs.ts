@@ -0,0 +1,244 @@
+/**
+ * Background manager for video generations. Jobs are persisted to
+ * localStorage as soon as their operation starts, so polling resumes after a
+ * reload and finished videos land in the asset library whichever tab is open.
+ */
+import { startVideoGeneration, pollVideoOperation, getVideoPollInterval, getModelName, VideoRequest } from './geminiService';
+import { getActiveProvider } from './providers/registry';
+import { saveAsset, deleteAsset, AssetSource } from './assetStore';
+import { AppErrorKind, EmptyResultError, toAppError } from './errors';
+import { trackUsage } from './usageLedger';
+
+export type VideoJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** The request as persisted; the starting image is only needed to start the operation. */
+export type VideoJobRequest = Omit<VideoRequest, 'base64Image' | 'mimeType'> & { hasImage: boolean };
+
+export interface VideoJob {
+  id: string;
+  providerId: string;
+  source: AssetSource;
+  request: VideoJobRequest;
+  status: VideoJobStatus;
+  /** Estimated completion between 0 and 1. */
+  progress: number;
+  operationName?: string;
+  /** Id of the saved video in the asset library once the job succeeds. */
+  assetId?: string;
+  error?: string;
+  /** Classification of `error`, so the UI can explain it after a reload. */
+  errorKind?: AppErrorKind;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type Listener = (jobs: VideoJob[]) => void;
+
+const STORAGE_KEY = 'videoJobs';
+/** Typical Veo turnaround, used to estimate progress when the backend reports none. */
+const EXPECTED_DURATION_MS = 90000;
+const MAX_POLL_FAILURES = 3;
+/** Poll errors that may clear up on the next attempt; any other kind fails the job at once. */
+const TRANSIENT_ERROR_KINDS: AppErrorKind[] = ['network', 'timeout', 'quota', 'unknown'];
+const MAX_FINISHED_JOBS = 20;
+
+let jobs: VideoJob[] = [];
+let hasResumed = false;
+const listeners = new Set<Listener>();
+const pollTimers = new Map<string, number>();
+const pollFailures = new Map<string, number>();
+
+const isActive = (job: VideoJob) => job.status === 'queued' || job.status === 'running';
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  } catch (e) {
+    console.error("Failed to save video jobs to localStorage", e);
+  }
+};
+
+const emit = () => {
+  persist();
+  const snapshot = [...jobs];
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const updateJob = (id: string, changes: Partial<VideoJob>) => {
+  jobs = jobs.map(job => (job.id === id ? { ...job, ...changes, updatedAt: Date.now() } : job));
+  emit();
+};
+
+const findJob = (id: string) => jobs.find(job => job.id === id);
+
+const estimateProgress = (job: VideoJob, reported?: number) => {
+  if (typeof reported === 'number') return Math.min(1, Math.max(job.progress, reported));
+  const elapsed = Date.now() - job.createdAt;
+  return Math.min(0.95, elapsed / EXPECTED_DURATION_MS);
+};
+
+const schedulePoll = (id: string, delay = getVideoPollInterval()) => {
+  window.clearTimeout(pollTimers.get(id));
+  pollTimers.set(id, window.setTimeout(() => poll(id), delay));
+};
+
+const poll = async (id: string) => {
+  pollTimers.delete(id);
+  const job = findJob(id);
+  if (!job || job.status !== 'running' || !job.operationName) return;
+
+  try {
+    const status = await pollVideoOperation(job.operationName);
+    pollFailures.delete(id);
+    // The job may have been cancelled while the request was in flight.
+    if (findJob(id)?.status !== 'running') return;
+
+    if (!status.done) {
+      updateJob(id, { progress: estimateProgress(job, status.progress) });
+      schedulePoll(id);
+      return;
+    }
+
+    if (!status.videoBlob) {
+      throw new EmptyResultError("Video generation succeeded, but no video was returned.");
+    }
+    // Only delivered videos are billed, so the usage is recorded here rather than when the job starts.
+    trackUsage('video', getModelName('video'), job.source)({ videoSeconds: job.request.duration });
+    const asset = await saveAsset({
+      kind: 'video',
+      source: job.source,
+      blob: status.videoBlob,
+      prompt: job.request.prompt,
+      aspectRatio: job.request.aspectRatio,
+      duration: job.request.duration,
+      model: getModelName('video'),
+    });
+    // A job cancelled while its video was being saved must not leave it in the library.
+    if (findJob(id)?.status !== 'running') {
+      await deleteAsset(asset.id);
+      return;
+    }
+    updateJob(id, { status: 'succeeded', progress: 1, assetId: asset.id });
+  } catch (err) {
+    const error = toAppError(err);
+    const failures = (pollFailures.get(id) ?? 0) + 1;
+    pollFailures.set(id, failures);
+    console.error(`Error polling video job ${id}:`, err);
+    if (TRANSIENT_ERROR_KINDS.includes(error.kind) && failures < MAX_POLL_FAILURES) {
+      schedulePoll(id);
+      return;
+    }
+    pollFailures.delete(id);
+    updateJob(id, { status: 'failed', error: error.message, errorKind: error.kind });
+  }
+};
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Starts a video generation in the background.
+ * @param request The full request, including an optional starting image.
+ * @param source The tab the job was started from.
+ * @returns A promise that resolves to the job id once the operation has started,
+ *   or rejects if it could not be started.
+ */
+export const enqueueVideoJob = async (request: VideoRequest, source: AssetSource): Promise<string> => {
+  const { base64Image, mimeType, ...persisted } = request;
+  const now = Date.now();
+  const job: VideoJob = {
+    id: createId(),
+    providerId: getActiveProvider().id,
+    source,
+    request: { ...persisted, hasImage: !!base64Image },
+    status: 'queued',
+    progress: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  jobs = [job, ...jobs];
+  emit();
+
+  try {
+    const operationName = await startVideoGeneration(request);
+    if (findJob(job.id)?.status !== 'queued') return job.id;
+    updateJob(job.id, { status: 'running', operationName });
+    schedulePoll(job.id);
+    return job.id;
+  } catch (err) {
+    const error = toAppError(err);
+    updateJob(job.id, { status: 'failed', error: error.message, errorKind: error.kind });
+    throw err;
+  }
+};
+
+/**
+ * Stops tracking a job. The backend offers no way to abort a video
+ * operation, so this only stops polling and discards the result.
+ * @param id The job id.
+ */
+export const cancelVideoJob = (id: string): void => {
+  const job = findJob(id);
+  if (!job || !isActive(job)) return;
+  window.clearTimeout(pollTimers.get(id));
+  pollTimers.delete(id);
+  updateJob(id, { status: 'cancelled' });
+};
+
+/**
+ * Removes a finished, failed or cancelled job from the queue.
+ * @param id The job id.
+ */
+export const dismissVideoJob = (id: string): void => {
+  const job = findJob(id);
+  if (!job || isActive(job)) return;
+  jobs = jobs.filter(j => j.id !== id);
+  emit();
+};
+
+export const getVideoJobs = (): VideoJob[] => [...jobs];
+
+/**
+ * Subscribes to changes in the job queue.
+ * @param listener Called with the full job list after every change.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToVideoJobs = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Loads persisted jobs and resumes polling for the ones still running.
+ * Jobs that never got an operation name cannot be resumed and are failed.
+ * Only the first call has any effect.
+ */
+export const resumeVideoJobs = (): void => {
+  if (hasResumed) return;
+  hasResumed = true;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    jobs = stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to load video jobs from localStorage", e);
+    jobs = [];
+  }
+
+  const providerId = getActiveProvider().id;
+  const finished = jobs.filter(job => !isActive(job)).slice(MAX_FINISHED_JOBS);
+  jobs = jobs.filter(job => !finished.includes(job)).map(job => {
+    if (!isActive(job)) return job;
+    if (!job.operationName) {
+      return { ...job, status: 'failed', error: "The page was closed before the video generation started." };
+    }
+    if (job.providerId !== providerId) {
+      return { ...job, status: 'failed', error: `This job was started with the "${job.providerId}" provider, which is no longer active.` };
+    }
+    return job;
+  });
+  emit();
+
+  jobs.filter(job => job.status === 'running').forEach(job => schedulePoll(job.id, 0));
+};
@@ -9,7 +9,7 @@ export const translations: Record<string, Record<string, string>> = {
     'error.prefix': 'Lỗi:',
     'uploader.label': 'Nhấn để tải lên',
     'uploader.prompt': 'hoặc kéo và thả',
-    'uploader.types': 'PNG, JPG, GIF tối đa 10MB',
+    'uploader.types': 'PNG, JPG, WEBP, GIF tối đa 10MB',
     'story.title': 'Khởi Đầu Câu Chuyện Của Bạn',
     'story.placeholder': 'Câu chuyện được tạo của bạn sẽ xuất hiện ở đây...',
     'story.aria.read': 'Đọc to',
@@ -17,7 +17,6 @@ export const translations: Record<string, Record<string, string>> = {
     'story.button.weave': '✨ Dệt Truyện Của Tôi',
     'story.loading': 'AI đang mơ về câu chuyện của bạn...',
     'story.error.noImage': 'Vui lòng tải lên một hình ảnh trước.',
-    'story.error.apiFail': 'Không thể tạo câu chuyện.',
     'story.error.audioFail': 'Không thể tạo âm thanh.',
     'story.button.sendToVideo': 'Tạo Video từ Truyện',
     'story.button.sendToVideoTitle': 'Dùng câu chuyện này làm mô tả để tạo video',
@@ -28,18 +27,14 @@ export const translations: Record<string, Record<string, string>> = {
     'idea.placeholder': 'Các ý tưởng sáng tạo sẽ xuất hiện ở đây...',
     'idea.button.sendToImage': 'Gửi đến Tạo Ảnh',
     'idea.button.sendToVideo': 'Gửi đến Tạo Video',
-    'idea.error.apiFail': 'Tạo ý tưởng thất bại.',
-    'idea.error.apiKey': 'Yêu cầu có Khóa API để thực hiện thao tác này.',
     'idea.button.generateAllImages': 'Tạo Tất Cả Ảnh',
     'idea.button.generateAllVideos': 'Tạo Tất Cả Video',
     'idea.button.generateImage': 'Tạo Ảnh',
     'idea.button.generateVideo': 'Tạo Video',
     'idea.generatingAllImages': 'Đang tạo tất cả ảnh...',
     'idea.generatingAllVideos': 'Đang tạo tất cả video...',
-    'idea.apiKey.checking': 'Đang kiểm tra Khóa API...',
     'idea.apiKey.required.title': 'Yêu Cầu Khóa API để Sáng Tạo',
     'idea.apiKey.required.description': 'Việc tạo ảnh và video yêu cầu một Khóa API. Vui lòng chọn một khóa để tiếp tục.',
-    'idea.apiKey.required.button': 'Chọn Khóa API',
     'image.description': 'Mô tả hình ảnh bạn muốn tạo.',
     'image.placeholder': 'ví dụ: Một chú mèo phi hành gia oai vệ khám phá khu rừng ngoài hành tinh đầy đèn neon...',
     'image.label.aspectRatio': 'Tỷ Lệ Khung Hình',
@@ -53,23 +48,17 @@ export const translations: Record<string, Record<string, string>> = {
     'image.loading.3': 'Mơ mộng bằng pixel...',
     'image.loading.4': 'Lấy nét ống kính của trí tưởng tượng...',
     'image.error.noPrompt': 'Vui lòng cung cấp mô tả để tạo ảnh.',
-    'image.error.apiFail': 'Tạo ảnh thất bại.',
-    'image.error.billingRequired': 'Khóa API của bạn chưa kích hoạt thanh toán hoặc không hợp lệ. Vui lòng chọn một khóa API khác.',
-    'image.apiKey.checking': 'Đang kiểm tra Khóa API...',
     'image.apiKey.required.title': 'Yêu Cầu Khóa API để Tạo Ảnh',
     'image.apiKey.required.description': 'Mô hình Imagen yêu cầu một khóa API có thanh toán được kích hoạt. Vui lòng chọn một khóa để tiếp tục. Để biết chi tiết về việc sử dụng và thanh toán, xem',
     'image.apiKey.required.docsLink': 'tài liệu chính thức',
-    'image.apiKey.required.button': 'Chọn Khóa API',
     'image.button.sendToVideo': 'Tạo Video',
-    'image.button.sendToVideoTitle': 'Dùng mô tả này để tạo video',
+    'image.button.sendToVideoTitle': 'Dùng ảnh này làm khung hình mở đầu để tạo video',
     'image.history.title': 'Tác Phẩm Gần Đây',
     'image.history.tooltip': 'Nhấp để tải lại ảnh và mô tả',
     'video.title': 'Trình Tạo Video AI',
-    'video.apiKey.checking': 'Đang kiểm tra Khóa API...',
     'video.apiKey.required.title': 'Yêu Cầu Khóa API để Tạo Video',
     'video.apiKey.required.description': 'Mô hình Veo yêu cầu một khóa API. Vui lòng chọn một khóa để tiếp tục. Để biết chi tiết về việc sử dụng và thanh toán, xem',
     'video.apiKey.required.docsLink': 'tài liệu chính thức',
-    'video.apiKey.required.button': 'Chọn Khóa API',
     'video.description': 'Cung cấp mô tả và/hoặc hình ảnh bắt đầu.',
     'video.placeholder.prompt': 'ví dụ: Một hình hologram neon của một con mèo đang lái xe ở tốc độ tối đa...',
     'video.label.aspectRatio': 'Tỷ Lệ Khung Hình',
@@ -84,15 +73,430 @@ export const translations: Record<string, Record<string, string>> = {
     'video.loading.4': 'Có thể mất vài phút, hãy kiên nhẫn!',
     'video.loading.5': 'AI đang vẽ bằng ánh sáng và thời gian...',
     'video.error.noPromptOrImage': 'Vui lòng cung cấp mô tả hoặc hình ảnh để tạo video.',
-    'video.error.invalidKey': 'Khóa API của bạn dường như không hợp lệ. Vui lòng chọn một khóa mới.',
-    'video.error.apiFail': 'Tạo video thất bại.',
-    'video.error.quotaExceeded': 'Bạn đã vượt quá hạn ngạch sử dụng API. Vui lòng kiểm tra gói dịch vụ và chi tiết thanh toán của bạn. Xem <a href="https://ai.google.dev/gemini-api/docs/rate-limits" target="_blank" rel="noopener noreferrer" class="font-semibold underline text-red-200 hover:text-white">giới hạn sử dụng</a> hoặc <a href="https://ai.dev/usage?tab=rate-limit" target="_blank" rel="noopener noreferrer" class="font-semibold underline text-red-200 hover:text-white">theo dõi mức sử dụng</a> của bạn.',
     'share.buttonTitle': 'Chia sẻ',
     'share.image.title': 'Ảnh do AI tạo',
     'share.image.text': 'Hãy xem bức ảnh tôi đã tạo bằng Bộ Sáng Tạo AI!',
     'share.video.title': 'Video do AI tạo',
     'share.video.text': 'Hãy xem video tôi đã tạo bằng Bộ Sáng Tạo AI!',
     'share.error': 'Chia sẻ thất bại.',
+    'tab.library': 'Thư Viện',
+    'library.title': 'Thư Viện Tác Phẩm',
+    'library.description': 'Mọi hình ảnh, video, câu chuyện, lời kể và ý tưởng bạn đã tạo, được lưu lại giữa các phiên.',
+    'library.placeholder.search': 'Tìm theo mô tả, nội dung hoặc mô hình...',
+    'library.label.kind': 'Loại',
+    'library.label.source': 'Nguồn',
+    'library.kind.all': 'Tất cả',
+    'library.kind.image': 'Ảnh',
+    'library.kind.video': 'Video',
+    'library.kind.story': 'Truyện',
+    'library.kind.audio': 'Lời kể',
+    'library.kind.ideas': 'Ý tưởng',
+    'library.empty': 'Chưa có tác phẩm nào. Những gì bạn tạo sẽ xuất hiện ở đây.',
+    'library.button.delete': 'Xóa',
+    'library.confirmDelete': 'Xóa mục này khỏi thư viện?',
+    'library.error.loadFail': 'Không thể tải thư viện.',
+    'library.error.deleteFail': 'Không thể xóa mục này.',
+    'jobs.title': 'Hàng đợi video',
+    'jobs.active': 'đang chạy',
+    'jobs.untitled': '(Không có mô tả)',
+    'jobs.status.queued': 'Đang chờ',
+    'jobs.status.running': 'Đang tạo',
+    'jobs.status.succeeded': 'Hoàn tất',
+    'jobs.status.failed': 'Thất bại',
+    'jobs.status.cancelled': 'Đã hủy',
+    'jobs.button.view': 'Xem',
+    'jobs.button.cancel': 'Hủy',
+    'jobs.button.dismiss': 'Bỏ qua',
+    'jobs.button.close': 'Đóng',
+    'jobs.notify.succeeded': 'Video của bạn đã sẵn sàng!',
+    'jobs.notify.failed': 'Tạo video thất bại.',
+    'video.backgroundHint': 'Bạn có thể chuyển tab hoặc tải lại trang, video vẫn tiếp tục được tạo.',
+    'tab.storyboard': 'Phân Cảnh',
+    'story.button.sendToStoryboard': 'Tạo Phân Cảnh từ Truyện',
+    'story.button.sendToStoryboardTitle': 'Chia câu chuyện thành các cảnh với ảnh và video',
+    'storyboard.title': 'Bảng Phân Cảnh',
+    'storyboard.description': 'Chia câu chuyện thành các cảnh, tạo khung hình chính và đoạn video cho từng cảnh.',
+    'storyboard.placeholder.story': 'Dán hoặc viết câu chuyện của bạn tại đây...',
+    'storyboard.placeholder.scenes': 'Các cảnh của bạn sẽ xuất hiện ở đây...',
+    'storyboard.placeholder.keyframe': 'Chưa có khung hình chính',
+    'storyboard.placeholder.clip': 'Chưa có đoạn video',
+    'storyboard.label.sceneCount': 'Số cảnh',
+    'storyboard.label.visualPrompt': 'Mô tả hình ảnh',
+    'storyboard.scene': 'Cảnh',
+    'storyboard.button.plan': 'Chia Thành Cảnh',
+    'storyboard.button.planning': 'Đang chia cảnh...',
+    'storyboard.button.generateAllKeyframes': 'Tạo Tất Cả Khung Hình',
+    'storyboard.button.generateKeyframe': 'Tạo Khung Hình',
+    'storyboard.button.regenerateKeyframe': 'Tạo Lại Khung Hình',
+    'storyboard.button.generateClip': 'Tạo Đoạn Video',
+    'storyboard.button.regenerateClip': 'Tạo Lại Đoạn Video',
+    'storyboard.button.moveUp': 'Di chuyển lên',
+    'storyboard.button.moveDown': 'Di chuyển xuống',
+    'storyboard.button.remove': 'Xóa cảnh',
+    'storyboard.hint.keyframeFirst': 'Hãy tạo khung hình chính trước',
+    'storyboard.error.noStory': 'Vui lòng nhập một câu chuyện trước.',
+    'storyboard.export.title': 'Xuất Phim',
+    'storyboard.export.description': 'Ghép các đoạn video đã tạo thành một tệp duy nhất, kèm lời kể, thẻ tiêu đề và hiệu ứng chuyển cảnh. Cảnh có đoạn video sẵn sàng',
+    'storyboard.export.unsupported': 'Trình duyệt của bạn không hỗ trợ ghi video.',
+    'storyboard.export.placeholder.title': 'Tiêu đề mở đầu (không bắt buộc)',
+    'storyboard.export.label.crossfade': 'Chuyển cảnh mờ dần',
+    'storyboard.export.label.sceneTitles': 'Thẻ tiêu đề cho từng cảnh',
+    'storyboard.export.label.narration': 'Thêm lời kể',
+    'storyboard.export.button': 'Xuất Phim',
+    'storyboard.export.narrating': 'Đang tạo lời kể...',
+    'storyboard.export.recording': 'Đang ghép phim...',
+    'storyboard.export.keepVisible': 'Hãy giữ tab này hiển thị cho đến khi hoàn tất.',
+    'storyboard.export.download': 'Tải Xuống',
+    'story.button.downloadWavTitle': 'Tải lời kể dưới dạng WAV không nén',
+    'story.button.downloadCompressed': 'Nén',
+    'story.button.downloadCompressedTitle': 'Tải lời kể dưới dạng tệp nén (mã hóa theo thời gian thực)',
+    'story.player.play': 'Phát',
+    'story.player.pause': 'Tạm dừng',
+    'story.player.seek': 'Vị trí phát',
+    'story.player.speed': 'Tốc độ phát',
+    'tts.title': 'Giọng Đọc',
+    'tts.label.voice': 'Giọng',
+    'tts.label.style': 'Phong cách đọc',
+    'tts.placeholder.style': 'VD: chậm rãi, ấm áp, hơi bí ẩn',
+    'tts.label.dialogue': 'Chế độ hội thoại (mỗi nhân vật một giọng)',
+    'tts.hint.dialogueFormat': 'Để dùng chế độ hội thoại, câu chuyện cần có các dòng dạng "Tên: lời thoại" của hai nhân vật.',
+    'tts.hint.tooManySpeakers': 'Câu chuyện có nhiều nhân vật hơn số giọng được hỗ trợ trong một lần đọc.',
+    'tts.trait.firm': 'Chắc chắn',
+    'tts.trait.bright': 'Tươi sáng',
+    'tts.trait.upbeat': 'Sôi nổi',
+    'tts.trait.informative': 'Rõ ràng, mạch lạc',
+    'tts.trait.excitable': 'Hào hứng',
+    'tts.trait.youthful': 'Trẻ trung',
+    'tts.trait.breezy': 'Nhẹ nhàng',
+    'tts.trait.easyGoing': 'Thoải mái',
+    'tts.trait.breathy': 'Thì thầm',
+    'tts.trait.clear': 'Trong trẻo',
+    'tts.trait.smooth': 'Mượt mà',
+    'tts.trait.gravelly': 'Khàn',
+    'tts.trait.soft': 'Dịu dàng',
+    'tts.trait.even': 'Đều đặn',
+    'tts.trait.mature': 'Trưởng thành',
+    'tts.trait.forward': 'Thẳng thắn',
+    'tts.trait.friendly': 'Thân thiện',
+    'tts.trait.casual': 'Tự nhiên',
+    'tts.trait.gentle': 'Êm ái',
+    'tts.trait.lively': 'Sinh động',
+    'tts.trait.knowledgeable': 'Am hiểu',
+    'tts.trait.warm': 'Ấm áp',
+    'story.player.generating': 'Đang tạo phần còn lại của lời kể...',
+    'story.branches.title': 'Các Chương',
+    'story.branches.chapter': 'Chương',
+    'story.branches.selectHint': 'Quay lại chương này; viết tiếp từ đây sẽ tạo một nhánh mới',
+    'story.branches.kind.opening': 'Mở đầu',
+    'story.branches.kind.continuation': 'Viết tiếp',
+    'story.branches.kind.rewrite': 'Viết lại',
+    'story.branches.kind.branch': 'Nhánh',
+    'story.branches.previousVersion': 'Phiên bản trước',
+    'story.branches.nextVersion': 'Phiên bản sau',
+    'story.branches.compare': 'So sánh',
+    'story.branches.closeCompare': 'Đóng',
+    'story.branches.pick': 'Chọn phiên bản này',
+    'story.branches.exportTitle': 'Tải toàn bộ bản thảo dưới dạng Markdown',
+    'story.branches.placeholder.direction': 'Hướng đi cho chương tiếp theo (không bắt buộc)',
+    'story.branches.button.continue': 'Viết Tiếp',
+    'story.branches.button.branch': 'Tạo Nhánh',
+    'story.branches.button.rewrite': 'Viết Lại',
+    'story.branches.branchHint': 'Viết một phiên bản khác cho chương hiện tại',
+    'story.branches.label.tone': 'Giọng văn khi viết lại',
+    'story.branches.tone.darker': 'U tối hơn',
+    'story.branches.tone.lighter': 'Nhẹ nhàng hơn',
+    'story.branches.tone.suspenseful': 'Hồi hộp',
+    'story.branches.tone.whimsical': 'Kỳ ảo, tinh nghịch',
+    'story.branches.tone.poetic': 'Giàu chất thơ',
+    'story.branches.tone.humorous': 'Hài hước',
+    'story.branches.markdownTitle': 'Câu Chuyện Của Tôi',
+    'storySettings.title': 'Thiết Lập Câu Chuyện',
+    'storySettings.label.genre': 'Thể loại',
+    'storySettings.label.tone': 'Giọng điệu',
+    'storySettings.label.length': 'Độ dài',
+    'storySettings.label.pointOfView': 'Ngôi kể',
+    'storySettings.label.ageRating': 'Độ tuổi',
+    'storySettings.label.outputLanguage': 'Ngôn ngữ viết',
+    'storySettings.label.presets': 'Thiết lập đã lưu',
+    'storySettings.option.any': 'Để AI quyết định',
+    'storySettings.option.interfaceLanguage': 'Theo giao diện',
+    'storySettings.genre.fantasy': 'Giả tưởng',
+    'storySettings.genre.sciFi': 'Khoa học viễn tưởng',
+    'storySettings.genre.mystery': 'Trinh thám',
+    'storySettings.genre.romance': 'Lãng mạn',
+    'storySettings.genre.horror': 'Kinh dị',
+    'storySettings.genre.adventure': 'Phiêu lưu',
+    'storySettings.genre.fairyTale': 'Cổ tích',
+    'storySettings.genre.sliceOfLife': 'Đời thường',
+    'storySettings.tone.whimsical': 'Tinh nghịch',
+    'storySettings.tone.dark': 'U tối',
+    'storySettings.tone.hopeful': 'Hy vọng',
+    'storySettings.tone.melancholic': 'Man mác buồn',
+    'storySettings.tone.humorous': 'Hài hước',
+    'storySettings.tone.suspenseful': 'Hồi hộp',
+    'storySettings.length.short': 'Ngắn (~100 từ)',
+    'storySettings.length.medium': 'Vừa (~250 từ)',
+    'storySettings.length.long': 'Dài (~500 từ)',
+    'storySettings.pointOfView.first': 'Ngôi thứ nhất',
+    'storySettings.pointOfView.third': 'Ngôi thứ ba',
+    'storySettings.ageRating.children': 'Trẻ em',
+    'storySettings.ageRating.teen': 'Thanh thiếu niên',
+    'storySettings.ageRating.adult': 'Người lớn',
+    'storySettings.outputLanguage.vi': 'Tiếng Việt',
+    'storySettings.outputLanguage.en': 'Tiếng Anh',
+    'storySettings.outputLanguage.ja': 'Tiếng Nhật',
+    'storySettings.outputLanguage.ko': 'Tiếng Hàn',
+    'storySettings.outputLanguage.zh': 'Tiếng Trung',
+    'storySettings.outputLanguage.fr': 'Tiếng Pháp',
+    'storySettings.outputLanguage.es': 'Tiếng Tây Ban Nha',
+    'storySettings.outputLanguage.de': 'Tiếng Đức',
+    'storySettings.placeholder.presetName': 'Tên thiết lập',
+    'storySettings.button.savePreset': 'Lưu',
+    'storySettings.button.applyPreset': 'Áp dụng thiết lập này',
+    'storySettings.button.deletePreset': 'Xóa thiết lập',
+    'uploader.multiHint': 'Chọn nhiều ảnh, kéo thả hoặc dán từ bộ nhớ tạm',
+    'uploader.image': 'Ảnh',
+    'uploader.moveEarlier': 'Chuyển lên trước',
+    'uploader.moveLater': 'Chuyển ra sau',
+    'uploader.remove': 'Xóa ảnh',
+    'uploader.placeholder.caption': 'Chú thích (VD: nhân vật chính)',
+    'uploader.error.unsupportedType': 'Định dạng không được hỗ trợ (chỉ PNG, JPG, WEBP, GIF).',
+    'uploader.error.tooLarge': 'Ảnh vượt quá 10MB.',
+    'uploader.error.decodeFailed': 'Không thể đọc ảnh này.',
+    'cropper.imageAlt': 'Ảnh khởi đầu',
+    'cropper.aria.crop': 'Vùng cắt ảnh',
+    'cropper.hint': 'Kéo khung để chọn vùng ảnh, kéo góc để đổi kích thước. Khung luôn theo tỷ lệ video đã chọn.',
+    'image.label.candidates': 'Số phương án:',
+    'image.candidates.view': 'Phương án',
+    'image.candidates.favorite': 'Chọn để lưu',
+    'image.candidates.upscale': 'Phóng to (2K)',
+    'image.candidates.save': 'Lưu ảnh đã chọn',
+    'image.candidates.upscaleNoSeed': 'Phóng to sẽ tạo lại ảnh ở độ phân giải 2K từ cùng mô tả; nhà cung cấp hiện tại không hỗ trợ seed nên kết quả có thể khác đôi chút.',
+    'image.error.saveFail': 'Không thể lưu ảnh vào thư viện.',
+    'image.advanced.title': 'Tùy chọn nâng cao',
+    'image.advanced.negativePrompt': 'Mô tả loại trừ',
+    'image.advanced.placeholder.negativePrompt': 'VD: chữ, hình mờ, mờ nhòe',
+    'image.advanced.model': 'Mô hình',
+    'image.advanced.model.standard': 'Tiêu chuẩn',
+    'image.advanced.model.fast': 'Nhanh',
+    'image.advanced.model.ultra': 'Ultra (chất lượng cao nhất)',
+    'image.advanced.outputMimeType': 'Định dạng ảnh',
+    'image.advanced.personGeneration': 'Tạo hình người',
+    'image.advanced.personGeneration.allowAdult': 'Chỉ người lớn',
+    'image.advanced.personGeneration.dontAllow': 'Không cho phép',
+    'image.advanced.personGeneration.allowAll': 'Cho phép tất cả',
+    'image.advanced.seed': 'Seed',
+    'image.advanced.placeholder.seed': 'Ngẫu nhiên',
+    'image.advanced.seedUnsupported': 'Nhà cung cấp hiện tại không hỗ trợ seed nên không thể tái tạo chính xác kết quả.',
+    'image.editor.title': 'Chỉnh sửa ảnh',
+    'image.editor.button.open': 'Chỉnh sửa ảnh này',
+    'image.editor.button.close': 'Đóng trình chỉnh sửa',
+    'image.editor.mode.instruct': 'Theo chỉ dẫn',
+    'image.editor.mode.inpaint': 'Vẽ lại vùng',
+    'image.editor.mode.outpaint': 'Mở rộng khung',
+    'image.editor.hint.instruct': 'Mô tả thay đổi bạn muốn, ví dụ "chuyển sang cảnh hoàng hôn".',
+    'image.editor.hint.inpaint': 'Tô lên vùng cần thay đổi rồi mô tả nội dung mới cho vùng đó.',
+    'image.editor.hint.outpaint': 'Chọn các cạnh cần mở rộng; mô hình sẽ vẽ tiếp phần ảnh bên ngoài.',
+    'image.editor.placeholder.instruction': 'VD: thêm một chiếc khinh khí cầu trên bầu trời',
+    'image.editor.placeholder.outpaint': 'Gợi ý thêm (không bắt buộc)',
+    'image.editor.label.brushSize': 'Cỡ cọ',
+    'image.editor.button.clearMask': 'Xóa vùng tô',
+    'image.editor.aria.mask': 'Vùng tô cần vẽ lại',
+    'image.editor.side.top': 'Trên',
+    'image.editor.side.right': 'Phải',
+    'image.editor.side.bottom': 'Dưới',
+    'image.editor.side.left': 'Trái',
+    'image.editor.label.extendBy': 'Mở rộng thêm',
+    'image.editor.button.apply': 'Áp dụng chỉnh sửa',
+    'image.editor.button.applying': 'Đang chỉnh sửa...',
+    'image.editor.button.undo': 'Hoàn tác',
+    'image.editor.button.redo': 'Làm lại',
+    'image.editor.button.save': 'Lưu phiên bản',
+    'image.editor.button.saved': 'Đã lưu',
+    'image.editor.version': 'Phiên bản',
+    'enhancer.title': 'Prompt đề xuất',
+    'enhancer.button.enhance': 'Cải thiện prompt',
+    'enhancer.button.enhancing': 'Đang cải thiện...',
+    'enhancer.button.enhanceTitle.image': 'Thêm chi tiết về ánh sáng, góc máy, phong cách và bố cục cho hình ảnh',
+    'enhancer.button.enhanceTitle.video': 'Thêm chi tiết về ánh sáng, phong cách, chuyển động và góc máy cho video',
+    'enhancer.button.accept': 'Chấp nhận',
+    'enhancer.button.edit': 'Chỉnh sửa',
+    'enhancer.button.doneEditing': 'Xong',
+    'enhancer.button.discard': 'Bỏ qua',
+    'enhancer.button.revert': 'Hoàn tác về prompt gốc',
+    'enhancer.aria.edit': 'Chỉnh sửa prompt đề xuất',
+    'enhancer.aria.diff': 'Thay đổi so với prompt gốc',
+    'enhancer.error.apiFail': 'Không thể cải thiện prompt.',
+    'templates.title': 'Mẫu prompt & phong cách',
+    'templates.label.template': 'Mẫu',
+    'templates.label.text': 'Nội dung mẫu (dùng {biến})',
+    'templates.label.styles': 'Phong cách có sẵn',
+    'templates.placeholder.text': 'Ví dụ: {subject} theo phong cách {style}, {lighting}',
+    'templates.placeholder.name': 'Tên mẫu...',
+    'templates.group.builtIn': 'Có sẵn',
+    'templates.group.mine': 'Mẫu của tôi',
+    'templates.builtIn.styled': 'Chủ thể theo phong cách',
+    'templates.builtIn.portrait': 'Chân dung',
+    'templates.builtIn.landscape': 'Phong cảnh',
+    'templates.builtIn.scene': 'Cảnh quay chuyển động',
+    'templates.style.cinematic': 'Điện ảnh',
+    'templates.style.anime': 'Anime',
+    'templates.style.watercolor': 'Màu nước',
+    'templates.style.pixelArt': 'Pixel art',
+    'templates.style.oilPainting': 'Sơn dầu',
+    'templates.style.photorealistic': 'Ảnh chân thực',
+    'templates.style.cyberpunk': 'Cyberpunk',
+    'templates.style.lowPoly': 'Low poly',
+    'templates.style.comicBook': 'Truyện tranh',
+    'templates.style.claymation': 'Đất sét',
+    'templates.button.apply': 'Dùng prompt này',
+    'templates.button.save': 'Lưu mẫu',
+    'templates.button.delete': 'Xóa mẫu',
+    'templates.button.export': 'Xuất JSON',
+    'templates.button.import': 'Nhập JSON',
+    'templates.error.import': 'Không thể nhập tệp. Hãy chọn tệp JSON chứa danh sách mẫu hợp lệ.',
+    'idea.label.theme': 'Chủ đề',
+    'idea.placeholder.theme': 'Ví dụ: thành phố dưới đáy biển, mùa thu ở Hà Nội...',
+    'idea.label.medium': 'Dành cho',
+    'idea.label.mood': 'Cảm xúc',
+    'idea.label.count': 'Số ý tưởng',
+    'idea.label.aspectRatio': 'Tỷ lệ khung hình đề xuất',
+    'idea.medium.image': 'Hình ảnh',
+    'idea.medium.video': 'Video',
+    'idea.medium.story': 'Câu chuyện',
+    'idea.mood.any': 'Bất kỳ',
+    'idea.mood.uplifting': 'Tươi vui',
+    'idea.mood.mysterious': 'Bí ẩn',
+    'idea.mood.dreamy': 'Mơ màng',
+    'idea.mood.epic': 'Hoành tráng',
+    'idea.mood.cozy': 'Ấm cúng',
+    'idea.mood.eerie': 'Rùng rợn',
+    'idea.mood.playful': 'Tinh nghịch',
+    'idea.mood.melancholic': 'U buồn',
+    'idea.button.moreLikeThis': 'Thêm ý tưởng tương tự',
+    'idea.similarTo': 'Các ý tưởng tương tự:',
+    'idea.label.concurrency': 'Chạy song song',
+    'idea.batch.paused': 'Đã tạm dừng',
+    'idea.batch.failedCount': 'lỗi',
+    'idea.batch.pause': 'Tạm dừng',
+    'idea.batch.resume': 'Tiếp tục',
+    'idea.batch.cancel': 'Hủy',
+    'idea.batch.retryFailed': 'Thử lại các mục lỗi',
+    'idea.batch.dismiss': 'Đóng',
+    'idea.batch.status.queued': 'Đang chờ',
+    'idea.batch.status.running': 'Đang tạo',
+    'idea.batch.status.failed': 'Lỗi',
+    'idea.batch.status.done': 'Xong',
+    'errors.auth.title': 'Khóa API không hợp lệ.',
+    'errors.auth.message': 'Khóa API bị thiếu, không hợp lệ hoặc không còn tồn tại. Vui lòng chọn một khóa khác.',
+    'errors.billing.title': 'Cần bật thanh toán.',
+    'errors.billing.message': 'Mô hình này chỉ dành cho khóa API thuộc dự án đã bật thanh toán.',
+    'errors.quota.title': 'Vượt quá hạn mức.',
+    'errors.quota.message': 'Bạn đã gửi quá nhiều yêu cầu hoặc đã dùng hết hạn mức. Hãy đợi một lát rồi thử lại, hoặc kiểm tra gói của bạn.',
+    'errors.safety.title': 'Bị chặn bởi bộ lọc an toàn.',
+    'errors.safety.message': 'Yêu cầu hoặc kết quả đã bị bộ lọc an toàn chặn. Hãy diễn đạt lại mô tả và thử lại.',
+    'errors.invalidInput.title': 'Yêu cầu không hợp lệ.',
+    'errors.invalidInput.message': 'Dịch vụ đã từ chối dữ liệu đầu vào. Hãy kiểm tra mô tả, hình ảnh và các tùy chọn.',
+    'errors.network.title': 'Lỗi mạng.',
+    'errors.network.message': 'Không thể kết nối tới dịch vụ. Hãy kiểm tra kết nối mạng rồi thử lại.',
+    'errors.timeout.title': 'Hết thời gian chờ.',
+    'errors.timeout.message': 'Yêu cầu mất quá nhiều thời gian. Vui lòng thử lại.',
+    'errors.emptyResult.title': 'Không có kết quả.',
+    'errors.emptyResult.message': 'Dịch vụ không trả về nội dung nào. Hãy thử lại hoặc điều chỉnh mô tả.',
+    'errors.unknown.title': 'Lỗi:',
+    'errors.unknown.message': 'Đã xảy ra lỗi không xác định.',
+    'errors.action.retry': 'Thử lại',
+    'errors.action.selectKey': 'Chọn khóa API',
+    'errors.action.openBilling': 'Tìm hiểu về thanh toán',
+    'errors.action.openRateLimits': 'Xem giới hạn tốc độ',
+    'errors.details': 'Chi tiết',
+    'errors.safety.categories': 'Bị chặn vì:',
+    'errors.action.rephrase': 'Diễn đạt lại an toàn',
+    'errors.action.rephrasing': 'Đang diễn đạt lại...',
+    'safety.category.child': 'Trẻ em',
+    'safety.category.celebrity': 'Người nổi tiếng',
+    'safety.category.dangerous': 'Nội dung nguy hiểm',
+    'safety.category.harassment': 'Quấy rối',
+    'safety.category.hate': 'Thù ghét',
+    'safety.category.people': 'Người / khuôn mặt',
+    'safety.category.personalInfo': 'Thông tin cá nhân',
+    'safety.category.prohibited': 'Nội dung bị cấm',
+    'safety.category.sexual': 'Nội dung tình dục',
+    'safety.category.toxic': 'Ngôn từ độc hại',
+    'safety.category.violence': 'Bạo lực',
+    'safety.category.vulgar': 'Ngôn từ thô tục',
+    'safety.category.other': 'Khác',
+    'apiKey.checking': 'Đang kiểm tra Khóa API...',
+    'apiKey.button.selectAiStudio': 'Chọn khóa trong AI Studio',
+    'apiKey.button.enterKey': 'Nhập Khóa API',
+    'story.apiKey.required.title': 'Yêu Cầu Khóa API để Viết Truyện',
+    'story.apiKey.required.description': 'Việc viết truyện và đọc truyện yêu cầu một Khóa API. Vui lòng chọn hoặc nhập một khóa để tiếp tục.',
+    'storyboard.apiKey.required.title': 'Yêu Cầu Khóa API cho Bảng Phân Cảnh',
+    'storyboard.apiKey.required.description': 'Việc chia cảnh, tạo khung hình chính và clip yêu cầu một Khóa API. Vui lòng chọn hoặc nhập một khóa để tiếp tục.',
+    'apiKey.source.stored': 'Khóa bạn đã nhập',
+    'apiKey.source.aiStudio': 'Khóa chọn trong AI Studio',
+    'apiKey.source.env': 'Khóa từ cấu hình môi trường',
+    'apiKey.source.none': 'Chưa có khóa',
+    'apiKey.source.notNeeded': 'Không cần khóa cho nhà cung cấp hiện tại',
+    'apiKey.settings.title': 'Cài đặt Khóa API',
+    'apiKey.settings.current': 'Đang dùng:',
+    'apiKey.settings.enterLabel': 'Khóa API Gemini',
+    'apiKey.settings.placeholder': 'Dán khóa API của bạn',
+    'apiKey.settings.show': 'Hiện',
+    'apiKey.settings.hide': 'Ẩn',
+    'apiKey.settings.storageNote': 'Khóa được kiểm tra rồi lưu trong trình duyệt này và được ưu tiên hơn các nguồn khác.',
+    'apiKey.settings.getKey': 'Lấy khóa API',
+    'apiKey.settings.validating': 'Đang kiểm tra...',
+    'apiKey.settings.save': 'Kiểm tra và lưu',
+    'apiKey.settings.envNote': 'Ứng dụng này cũng có một khóa từ cấu hình môi trường, được dùng khi không có khóa nào khác.',
+    'apiKey.settings.remove': 'Xóa khóa đã lưu',
+    'apiKey.settings.close': 'Đóng',
+    'errors.budget.title': 'Vượt ngân sách.',
+    'errors.budget.message': 'Tạo video này sẽ vượt ngân sách sử dụng đã đặt. Hãy tăng hoặc xóa giới hạn trong phần Mức sử dụng.',
+    'errors.action.openUsage': 'Mở mức sử dụng',
+    'usage.title': 'Mức sử dụng & chi phí',
+    'usage.filter': 'Lọc theo tab',
+    'usage.filter.all': 'Tất cả các tab',
+    'usage.disclaimer': 'Chi phí là ước tính dựa trên bảng giá bên dưới và mức sử dụng ghi lại trên trình duyệt này; hóa đơn thực tế có thể khác.',
+    'usage.period.today': 'Hôm nay',
+    'usage.period.month': 'Tháng này',
+    'usage.period.allTime': 'Tất cả',
+    'usage.calls': 'lượt gọi',
+    'usage.tokens': 'Token',
+    'usage.images': 'Hình ảnh',
+    'usage.videoSeconds': 'Giây video',
+    'usage.details': 'Chi tiết',
+    'usage.budget.title': 'Ngân sách',
+    'usage.budget.daily': 'Giới hạn hằng ngày (USD)',
+    'usage.budget.monthly': 'Giới hạn hằng tháng (USD)',
+    'usage.budget.none': 'Không giới hạn',
+    'usage.budget.mode': 'Khi vượt ngân sách:',
+    'usage.budget.mode.warn': 'Cảnh báo trước khi tạo video',
+    'usage.budget.mode.block': 'Chặn tạo video',
+    'usage.budget.save': 'Lưu ngân sách',
+    'usage.budget.note': 'Ngân sách áp dụng cho tất cả các tab và được kiểm tra trước khi bắt đầu tạo video.',
+    'usage.confirm.daily': 'Video này sẽ vượt ngân sách hằng ngày của bạn. Vẫn tiếp tục?',
+    'usage.confirm.monthly': 'Video này sẽ vượt ngân sách hằng tháng của bạn. Vẫn tiếp tục?',
+    'usage.empty': 'Chưa có mức sử dụng nào được ghi lại.',
+    'usage.byTab': 'Theo tab',
+    'usage.byModel': 'Theo mô hình',
+    'usage.noTab': 'Khác',
+    'usage.prices.title': 'Bảng giá',
+    'usage.prices.note': 'Giá tính bằng USD. Để trống nếu mô hình không tính phí theo đơn vị đó.',
+    'usage.prices.model': 'Mô hình',
+    'usage.prices.inputPerMillionTokens': 'Đầu vào / 1 triệu token',
+    'usage.prices.outputPerMillionTokens': 'Đầu ra / 1 triệu token',
+    'usage.prices.perImage': 'Mỗi ảnh',
+    'usage.prices.perVideoSecond': 'Mỗi giây video',
+    'usage.prices.save': 'Lưu giá',
+    'usage.prices.reset': 'Khôi phục mặc định',
+    'usage.clear': 'Xóa lịch sử sử dụng',
+    'usage.confirmClear': 'Xóa toàn bộ lịch sử sử dụng? Không thể hoàn tác.',
+    'usage.close': 'Đóng',
+    'image.advanced.negativePromptUnsupported': 'Mô hình hình ảnh hiện tại không hỗ trợ mô tả loại trừ. Hãy mô tả những gì bạn muốn thấy trong câu lệnh, ví dụ "nền trơn" thay vì "không có chữ".',
+    'story.button.sendNarrationToStoryboard': 'Gửi Lời Kể sang Phân Cảnh',
+    'story.button.sendNarrationToStoryboardTitle': 'Dùng lời kể này khi xuất phim từ bảng phân cảnh',
+    'storyboard.export.label.storyNarration': 'Thêm lời kể từ câu chuyện',
   },
   en: {
     'app.title': 'AI Creative Suite',
@@ -104,7 +508,7 @@ export const translations: Record<string, Record<string, string>> = {
     'error.prefix': 'Error:',
     'uploader.label': 'Click to upload',
     'uploader.prompt': 'or drag and drop',
-    'uploader.types': 'PNG, JPG, GIF up to 10MB',
+    'uploader.types': 'PNG, JPG, WEBP, GIF up to 10MB',
     'story.title': 'Your Story\'s Beginning',
     'story.placeholder': 'Your generated story will appear here...',
     'story.aria.read': 'Read aloud',
@@ -112,7 +516,6 @@ export const translations: Record<string, Record<string, string>> = {
     'story.button.weave': '✨ Weave My Story',
     'story.loading': 'The AI is dreaming up your story...',
     'story.error.noImage': 'Please upload an image first.',
-    'story.error.apiFail': 'Failed to generate story.',
     'story.error.audioFail': 'Failed to generate audio.',
     'story.button.sendToVideo': 'Create Video from Story',
     'story.button.sendToVideoTitle': 'Use this story as a prompt to generate a video',
@@ -123,18 +526,14 @@ export const translations: Record<string, Record<string, string>> = {
     'idea.placeholder': 'Your creative ideas will appear here...',
     'idea.button.sendToImage': 'Send to Image Gen',
     'idea.button.sendToVideo': 'Send to Video Gen',
-    'idea.error.apiFail': 'Failed to generate ideas.',
-    'idea.error.apiKey': 'API Key is required for this action.',
     'idea.button.generateAllImages': 'Generate All Images',
     'idea.button.generateAllVideos': 'Generate All Videos',
     'idea.button.generateImage': 'Generate Image',
     'idea.button.generateVideo': 'Generate Video',
     'idea.generatingAllImages': 'Generating all images...',
     'idea.generatingAllVideos': 'Generating all videos...',
-    'idea.apiKey.checking': 'Checking for API Key...',
     'idea.apiKey.required.title': 'API Key Required for Generation',
     'idea.apiKey.required.description': 'Generating images and videos requires an API key. Please select a key to proceed.',
-    'idea.apiKey.required.button': 'Select API Key',
     'image.description': 'Describe the image you want to create.',
     'image.placeholder': 'e.g., A majestic cat astronaut exploring a neon-lit alien jungle...',
     'image.label.aspectRatio': 'Aspect Ratio',
@@ -148,23 +547,17 @@ export const translations: Record<string, Record<string, string>> = {
     'image.loading.3': 'Dreaming in pixels...',
     'image.loading.4': 'Focusing the lens of imagination...',
     'image.error.noPrompt': 'Please provide a prompt to generate an image.',
-    'image.error.apiFail': 'Image generation failed.',
-    'image.error.billingRequired': 'Your API Key does not have billing enabled or is invalid. Please select a new one.',
-    'image.apiKey.checking': 'Checking for API Key...',
     'image.apiKey.required.title': 'API Key Required for Image Generation',
     'image.apiKey.required.description': 'The Imagen model requires an API key with billing enabled. Please select a key to proceed. For details on usage and billing, see the',
     'image.apiKey.required.docsLink': 'official documentation',
-    'image.apiKey.required.button': 'Select API Key',
     'image.button.sendToVideo': 'Create Video',
-    'image.button.sendToVideoTitle': 'Use this prompt to generate a video',
+    'image.button.sendToVideoTitle': 'Animate this image as the first frame of a video',
     'image.history.title': 'Recent Creations',
     'image.history.tooltip': 'Click to reload image and prompt',
     'video.title': 'AI Video Creator',
-    'video.apiKey.checking': 'Checking for API Key...',
     'video.apiKey.required.title': 'API Key Required for Video Generation',
     'video.apiKey.required.description': 'The Veo model requires an API key. Please select a key to proceed. For details on usage and billing, see the',
     'video.apiKey.required.docsLink': 'official documentation',
-    'video.apiKey.required.button': 'Select API Key',
     'video.description': 'Provide a prompt and/or a starting image.',
     'video.placeholder.prompt': 'e.g., A neon hologram of a cat driving at top speed...',
     'video.label.aspectRatio': 'Aspect Ratio',
@@ -179,14 +572,429 @@ export const translations: Record<string, Record<string, string>> = {
     'video.loading.4': 'This can take a few minutes, hang tight!',
     'video.loading.5': 'The AI is painting with light and time...',
     'video.error.noPromptOrImage': 'Please provide a prompt or an image to generate a video.',
-    'video.error.invalidKey': 'Your API Key seems to be invalid. Please select a new one.',
-    'video.error.apiFail': 'Video generation failed.',
-    'video.error.quotaExceeded': 'You have exceeded your API usage quota. Please check your plan and billing details. See the <a href="https://ai.google.dev/gemini-api/docs/rate-limits" target="_blank" rel="noopener noreferrer" class="font-semibold underline text-red-200 hover:text-white">rate limits</a> or <a href="https://ai.dev/usage?tab=rate-limit" target="_blank" rel="noopener noreferrer" class="font-semibold underline text-red-200 hover:text-white">monitor your usage</a>.',
     'share.buttonTitle': 'Share',
     'share.image.title': 'AI Generated Image',
     'share.image.text': 'Check out this image I created with the AI Creative Suite!',
     'share.video.title': 'AI Generated Video',
     'share.video.text': 'Check out this video I created with the AI Creative Suite!',
     'share.error': 'Sharing failed.',
+    'tab.library': 'Library',
+    'library.title': 'Your Creative Library',
+    'library.description': 'Every image, video, story, narration and idea you have created, kept across sessions.',
+    'library.placeholder.search': 'Search by prompt, text or model...',
+    'library.label.kind': 'Type',
+    'library.label.source': 'Source',
+    'library.kind.all': 'All',
+    'library.kind.image': 'Image',
+    'library.kind.video': 'Video',
+    'library.kind.story': 'Story',
+    'library.kind.audio': 'Narration',
+    'library.kind.ideas': 'Ideas',
+    'library.empty': 'Nothing here yet. Your creations will appear here.',
+    'library.button.delete': 'Delete',
+    'library.confirmDelete': 'Delete this item from your library?',
+    'library.error.loadFail': 'Failed to load the library.',
+    'library.error.deleteFail': 'Failed to delete the item.',
+    'jobs.title': 'Video queue',
+    'jobs.active': 'running',
+    'jobs.untitled': '(No prompt)',
+    'jobs.status.queued': 'Queued',
+    'jobs.status.running': 'Generating',
+    'jobs.status.succeeded': 'Ready',
+    'jobs.status.failed': 'Failed',
+    'jobs.status.cancelled': 'Cancelled',
+    'jobs.button.view': 'View',
+    'jobs.button.cancel': 'Cancel',
+    'jobs.button.dismiss': 'Dismiss',
+    'jobs.button.close': 'Close',
+    'jobs.notify.succeeded': 'Your video is ready!',
+    'jobs.notify.failed': 'Video generation failed.',
+    'video.backgroundHint': 'You can switch tabs or reload the page; the video keeps generating.',
+    'tab.storyboard': 'Storyboard',
+    'story.button.sendToStoryboard': 'Create Storyboard from Story',
+    'story.button.sendToStoryboardTitle': 'Split this story into scenes with images and clips',
+    'storyboard.title': 'Storyboard Studio',
+    'storyboard.description': 'Split a story into scenes, then create a keyframe and a video clip for each one.',
+    'storyboard.placeholder.story': 'Paste or write your story here...',
+    'storyboard.placeholder.scenes': 'Your scenes will appear here...',
+    'storyboard.placeholder.keyframe': 'No keyframe yet',
+    'storyboard.placeholder.clip': 'No clip yet',
+    'storyboard.label.sceneCount': 'Number of scenes',
+    'storyboard.label.visualPrompt': 'Visual prompt',
+    'storyboard.scene': 'Scene',
+    'storyboard.button.plan': 'Split into Scenes',
+    'storyboard.button.planning': 'Planning scenes...',
+    'storyboard.button.generateAllKeyframes': 'Generate All Keyframes',
+    'storyboard.button.generateKeyframe': 'Generate Keyframe',
+    'storyboard.button.regenerateKeyframe': 'Regenerate Keyframe',
+    'storyboard.button.generateClip': 'Generate Clip',
+    'storyboard.button.regenerateClip': 'Regenerate Clip',
+    'storyboard.button.moveUp': 'Move up',
+    'storyboard.button.moveDown': 'Move down',
+    'storyboard.button.remove': 'Remove scene',
+    'storyboard.hint.keyframeFirst': 'Generate a keyframe first',
+    'storyboard.error.noStory': 'Please enter a story first.',
+    'storyboard.export.title': 'Export Film',
+    'storyboard.export.description': 'Stitch the generated clips into a single file with narration, title cards and crossfades. Scenes with a ready clip',
+    'storyboard.export.unsupported': 'Your browser does not support video recording.',
+    'storyboard.export.placeholder.title': 'Opening title (optional)',
+    'storyboard.export.label.crossfade': 'Crossfade',
+    'storyboard.export.label.sceneTitles': 'Title card for each scene',
+    'storyboard.export.label.narration': 'Add narration',
+    'storyboard.export.button': 'Export Film',
+    'storyboard.export.narrating': 'Generating narration...',
+    'storyboard.export.recording': 'Composing film...',
+    'storyboard.export.keepVisible': 'Keep this tab visible until it finishes.',
+    'storyboard.export.download': 'Download',
+    'story.button.downloadWavTitle': 'Download the narration as uncompressed WAV',
+    'story.button.downloadCompressed': 'Compressed',
+    'story.button.downloadCompressedTitle': 'Download the narration as a compressed file (encodes in real time)',
+    'story.player.play': 'Play',
+    'story.player.pause': 'Pause',
+    'story.player.seek': 'Playback position',
+    'story.player.speed': 'Playback speed',
+    'tts.title': 'Narration Voice',
+    'tts.label.voice': 'Voice',
+    'tts.label.style': 'Delivery style',
+    'tts.placeholder.style': 'e.g. slow, warm and a little mysterious',
+    'tts.label.dialogue': 'Dialogue mode (one voice per character)',
+    'tts.hint.dialogueFormat': 'Dialogue mode needs lines tagged as "Name: line" for two characters.',
+    'tts.hint.tooManySpeakers': 'The story has more characters than one narration can voice.',
+    'tts.trait.firm': 'Firm',
+    'tts.trait.bright': 'Bright',
+    'tts.trait.upbeat': 'Upbeat',
+    'tts.trait.informative': 'Informative',
+    'tts.trait.excitable': 'Excitable',
+    'tts.trait.youthful': 'Youthful',
+    'tts.trait.breezy': 'Breezy',
+    'tts.trait.easyGoing': 'Easy-going',
+    'tts.trait.breathy': 'Breathy',
+    'tts.trait.clear': 'Clear',
+    'tts.trait.smooth': 'Smooth',
+    'tts.trait.gravelly': 'Gravelly',
+    'tts.trait.soft': 'Soft',
+    'tts.trait.even': 'Even',
+    'tts.trait.mature': 'Mature',
+    'tts.trait.forward': 'Forward',
+    'tts.trait.friendly': 'Friendly',
+    'tts.trait.casual': 'Casual',
+    'tts.trait.gentle': 'Gentle',
+    'tts.trait.lively': 'Lively',
+    'tts.trait.knowledgeable': 'Knowledgeable',
+    'tts.trait.warm': 'Warm',
+    'story.player.generating': 'Generating the rest of the narration...',
+    'story.branches.title': 'Chapters',
+    'story.branches.chapter': 'Chapter',
+    'story.branches.selectHint': 'Go back to this chapter; continuing from here starts a new branch',
+    'story.branches.kind.opening': 'Opening',
+    'story.branches.kind.continuation': 'Continuation',
+    'story.branches.kind.rewrite': 'Rewrite',
+    'story.branches.kind.branch': 'Branch',
+    'story.branches.previousVersion': 'Previous version',
+    'story.branches.nextVersion': 'Next version',
+    'story.branches.compare': 'Compare',
+    'story.branches.closeCompare': 'Close',
+    'story.branches.pick': 'Use this version',
+    'story.branches.exportTitle': 'Download the full manuscript as Markdown',
+    'story.branches.placeholder.direction': 'Direction for the next chapter (optional)',
+    'story.branches.button.continue': 'Continue',
+    'story.branches.button.branch': 'Branch',
+    'story.branches.button.rewrite': 'Rewrite',
+    'story.branches.branchHint': 'Write an alternative version of the current chapter',
+    'story.branches.label.tone': 'Rewrite tone',
+    'story.branches.tone.darker': 'Darker',
+    'story.branches.tone.lighter': 'Lighter',
+    'story.branches.tone.suspenseful': 'Suspenseful',
+    'story.branches.tone.whimsical': 'Whimsical',
+    'story.branches.tone.poetic': 'Poetic',
+    'story.branches.tone.humorous': 'Humorous',
+    'story.branches.markdownTitle': 'My Story',
+    'storySettings.title': 'Story Settings',
+    'storySettings.label.genre': 'Genre',
+    'storySettings.label.tone': 'Tone',
+    'storySettings.label.length': 'Length',
+    'storySettings.label.pointOfView': 'Point of view',
+    'storySettings.label.ageRating': 'Audience',
+    'storySettings.label.outputLanguage': 'Story language',
+    'storySettings.label.presets': 'Saved presets',
+    'storySettings.option.any': 'Let the AI decide',
+    'storySettings.option.interfaceLanguage': 'Same as interface',
+    'storySettings.genre.fantasy': 'Fantasy',
+    'storySettings.genre.sciFi': 'Science fiction',
+    'storySettings.genre.mystery': 'Mystery',
+    'storySettings.genre.romance': 'Romance',
+    'storySettings.genre.horror': 'Horror',
+    'storySettings.genre.adventure': 'Adventure',
+    'storySettings.genre.fairyTale': 'Fairy tale',
+    'storySettings.genre.sliceOfLife': 'Slice of life',
+    'storySettings.tone.whimsical': 'Whimsical',
+    'storySettings.tone.dark': 'Dark',
+    'storySettings.tone.hopeful': 'Hopeful',
+    'storySettings.tone.melancholic': 'Melancholic',
+    'storySettings.tone.humorous': 'Humorous',
+    'storySettings.tone.suspenseful': 'Suspenseful',
+    'storySettings.length.short': 'Short (~100 words)',
+    'storySettings.length.medium': 'Medium (~250 words)',
+    'storySettings.length.long': 'Long (~500 words)',
+    'storySettings.pointOfView.first': 'First person',
+    'storySettings.pointOfView.third': 'Third person',
+    'storySettings.ageRating.children': 'Children',
+    'storySettings.ageRating.teen': 'Teens',
+    'storySettings.ageRating.adult': 'Adults',
+    'storySettings.outputLanguage.vi': 'Vietnamese',
+    'storySettings.outputLanguage.en': 'English',
+    'storySettings.outputLanguage.ja': 'Japanese',
+    'storySettings.outputLanguage.ko': 'Korean',
+    'storySettings.outputLanguage.zh': 'Chinese',
+    'storySettings.outputLanguage.fr': 'French',
+    'storySettings.outputLanguage.es': 'Spanish',
+    'storySettings.outputLanguage.de': 'German',
+    'storySettings.placeholder.presetName': 'Preset name',
+    'storySettings.button.savePreset': 'Save',
+    'storySettings.button.applyPreset': 'Apply this preset',
+    'storySettings.button.deletePreset': 'Delete preset',
+    'uploader.multiHint': 'Select several, drag and drop, or paste from the clipboard',
+    'uploader.image': 'Image',
+    'uploader.moveEarlier': 'Move earlier',
+    'uploader.moveLater': 'Move later',
+    'uploader.remove': 'Remove image',
+    'uploader.placeholder.caption': 'Caption (e.g. the main character)',
+    'uploader.error.unsupportedType': 'Unsupported format (PNG, JPG, WEBP or GIF only).',
+    'uploader.error.tooLarge': 'The image is larger than 10MB.',
+    'uploader.error.decodeFailed': 'This image could not be read.',
+    'cropper.imageAlt': 'Starting image',
+    'cropper.aria.crop': 'Crop area',
+    'cropper.hint': 'Drag the frame to choose the area and the corner to resize. The frame follows the selected video aspect ratio.',
+    'image.label.candidates': 'Candidates:',
+    'image.candidates.view': 'Candidate',
+    'image.candidates.favorite': 'Select to save',
+    'image.candidates.upscale': 'Upscale (2K)',
+    'image.candidates.save': 'Save selected',
+    'image.candidates.upscaleNoSeed': 'Upscaling regenerates the image at 2K from the same prompt; the current provider doesn\'t support seeds, so the result may differ slightly.',
+    'image.error.saveFail': 'Could not save the images to the library.',
+    'image.advanced.title': 'Advanced options',
+    'image.advanced.negativePrompt': 'Negative prompt',
+    'image.advanced.placeholder.negativePrompt': 'e.g. text, watermark, blur',
+    'image.advanced.model': 'Model',
+    'image.advanced.model.standard': 'Standard',
+    'image.advanced.model.fast': 'Fast',
+    'image.advanced.model.ultra': 'Ultra (highest quality)',
+    'image.advanced.outputMimeType': 'Output format',
+    'image.advanced.personGeneration': 'People in images',
+    'image.advanced.personGeneration.allowAdult': 'Adults only',
+    'image.advanced.personGeneration.dontAllow': 'Don\'t allow',
+    'image.advanced.personGeneration.allowAll': 'Allow all',
+    'image.advanced.seed': 'Seed',
+    'image.advanced.placeholder.seed': 'Random',
+    'image.advanced.seedUnsupported': 'The current provider doesn\'t support seeds, so results can\'t be reproduced exactly.',
+    'image.editor.title': 'Edit image',
+    'image.editor.button.open': 'Edit this image',
+    'image.editor.button.close': 'Close editor',
+    'image.editor.mode.instruct': 'Instruction',
+    'image.editor.mode.inpaint': 'Inpaint',
+    'image.editor.mode.outpaint': 'Outpaint',
+    'image.editor.hint.instruct': 'Describe the change you want, e.g. "make it sunset".',
+    'image.editor.hint.inpaint': 'Paint over the area to change, then describe what should be there.',
+    'image.editor.hint.outpaint': 'Choose the edges to extend; the model paints what lies beyond them.',
+    'image.editor.placeholder.instruction': 'e.g. add a hot-air balloon in the sky',
+    'image.editor.placeholder.outpaint': 'Extra guidance (optional)',
+    'image.editor.label.brushSize': 'Brush size',
+    'image.editor.button.clearMask': 'Clear mask',
+    'image.editor.aria.mask': 'Inpainting mask',
+    'image.editor.side.top': 'Top',
+    'image.editor.side.right': 'Right',
+    'image.editor.side.bottom': 'Bottom',
+    'image.editor.side.left': 'Left',
+    'image.editor.label.extendBy': 'Extend by',
+    'image.editor.button.apply': 'Apply edit',
+    'image.editor.button.applying': 'Editing...',
+    'image.editor.button.undo': 'Undo',
+    'image.editor.button.redo': 'Redo',
+    'image.editor.button.save': 'Save version',
+    'image.editor.button.saved': 'Saved',
+    'image.editor.version': 'Version',
+    'enhancer.title': 'Suggested prompt',
+    'enhancer.button.enhance': 'Enhance prompt',
+    'enhancer.button.enhancing': 'Enhancing...',
+    'enhancer.button.enhanceTitle.image': 'Add lighting, camera, style and composition details for an image',
+    'enhancer.button.enhanceTitle.video': 'Add lighting, style, motion and camera move details for a video',
+    'enhancer.button.accept': 'Accept',
+    'enhancer.button.edit': 'Edit',
+    'enhancer.button.doneEditing': 'Done',
+    'enhancer.button.discard': 'Discard',
+    'enhancer.button.revert': 'Revert to original prompt',
+    'enhancer.aria.edit': 'Edit the suggested prompt',
+    'enhancer.aria.diff': 'Changes from the original prompt',
+    'enhancer.error.apiFail': 'Could not enhance the prompt.',
+    'templates.title': 'Prompt templates & styles',
+    'templates.label.template': 'Template',
+    'templates.label.text': 'Template text (use {variables})',
+    'templates.label.styles': 'Style presets',
+    'templates.placeholder.text': 'e.g. {subject} in the style of {style}, {lighting}',
+    'templates.placeholder.name': 'Template name...',
+    'templates.group.builtIn': 'Built-in',
+    'templates.group.mine': 'My templates',
+    'templates.builtIn.styled': 'Subject in a style',
+    'templates.builtIn.portrait': 'Portrait',
+    'templates.builtIn.landscape': 'Landscape',
+    'templates.builtIn.scene': 'Moving scene',
+    'templates.style.cinematic': 'Cinematic',
+    'templates.style.anime': 'Anime',
+    'templates.style.watercolor': 'Watercolor',
+    'templates.style.pixelArt': 'Pixel art',
+    'templates.style.oilPainting': 'Oil painting',
+    'templates.style.photorealistic': 'Photorealistic',
+    'templates.style.cyberpunk': 'Cyberpunk',
+    'templates.style.lowPoly': 'Low poly',
+    'templates.style.comicBook': 'Comic book',
+    'templates.style.claymation': 'Claymation',
+    'templates.button.apply': 'Use this prompt',
+    'templates.button.save': 'Save template',
+    'templates.button.delete': 'Delete template',
+    'templates.button.export': 'Export JSON',
+    'templates.button.import': 'Import JSON',
+    'templates.error.import': 'Could not import the file. Choose a JSON file with a valid template list.',
+    'idea.label.theme': 'Theme',
+    'idea.placeholder.theme': 'e.g. underwater cities, autumn in Kyoto...',
+    'idea.label.medium': 'Medium',
+    'idea.label.mood': 'Mood',
+    'idea.label.count': 'Number of ideas',
+    'idea.label.aspectRatio': 'Suggested aspect ratio',
+    'idea.medium.image': 'Image',
+    'idea.medium.video': 'Video',
+    'idea.medium.story': 'Story',
+    'idea.mood.any': 'Any',
+    'idea.mood.uplifting': 'Uplifting',
+    'idea.mood.mysterious': 'Mysterious',
+    'idea.mood.dreamy': 'Dreamy',
+    'idea.mood.epic': 'Epic',
+    'idea.mood.cozy': 'Cozy',
+    'idea.mood.eerie': 'Eerie',
+    'idea.mood.playful': 'Playful',
+    'idea.mood.melancholic': 'Melancholic',
+    'idea.button.moreLikeThis': 'More like this',
+    'idea.similarTo': 'Ideas similar to:',
+    'idea.label.concurrency': 'Run in parallel',
+    'idea.batch.paused': 'Paused',
+    'idea.batch.failedCount': 'failed',
+    'idea.batch.pause': 'Pause',
+    'idea.batch.resume': 'Resume',
+    'idea.batch.cancel': 'Cancel',
+    'idea.batch.retryFailed': 'Retry failed',
+    'idea.batch.dismiss': 'Dismiss',
+    'idea.batch.status.queued': 'Queued',
+    'idea.batch.status.running': 'Running',
+    'idea.batch.status.failed': 'Failed',
+    'idea.batch.status.done': 'Done',
+    'errors.auth.title': 'API key problem.',
+    'errors.auth.message': 'The API key is missing, invalid or no longer exists. Please select another key.',
+    'errors.billing.title': 'Billing required.',
+    'errors.billing.message': 'This model is only available with an API key from a project that has billing enabled.',
+    'errors.quota.title': 'Quota exceeded.',
+    'errors.quota.message': 'You have sent too many requests or used up your quota. Wait a moment and try again, or check your plan.',
+    'errors.safety.title': 'Blocked by safety filters.',
+    'errors.safety.message': 'The request or its result was blocked by safety filters. Rephrase your prompt and try again.',
+    'errors.invalidInput.title': 'Invalid request.',
+    'errors.invalidInput.message': 'The service rejected the input. Check the prompt, images and options.',
+    'errors.network.title': 'Network error.',
+    'errors.network.message': 'The service could not be reached. Check your connection and try again.',
+    'errors.timeout.title': 'Timed out.',
+    'errors.timeout.message': 'The request took too long. Please try again.',
+    'errors.emptyResult.title': 'No result.',
+    'errors.emptyResult.message': 'The service returned nothing. Try again or adjust your prompt.',
+    'errors.unknown.title': 'Error:',
+    'errors.unknown.message': 'An unknown error occurred.',
+    'errors.action.retry': 'Try again',
+    'errors.action.selectKey': 'Select API key',
+    'errors.action.openBilling': 'Learn about billing',
+    'errors.action.openRateLimits': 'View rate limits',
+    'errors.details': 'Details',
+    'errors.safety.categories': 'Triggered by:',
+    'errors.action.rephrase': 'Rephrase safely',
+    'errors.action.rephrasing': 'Rephrasing...',
+    'safety.category.child': 'Children',
+    'safety.category.celebrity': 'Celebrities',
+    'safety.category.dangerous': 'Dangerous content',
+    'safety.category.harassment': 'Harassment',
+    'safety.category.hate': 'Hate',
+    'safety.category.people': 'People / faces',
+    'safety.category.personalInfo': 'Personal information',
+    'safety.category.prohibited': 'Prohibited content',
+    'safety.category.sexual': 'Sexual content',
+    'safety.category.toxic': 'Toxic language',
+    'safety.category.violence': 'Violence',
+    'safety.category.vulgar': 'Vulgar language',
+    'safety.category.other': 'Other',
+    'apiKey.checking': 'Checking for API Key...',
+    'apiKey.button.selectAiStudio': 'Select a key in AI Studio',
+    'apiKey.button.enterKey': 'Enter an API key',
+    'story.apiKey.required.title': 'API Key Required for Stories',
+    'story.apiKey.required.description': 'Writing and narrating stories requires an API key. Please select or enter a key to proceed.',
+    'storyboard.apiKey.required.title': 'API Key Required for Storyboards',
+    'storyboard.apiKey.required.description': 'Planning scenes, keyframes and clips requires an API key. Please select or enter a key to proceed.',
+    'apiKey.source.stored': 'Your saved key',
+    'apiKey.source.aiStudio': 'Key selected in AI Studio',
+    'apiKey.source.env': 'Key from the environment',
+    'apiKey.source.none': 'No key',
+    'apiKey.source.notNeeded': 'Not needed by the current provider',
+    'apiKey.settings.title': 'API Key Settings',
+    'apiKey.settings.current': 'In use:',
+    'apiKey.settings.enterLabel': 'Gemini API key',
+    'apiKey.settings.placeholder': 'Paste your API key',
+    'apiKey.settings.show': 'Show',
+    'apiKey.settings.hide': 'Hide',
+    'apiKey.settings.storageNote': 'The key is checked, then stored in this browser and used ahead of any other source.',
+    'apiKey.settings.getKey': 'Get an API key',
+    'apiKey.settings.validating': 'Checking...',
+    'apiKey.settings.save': 'Check and save',
+    'apiKey.settings.envNote': 'This app also has a key from its environment, which is used when no other key is set.',
+    'apiKey.settings.remove': 'Remove saved key',
+    'apiKey.settings.close': 'Close',
+    'errors.budget.title': 'Over budget.',
+    'errors.budget.message': 'Generating this video would go over the usage budget you set. Raise or remove the limit under Usage.',
+    'errors.action.openUsage': 'Open usage',
+    'usage.title': 'Usage & cost',
+    'usage.filter': 'Filter by tab',
+    'usage.filter.all': 'All tabs',
+    'usage.disclaimer': 'Costs are estimates based on the price table below and the usage recorded in this browser; your actual bill may differ.',
+    'usage.period.today': 'Today',
+    'usage.period.month': 'This month',
+    'usage.period.allTime': 'All time',
+    'usage.calls': 'calls',
+    'usage.tokens': 'Tokens',
+    'usage.images': 'Images',
+    'usage.videoSeconds': 'Video seconds',
+    'usage.details': 'Details',
+    'usage.budget.title': 'Budgets',
+    'usage.budget.daily': 'Daily limit (USD)',
+    'usage.budget.monthly': 'Monthly limit (USD)',
+    'usage.budget.none': 'No limit',
+    'usage.budget.mode': 'When over budget:',
+    'usage.budget.mode.warn': 'Warn before generating video',
+    'usage.budget.mode.block': 'Block video generation',
+    'usage.budget.save': 'Save budgets',
+    'usage.budget.note': 'Budgets cover every tab and are checked before a video generation starts.',
+    'usage.confirm.daily': 'This video would go over your daily budget. Continue anyway?',
+    'usage.confirm.monthly': 'This video would go over your monthly budget. Continue anyway?',
+    'usage.empty': 'No usage recorded yet.',
+    'usage.byTab': 'By tab',
+    'usage.byModel': 'By model',
+    'usage.noTab': 'Other',
+    'usage.prices.title': 'Price table',
+    'usage.prices.note': 'Prices are in US dollars. Leave a field empty when the model is not billed by that unit.',
+    'usage.prices.model': 'Model',
+    'usage.prices.inputPerMillionTokens': 'Input / 1M tokens',
+    'usage.prices.outputPerMillionTokens': 'Output / 1M tokens',
+    'usage.prices.perImage': 'Per image',
+    'usage.prices.perVideoSecond': 'Per video second',
+    'usage.prices.save': 'Save prices',
+    'usage.prices.reset': 'Reset to defaults',
+    'usage.clear': 'Clear usage history',
+    'usage.confirmClear': 'Delete all recorded usage? This cannot be undone.',
+    'usage.close': 'Close',
+    'image.advanced.negativePromptUnsupported': 'The current image model doesn\'t support negative prompts. Describe what you want to see in the prompt instead, e.g. "plain background" rather than "no text".',
+    'story.button.sendNarrationToStoryboard': 'Send Narration to Storyboard',
+    'story.button.sendNarrationToStoryboardTitle': 'Use this narration when exporting the storyboard film',
+    'storyboard.export.label.storyNarration': 'Add the story\'s narration',
   },
 };
\ No newline at end of file
@@ -55,3 +55,150 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+/**
+ * Wraps raw little-endian Int16 PCM in a RIFF/WAVE container.
+ * @param data The raw PCM audio data as a Uint8Array.
+ * @param sampleRate The sample rate of the audio.
+ * @param numChannels The number of audio channels.
+ * @returns A Blob containing a playable WAV file.
+ */
+export function encodeWav(data: Uint8Array, sampleRate: number, numChannels: number): Blob {
+  const bytesPerSample = 2;
+  const blockAlign = numChannels * bytesPerSample;
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + data.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, data.byteLength, true);
+
+  return new Blob([header, data], { type: 'audio/wav' });
+}
+
+const COMPRESSED_AUDIO_PREFERENCES = [
+  'audio/mpeg',
+  'audio/mp4',
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+];
+
+/**
+ * Picks the best compressed audio format the browser can record, preferring MP3.
+ * @returns The MIME type, or an empty string when recording is unsupported.
+ */
+export function getSupportedCompressedAudioMimeType(): string {
+  if (typeof MediaRecorder === 'undefined') return '';
+  return COMPRESSED_AUDIO_PREFERENCES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+/**
+ * Re-encodes raw PCM into a compressed format via MediaRecorder. Browsers only
+ * expose real-time encoders, so this takes as long as the audio itself.
+ * @param data The raw PCM audio data as a Uint8Array.
+ * @param sampleRate The sample rate of the audio.
+ * @param numChannels The number of audio channels.
+ * @returns A promise that resolves to the compressed audio.
+ */
+export async function encodeCompressedAudio(
+  data: Uint8Array,
+  sampleRate: number,
+  numChannels: number,
+): Promise<Blob> {
+  const mimeType = getSupportedCompressedAudioMimeType();
+  if (!mimeType) {
+    throw new Error("Compressed audio recording is not supported in this browser.");
+  }
+
+  const ctx = new AudioContext({ sampleRate });
+  try {
+    const buffer = await decodeAudioData(data, ctx, sampleRate, numChannels);
+    const destination = ctx.createMediaStreamDestination();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    source.onended = () => recorder.stop();
+
+    recorder.start();
+    source.start();
+    await stopped;
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } finally {
+    await ctx.close();
+  }
+}
+
+/**
+ * Reduces an AudioBuffer to per-bar peak amplitudes for drawing a waveform.
+ * @param buffer The decoded audio.
+ * @param bars The number of bars to compute.
+ * @returns Peak amplitudes between 0 and 1, one per bar.
+ */
+export function computeWaveform(buffer: AudioBuffer, bars: number): number[] {
+  const channelData = buffer.getChannelData(0);
+  const samplesPerBar = Math.max(1, Math.floor(channelData.length / bars));
+  const peaks: number[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    let peak = 0;
+    const start = bar * samplesPerBar;
+    const end = Math.min(start + samplesPerBar, channelData.length);
+    for (let i = start; i < end; i++) {
+      const value = Math.abs(channelData[i]);
+      if (value > peak) peak = value;
+    }
+    peaks.push(peak);
+  }
+  return peaks;
+}
+
+/**
+ * Concatenates raw mono Int16 PCM chunks, blending each boundary with a short
+ * linear crossfade so the joins don't click.
+ * @param chunks The PCM chunks in playback order.
+ * @param sampleRate The sample rate of the audio.
+ * @param crossfadeMs The length of each crossfade in milliseconds.
+ * @returns A single PCM byte array.
+ */
+export function concatPcmWithCrossfade(chunks: Uint8Array[], sampleRate: number, crossfadeMs: number): Uint8Array {
+  const samples = chunks.map(chunk => new Int16Array(chunk.buffer, chunk.byteOffset, Math.floor(chunk.byteLength / 2)));
+  const fades = samples.slice(1).map((next, i) =>
+    Math.min(Math.round((sampleRate * crossfadeMs) / 1000), Math.floor(samples[i].length / 2), Math.floor(next.length / 2)),
+  );
+  const totalLength = samples.reduce((sum, s) => sum + s.length, 0) - fades.reduce((sum, f) => sum + f, 0);
+  const output = new Int16Array(totalLength);
+
+  let offset = 0;
+  samples.forEach((chunk, index) => {
+    const fade = index > 0 ? fades[index - 1] : 0;
+    const start = offset - fade;
+    for (let i = 0; i < fade; i++) {
+      const gain = (i + 1) / (fade + 1);
+      output[start + i] = Math.round(output[start + i] * (1 - gain) + chunk[i] * gain);
+    }
+    output.set(chunk.subarray(fade), offset);
+    offset += chunk.length - fade;
+  });
+  return new Uint8Array(output.buffer);
+}
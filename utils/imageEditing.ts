@@ -0,0 +1,99 @@
+/**
+ * Canvas helpers for the image editor: masks for inpainting and padded
+ * canvases for outpainting.
+ */
+
+export interface OutpaintPadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface MaskedImage {
+  /** PNG data URL of the image to send. */
+  image: string;
+  /** PNG data URL of the mask, white where the model may paint. */
+  mask: string;
+}
+
+/**
+ * Loads an image URL into an image element.
+ * @param src The URL to load.
+ */
+export function loadImageElement(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load the image."));
+    image.src = src;
+  });
+}
+
+/**
+ * Splits a data URL into its base64 payload and MIME type.
+ */
+export function parseDataUrl(dataUrl: string): { base64: string; mimeType: string } {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'image/png';
+  return { base64, mimeType };
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+  return { canvas, ctx };
+};
+
+/**
+ * Turns brush strokes drawn on a transparent canvas into a black and white mask.
+ * @param strokes The canvas holding the strokes, at the image's natural size.
+ * @returns A PNG data URL, white wherever a stroke was drawn.
+ */
+export function renderMask(strokes: HTMLCanvasElement): string {
+  const { canvas, ctx } = createCanvas(strokes.width, strokes.height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  // Recolor every painted pixel white, whatever color the brush preview used.
+  const stroked = createCanvas(strokes.width, strokes.height);
+  stroked.ctx.drawImage(strokes, 0, 0);
+  stroked.ctx.globalCompositeOperation = 'source-in';
+  stroked.ctx.fillStyle = '#ffffff';
+  stroked.ctx.fillRect(0, 0, strokes.width, strokes.height);
+  ctx.drawImage(stroked.canvas, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Places an image on a larger canvas for outpainting.
+ * @param src The image URL.
+ * @param padding How far to extend each side, as a fraction of the image's width or height.
+ * @returns The padded image, with a neutral gray border, and the matching mask.
+ */
+export async function extendImage(src: string, padding: OutpaintPadding): Promise<MaskedImage> {
+  const image = await loadImageElement(src);
+  const left = Math.round(image.naturalWidth * padding.left);
+  const right = Math.round(image.naturalWidth * padding.right);
+  const top = Math.round(image.naturalHeight * padding.top);
+  const bottom = Math.round(image.naturalHeight * padding.bottom);
+  const width = image.naturalWidth + left + right;
+  const height = image.naturalHeight + top + bottom;
+
+  const extended = createCanvas(width, height);
+  extended.ctx.fillStyle = '#808080';
+  extended.ctx.fillRect(0, 0, width, height);
+  extended.ctx.drawImage(image, left, top);
+
+  const mask = createCanvas(width, height);
+  mask.ctx.fillStyle = '#ffffff';
+  mask.ctx.fillRect(0, 0, width, height);
+  mask.ctx.fillStyle = '#000000';
+  mask.ctx.fillRect(left, top, image.naturalWidth, image.naturalHeight);
+
+  return { image: extended.canvas.toDataURL('image/png'), mask: mask.canvas.toDataURL('image/png') };
+}
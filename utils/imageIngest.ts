@@ -0,0 +1,147 @@
+/**
+ * Shared preparation for user-supplied images before they are sent to a
+ * model: validation, EXIF orientation, cropping, downscaling and re-encoding.
+ * Drawing through a canvas also drops all metadata (EXIF, GPS, ICC comments).
+ */
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+/** Longest edge sent to the models; larger images only cost upload time. */
+export const DEFAULT_MAX_IMAGE_DIMENSION = 1536;
+
+export type ImageIngestErrorReason = 'unsupportedType' | 'tooLarge' | 'decodeFailed';
+
+/** Raised for files that can't be used; `reason` maps to a localized message. */
+export class ImageIngestError extends Error {
+  constructor(public readonly reason: ImageIngestErrorReason, message: string) {
+    super(message);
+    this.name = 'ImageIngestError';
+  }
+}
+
+/** A rectangle in the oriented image's natural pixels. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface IngestOptions {
+  crop?: CropRect;
+  maxDimension?: number;
+  /** JPEG/WebP quality between 0 and 1. */
+  quality?: number;
+}
+
+export interface IngestedImage {
+  blob: Blob;
+  base64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Checks that a file is an image type and size the app accepts.
+ * @throws ImageIngestError when the file is rejected.
+ */
+export function validateImageFile(file: File): void {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new ImageIngestError('unsupportedType', `Unsupported image type: ${file.type || 'unknown'}.`);
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new ImageIngestError('tooLarge', `Image is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)}MB.`);
+  }
+}
+
+/**
+ * Decodes an image with its EXIF orientation applied, so phone photos come out upright.
+ * @param file The image file.
+ * @returns The decoded bitmap; close it when done.
+ */
+export async function loadOrientedImage(file: Blob): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (e) {
+    throw new ImageIngestError('decodeFailed', "The image could not be decoded.");
+  }
+}
+
+/**
+ * Returns the largest centered rectangle with the given aspect ratio.
+ * @param width The image width.
+ * @param height The image height.
+ * @param aspectRatio Width divided by height.
+ */
+export function centeredCrop(width: number, height: number, aspectRatio: number): CropRect {
+  const cropWidth = Math.min(width, height * aspectRatio);
+  const cropHeight = cropWidth / aspectRatio;
+  return {
+    x: (width - cropWidth) / 2,
+    y: (height - cropHeight) / 2,
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+/**
+ * Parses an aspect ratio such as "16:9".
+ * @returns Width divided by height.
+ */
+export function parseAspectRatio(aspectRatio: string): number {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width / height;
+}
+
+/**
+ * Encodes a Blob as base64 without the data URL prefix.
+ */
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+  });
+}
+
+/**
+ * Validates, orients, crops, downscales and re-encodes an image for upload.
+ * PNGs stay PNG to keep transparency; everything else becomes JPEG.
+ * @param file The user's image.
+ * @param options Crop, size and quality settings.
+ * @returns The prepared image and its base64 payload.
+ */
+export async function ingestImage(
+  file: File,
+  { crop, maxDimension = DEFAULT_MAX_IMAGE_DIMENSION, quality = 0.9 }: IngestOptions = {},
+): Promise<IngestedImage> {
+  validateImageFile(file);
+  const bitmap = await loadOrientedImage(file);
+
+  try {
+    const source = crop ?? { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+    const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error("Canvas 2D context is not available.");
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, source.x, source.y, source.width, source.height, 0, 0, width, height);
+
+    const mimeType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(result => (result ? resolve(result) : reject(new Error("Failed to encode the image."))), mimeType, quality);
+    });
+    return { blob, base64: await blobToBase64(blob), mimeType, width, height };
+  } finally {
+    bitmap.close();
+  }
+}
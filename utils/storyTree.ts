@@ -0,0 +1,79 @@
+/**
+ * A story as a tree of chapter versions. Each node is one chapter; the
+ * manuscript is the path from the root to the selected node. Continuing adds
+ * a child, while rewrites and branches add alternatives alongside a chapter.
+ */
+
+export type StoryNodeKind = 'opening' | 'continuation' | 'rewrite' | 'branch';
+
+export interface StoryNode {
+  id: string;
+  parentId: string | null;
+  kind: StoryNodeKind;
+  text: string;
+  /** The tone of a rewrite or the direction of a continuation/branch, when given. */
+  note?: string;
+  createdAt: number;
+}
+
+export type StoryTree = Record<string, StoryNode>;
+
+const createNodeId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Adds a chapter to the tree.
+ * @returns The new tree and the created node.
+ */
+export function addStoryNode(
+  tree: StoryTree,
+  node: Omit<StoryNode, 'id' | 'createdAt'>,
+): { tree: StoryTree; node: StoryNode } {
+  const created: StoryNode = { ...node, id: createNodeId(), createdAt: Date.now() };
+  return { tree: { ...tree, [created.id]: created }, node: created };
+}
+
+/**
+ * Returns the chapters from the root down to a node.
+ */
+export function getStoryPath(tree: StoryTree, nodeId: string | null): StoryNode[] {
+  const path: StoryNode[] = [];
+  let current = nodeId ? tree[nodeId] : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? tree[current.parentId] : undefined;
+  }
+  return path;
+}
+
+/**
+ * Returns the alternative versions of a chapter, including the chapter itself, oldest first.
+ */
+export function getStorySiblings(tree: StoryTree, node: StoryNode): StoryNode[] {
+  return Object.values(tree)
+    .filter(candidate => candidate.parentId === node.parentId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Follows the most recently written chapter below a node, so picking an
+ * earlier version brings back the manuscript that was built on it.
+ */
+export function getLatestDescendant(tree: StoryTree, nodeId: string): StoryNode {
+  let current = tree[nodeId];
+  for (;;) {
+    const children = Object.values(tree).filter(candidate => candidate.parentId === current.id);
+    if (children.length === 0) return current;
+    current = children.reduce((latest, child) => (child.createdAt > latest.createdAt ? child : latest));
+  }
+}
+
+/**
+ * Renders a manuscript as Markdown with one heading per chapter.
+ * @param path The chapters in reading order.
+ * @param title The document title.
+ * @param chapterLabel The word used for chapter headings, e.g. "Chapter".
+ */
+export function storyToMarkdown(path: StoryNode[], title: string, chapterLabel: string): string {
+  const chapters = path.map((node, index) => `## ${chapterLabel} ${index + 1}\n\n${node.text.trim()}`);
+  return `# ${title}\n\n${chapters.join('\n\n')}\n`;
+}
@@ -0,0 +1,144 @@
+/**
+ * Splits prose into sentences, keeping trailing punctuation and whitespace
+ * attached so the pieces concatenate back into the original text.
+ * @param text The text to split.
+ * @returns The sentences in order.
+ */
+export function splitIntoSentences(text: string): string[] {
+  return text.match(/[^.!?。！？]*[.!?。！？]+["'”’)\]]*\s*|[^.!?。！？]+$/g) ?? [];
+}
+
+/**
+ * Estimates when each sentence starts in a narration, assuming speech time is
+ * proportional to character count.
+ * @param sentences The sentences of the narrated text.
+ * @param duration The narration length in seconds.
+ * @returns The start time in seconds of each sentence.
+ */
+export function estimateSentenceStartTimes(sentences: string[], duration: number): number[] {
+  const totalLength = sentences.reduce((sum, sentence) => sum + sentence.length, 0) || 1;
+  let elapsed = 0;
+  return sentences.map(sentence => {
+    const start = elapsed;
+    elapsed += (sentence.length / totalLength) * duration;
+    return start;
+  });
+}
+
+/**
+ * Finds the character names that tag dialogue lines written as "Name: line".
+ * @param text The text to scan.
+ * @returns The distinct speaker names, in order of first appearance.
+ */
+export function detectSpeakers(text: string): string[] {
+  const speakers = new Set<string>();
+  for (const match of text.matchAll(/^\s*(\p{Lu}[\p{L}\p{M}'’ .-]{0,30}?)\s*:\s+\S/gmu)) {
+    speakers.add(match[1].trim());
+  }
+  return [...speakers];
+}
+
+/**
+ * Splits text into pieces of at most `maxChars`, breaking at line and
+ * sentence boundaries where possible so each piece reads naturally on its own.
+ * @param text The text to split.
+ * @param maxChars The maximum length of a piece.
+ * @returns The non-empty pieces in order.
+ */
+export function chunkText(text: string, maxChars: number): string[] {
+  const units: string[] = [];
+  for (const line of text.split(/(?<=\n)/)) {
+    if (line.length <= maxChars) {
+      units.push(line);
+      continue;
+    }
+    for (const sentence of splitIntoSentences(line)) {
+      if (sentence.length <= maxChars) {
+        units.push(sentence);
+        continue;
+      }
+      // A single run-on sentence: fall back to word boundaries.
+      let piece = '';
+      for (const word of sentence.split(/(?<=\s)/)) {
+        if (piece && piece.length + word.length > maxChars) {
+          units.push(piece);
+          piece = '';
+        }
+        piece += word;
+      }
+      if (piece) units.push(piece);
+    }
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    if (current && current.length + unit.length > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current += unit;
+  }
+  chunks.push(current);
+  return chunks.map(chunk => chunk.trim()).filter(Boolean);
+}
+
+export type WordDiffType = 'same' | 'added' | 'removed';
+
+export interface WordDiffPart {
+  type: WordDiffType;
+  text: string;
+}
+
+/**
+ * Compares two texts word by word using their longest common subsequence.
+ * Whitespace stays attached to the word before it, so the 'same' and 'added'
+ * parts concatenate back into the new text.
+ * @param before The original text.
+ * @param after The revised text.
+ * @returns The diff parts in reading order, with adjacent parts of one type merged.
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const tokenize = (text: string) => text.match(/\s*\S+\s*/g) ?? [];
+  const a = tokenize(before);
+  const b = tokenize(after);
+  // Trailing punctuation is ignored so "space" and "space," still line up.
+  const key = (token: string) => token.trim().replace(/[.,;:!?。，]+$/, '');
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..].
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = key(a[i]) === key(b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  const push = (type: WordDiffType, text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (key(a[i]) === key(b[j])) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+}
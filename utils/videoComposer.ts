@@ -0,0 +1,281 @@
+/**
+ * In-browser video composition. Clips and title cards are drawn onto a
+ * canvas in real time while a MediaRecorder captures the canvas together
+ * with an optional narration track, producing a single downloadable file.
+ */
+
+export interface CompositionClip {
+  blob: Blob;
+  /** Shown on a title card before the clip when title cards are enabled. */
+  title?: string;
+}
+
+export interface CompositionOptions {
+  clips: CompositionClip[];
+  /** Opening title card text; omitted when empty. */
+  title?: string;
+  /** Whether to show each clip's title on its own card before the clip. */
+  sceneTitleCards?: boolean;
+  titleCardSeconds?: number;
+  crossfadeSeconds?: number;
+  /** Narration mixed under the whole film, starting at the first frame. */
+  narration?: AudioBuffer;
+  width?: number;
+  height?: number;
+  fps?: number;
+  /** Called with completion between 0 and 1 while recording. */
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+interface TitleSegment {
+  type: 'title';
+  text: string;
+  start: number;
+  duration: number;
+}
+
+interface ClipSegment {
+  type: 'clip';
+  video: HTMLVideoElement;
+  start: number;
+  duration: number;
+  isPlaying: boolean;
+}
+
+type Segment = TitleSegment | ClipSegment;
+
+const MIME_TYPE_PREFERENCES = [
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+/**
+ * Picks the best container the browser can record, preferring MP4.
+ * @returns The MIME type, or an empty string when recording is unsupported.
+ */
+export const getSupportedExportMimeType = (): string => {
+  if (typeof MediaRecorder === 'undefined') return '';
+  return MIME_TYPE_PREFERENCES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+};
+
+const loadVideo = (blob: Blob): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.src = URL.createObjectURL(blob);
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error("A clip could not be decoded for composition."));
+  });
+};
+
+const drawTitleCard = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `bold ${Math.round(height / 14)}px sans-serif`;
+
+  // Wrap the title to roughly 80% of the frame width.
+  const words = text.split(/\s+/);
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > width * 0.8 && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  const lineHeight = height / 10;
+  const top = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((l, i) => ctx.fillText(l, width / 2, top + i * lineHeight));
+};
+
+/** Draws a video frame letterboxed into the canvas. */
+const drawVideoFrame = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, width: number, height: number) => {
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight) || 1;
+  const w = video.videoWidth * scale;
+  const h = video.videoHeight * scale;
+  ctx.drawImage(video, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+const buildTimeline = (
+  videos: HTMLVideoElement[],
+  clips: CompositionClip[],
+  options: Required<Pick<CompositionOptions, 'sceneTitleCards' | 'titleCardSeconds' | 'crossfadeSeconds'>> & { title?: string },
+): Segment[] => {
+  const segments: Segment[] = [];
+  let cursor = 0;
+  const push = (segment: Omit<TitleSegment, 'start'> | Omit<ClipSegment, 'start'>) => {
+    // Every segment after the first overlaps the previous one by the crossfade.
+    const start = segments.length === 0 ? 0 : Math.max(0, cursor - options.crossfadeSeconds);
+    segments.push({ ...segment, start } as Segment);
+    cursor = start + segment.duration;
+  };
+
+  if (options.title?.trim()) {
+    push({ type: 'title', text: options.title.trim(), duration: options.titleCardSeconds });
+  }
+  videos.forEach((video, index) => {
+    const clipTitle = clips[index].title?.trim();
+    if (options.sceneTitleCards && clipTitle) {
+      push({ type: 'title', text: clipTitle, duration: options.titleCardSeconds });
+    }
+    push({ type: 'clip', video, duration: video.duration, isPlaying: false });
+  });
+  return segments;
+};
+
+/**
+ * Concatenates clips into a single recording with optional title cards,
+ * crossfades and narration. Recording happens in real time, so this takes
+ * as long as the finished film.
+ * @param options The clips and composition settings.
+ * @returns A promise that resolves to the recorded video.
+ */
+export const composeVideo = async ({
+  clips,
+  title,
+  sceneTitleCards = false,
+  titleCardSeconds = 2,
+  crossfadeSeconds = 0.5,
+  narration,
+  width = 1280,
+  height = 720,
+  fps = 30,
+  onProgress,
+  signal,
+}: CompositionOptions): Promise<Blob> => {
+  if (clips.length === 0) {
+    throw new Error("There are no clips to compose.");
+  }
+  const mimeType = getSupportedExportMimeType();
+  if (!mimeType) {
+    throw new Error("Video recording is not supported in this browser.");
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+
+  const videos = await Promise.all(clips.map(clip => loadVideo(clip.blob)));
+  const segments = buildTimeline(videos, clips, { title, sceneTitleCards, titleCardSeconds, crossfadeSeconds });
+  const last = segments[segments.length - 1];
+  const videoLength = last.start + last.duration;
+  const totalLength = Math.max(videoLength, narration?.duration ?? 0);
+
+  const stream = canvas.captureStream(fps);
+  let audioContext: AudioContext | null = null;
+  let narrationSource: AudioBufferSourceNode | null = null;
+  if (narration) {
+    audioContext = new AudioContext();
+    // Created after the clips load, outside the click that started the export, so browsers start it suspended.
+    await audioContext.resume();
+    const destination = audioContext.createMediaStreamDestination();
+    narrationSource = audioContext.createBufferSource();
+    narrationSource.buffer = narration;
+    narrationSource.connect(destination);
+    destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+  }
+
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const cleanup = () => {
+    stream.getTracks().forEach(track => track.stop());
+    videos.forEach(video => {
+      video.pause();
+      URL.revokeObjectURL(video.src);
+    });
+    narrationSource?.stop();
+    audioContext?.close();
+  };
+
+  const drawSegment = (segment: Segment, alpha: number) => {
+    ctx.globalAlpha = alpha;
+    if (segment.type === 'title') {
+      drawTitleCard(ctx, segment.text, width, height);
+    } else {
+      drawVideoFrame(ctx, segment.video, width, height);
+    }
+    ctx.globalAlpha = 1;
+  };
+
+  try {
+    recorder.start(1000);
+    narrationSource?.start();
+    const startedAt = performance.now();
+
+    await new Promise<void>((resolve, reject) => {
+      const renderFrame = () => {
+        if (signal?.aborted) {
+          reject(new DOMException('Composition was cancelled.', 'AbortError'));
+          return;
+        }
+        const elapsed = (performance.now() - startedAt) / 1000;
+        onProgress?.(Math.min(1, elapsed / totalLength));
+        if (elapsed >= totalLength) {
+          resolve();
+          return;
+        }
+
+        const visible = segments.filter(s => elapsed >= s.start && elapsed < s.start + s.duration);
+        segments.forEach(segment => {
+          if (segment.type !== 'clip') return;
+          const shouldPlay = visible.includes(segment);
+          if (shouldPlay && !segment.isPlaying) {
+            segment.video.currentTime = 0;
+            segment.video.play().catch(() => undefined);
+            segment.isPlaying = true;
+          } else if (!shouldPlay && segment.isPlaying) {
+            segment.video.pause();
+            segment.isPlaying = false;
+          }
+        });
+
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, 0, width, height);
+        if (visible.length === 0) {
+          // Past the last clip while narration finishes: hold the final frame.
+          drawSegment(last, 1);
+        } else {
+          drawSegment(visible[0], 1);
+          if (visible[1]) {
+            const fade = crossfadeSeconds > 0 ? (elapsed - visible[1].start) / crossfadeSeconds : 1;
+            drawSegment(visible[1], Math.min(1, Math.max(0, fade)));
+          }
+        }
+        requestAnimationFrame(renderFrame);
+      };
+      renderFrame();
+    });
+
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } catch (err) {
+    if (recorder.state !== 'inactive') recorder.stop();
+    throw err;
+  } finally {
+    cleanup();
+  }
+};